@@ -1,6 +1,7 @@
 import tseslint from "typescript-eslint";
 import obsidianmd from "eslint-plugin-obsidianmd";
 import globals from "globals";
+import { DEFAULT_BRANDS } from "eslint-plugin-obsidianmd/dist/lib/rules/ui/brands.js";
 
 export default tseslint.config(
     {
@@ -20,6 +21,16 @@ export default tseslint.config(
         },
     },
     ...obsidianmd.configs.recommended,
+    {
+        plugins: { obsidianmd },
+        rules: {
+            // Services the plugin imports from keep their own spelling
+            "obsidianmd/ui/sentence-case": ["error", {
+                enforceCamelCaseLower: true,
+                brands: [...DEFAULT_BRANDS, "Toggl", "Toggl Track", "Clockify", "Harvest"],
+            }],
+        },
+    },
     {
         ignores: [
             "node_modules/**",
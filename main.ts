@@ -1,15 +1,31 @@
-import { Plugin, WorkspaceLeaf, debounce } from 'obsidian';
-import { TimeTrackerSettings, DEFAULT_SETTINGS, VIEW_TYPE_TIMELINE, VIEW_TYPE_REPORTS } from './src/types';
+import { Plugin, WorkspaceLeaf, Notice, Debouncer, TAbstractFile, debounce, normalizePath } from 'obsidian';
+import { TimeEntry, TimeTrackerSettings, DEFAULT_SETTINGS, VIEW_TYPE_TIMELINE, VIEW_TYPE_REPORTS, VIEW_TYPE_TRASH, VIEW_TYPE_SEARCH } from './src/types';
 import { TimeTrackerSettingTab } from './src/settings';
 import { DataManager } from './src/data/DataManager';
+import { EntryIndex } from './src/data/EntryIndex';
+import { NormalizedFile } from './src/data/FileNormalizer';
+import { TimeTrackerApi } from './src/api/TimeTrackerApi';
+import { FolderRelocation, RelocationPlan } from './src/data/FolderRelocation';
+import { IntegrityChecker, IntegrityFix } from './src/data/IntegrityChecker';
 import { TimelineView } from './src/views/TimelineView';
 import { ReportsView } from './src/views/ReportsView';
+import { TrashView } from './src/views/TrashView';
+import { SearchView } from './src/views/SearchView';
 import { EntryModal } from './src/modals/EntryModal';
+import { IntegrityModal } from './src/modals/IntegrityModal';
+import { NormalizeModal } from './src/modals/NormalizeModal';
+import { CsvImportModal } from './src/modals/CsvImportModal';
 import { Logger } from './src/utils/Logger';
 
 export default class WhereDidTheTimeGoPlugin extends Plugin {
     settings: TimeTrackerSettings;
     dataManager: DataManager;
+    /** Public API for other plugins and scripts (see TimeTrackerApi) */
+    api: TimeTrackerApi;
+    /** Debounced view refresh used by the file watcher */
+    private debouncedRefresh: Debouncer<[], void>;
+    /** Set while the data folder is being moved, so the watcher ignores our own writes */
+    private relocating = false;
 
     async onload(): Promise<void> {
         Logger.debug('Loading Where Did The Time Go plugin');
@@ -20,8 +36,12 @@ export default class WhereDidTheTimeGoPlugin extends Plugin {
         // Initialize logger with debug mode from settings
         Logger.setDebugMode(this.settings.debugMode);
 
-        // Initialize data manager
-        this.dataManager = new DataManager(this.app.vault, this.settings);
+        // Initialize data manager, with parsed files indexed in the plugin folder
+        const pluginDir = this.manifest.dir ?? `${this.app.vault.configDir}/plugins/${this.manifest.id}`;
+        const index = new EntryIndex(this.app.vault.adapter, normalizePath(`${pluginDir}/entry-index.json`));
+        this.dataManager = new DataManager(this.app.vault, this.settings, index);
+        this.dataManager.setSettingsSaver(() => this.saveSettings());
+        this.api = new TimeTrackerApi(this.dataManager, () => this.settings, () => this.refreshTimelineViews());
 
         // Register the timeline view
         this.registerView(
@@ -35,6 +55,26 @@ export default class WhereDidTheTimeGoPlugin extends Plugin {
             (leaf) => new ReportsView(leaf, this.settings, this.dataManager)
         );
 
+        // Register the trash view
+        this.registerView(
+            VIEW_TYPE_TRASH,
+            (leaf) => new TrashView(leaf, this.settings, this.dataManager)
+        );
+
+        // Register the search view
+        this.registerView(
+            VIEW_TYPE_SEARCH,
+            (leaf) => new SearchView(
+                leaf,
+                this.settings,
+                this.dataManager,
+                (entry) => {
+                    void this.showEntryInTimeline(entry);
+                },
+                () => this.refreshTimelineViews()
+            )
+        );
+
         // Add ribbon icon to open timeline
         this.addRibbonIcon('clock', 'Open timeline', () => {
             void this.activateTimelineView();
@@ -63,6 +103,24 @@ export default class WhereDidTheTimeGoPlugin extends Plugin {
             },
         });
 
+        // Add command to open the trash
+        this.addCommand({
+            id: 'open-trash',
+            name: 'Open trash',
+            callback: () => {
+                void this.activateTrashView();
+            },
+        });
+
+        // Add command to search entries
+        this.addCommand({
+            id: 'search-entries',
+            name: 'Search time entries',
+            callback: () => {
+                void this.activateSearchView();
+            },
+        });
+
         // Add command to create new entry
         this.addCommand({
             id: 'create-entry',
@@ -72,30 +130,103 @@ export default class WhereDidTheTimeGoPlugin extends Plugin {
             },
         });
 
+        // Undo/redo entry changes (history is kept for the session)
+        this.addCommand({
+            id: 'undo-entry-change',
+            name: 'Undo last time entry change',
+            callback: () => {
+                void this.dataManager.undo().then(changed => changed && this.refreshTimelineViews());
+            },
+        });
+
+        this.addCommand({
+            id: 'redo-entry-change',
+            name: 'Redo time entry change',
+            callback: () => {
+                void this.dataManager.redo().then(changed => changed && this.refreshTimelineViews());
+            },
+        });
+
+        this.addCommand({
+            id: 'repartition-entries',
+            name: 'Move existing entries to the current file layout',
+            callback: () => {
+                void this.repartitionEntries();
+            },
+        });
+
+        this.addCommand({
+            id: 'normalize-files',
+            name: 'Normalize time tracking files',
+            callback: () => {
+                void this.normalizeFiles();
+            },
+        });
+
+        this.addCommand({
+            id: 'check-data',
+            name: 'Check time tracking data',
+            callback: () => {
+                this.openIntegrityCheck();
+            },
+        });
+
+        this.addCommand({
+            id: 'import-csv',
+            name: 'Import from Toggl, Clockify, Harvest or CSV',
+            callback: () => {
+                new CsvImportModal(
+                    this.app,
+                    this.settings,
+                    this.dataManager,
+                    () => this.saveSettings(),
+                    () => this.refreshTimelineViews()
+                ).open();
+            },
+        });
+
         // Add settings tab
         this.addSettingTab(new TimeTrackerSettingTab(this.app, this));
 
         // Debounced refresh to avoid excessive updates during sync operations
-        const debouncedRefresh = debounce(() => this.refreshTimelineViews(), 500, true);
-
-        // Watch for file changes to invalidate cache
-        this.registerEvent(
-            this.app.vault.on('modify', (file) => {
-                if (file.path.startsWith(this.settings.timeTrackingFolder)) {
-                    // Invalidate cache for this file
-                    const monthMatch = file.name.match(/^(\d{4}-\d{2})\.md$/);
-                    if (monthMatch) {
-                        this.dataManager.invalidateMonth(monthMatch[1]);
-                        // Refresh open timeline views (debounced)
-                        debouncedRefresh();
-                    }
-                }
-            })
-        );
+        this.debouncedRefresh = debounce(() => this.refreshTimelineViews(), 500, true);
+
+        // Watch for file changes to invalidate the cache and index
+        this.registerEvent(this.app.vault.on('modify', (file) => void this.onDataFileChanged(file.path)));
+        // Obsidian reports every existing file as created while the vault loads
+        this.app.workspace.onLayoutReady(() => {
+            this.registerEvent(this.app.vault.on('create', (file) => void this.onDataFileChanged(file.path)));
+        });
+        this.registerEvent(this.app.vault.on('delete', (file) => void this.onDataFileChanged(file.path)));
+        this.registerEvent(this.app.vault.on('rename', (file: TAbstractFile, oldPath: string) => {
+            void this.onDataFileChanged(oldPath);
+            void this.onDataFileChanged(file.path);
+        }));
+
+        // Write the index now and then rather than after every load
+        this.registerInterval(window.setInterval(() => {
+            void this.dataManager.saveIndex();
+        }, 60 * 1000));
     }
 
     onunload(): void {
         Logger.debug('Unloading Where Did The Time Go plugin');
+        void this.dataManager?.saveIndex();
+    }
+
+    /**
+     * Drop cached data for a changed vault path and refresh views if it holds entries
+     */
+    private async onDataFileChanged(path: string): Promise<void> {
+        if (this.relocating || !path.startsWith(this.settings.timeTrackingFolder)) return;
+
+        // The partition key for a path depends on the partitioning setting
+        if (await this.dataManager.invalidatePath(path)) {
+            // Refresh open timeline views (debounced)
+            this.debouncedRefresh();
+        } else if (path === this.dataManager.getTrashFilePath()) {
+            this.debouncedRefresh();
+        }
     }
 
     async loadSettings(): Promise<void> {
@@ -170,6 +301,163 @@ export default class WhereDidTheTimeGoPlugin extends Plugin {
         }
     }
 
+    /**
+     * Activate or focus the trash view
+     */
+    async activateTrashView(): Promise<void> {
+        const { workspace } = this.app;
+
+        let leaf: WorkspaceLeaf | null = null;
+        const leaves = workspace.getLeavesOfType(VIEW_TYPE_TRASH);
+
+        if (leaves.length > 0) {
+            leaf = leaves[0];
+        } else {
+            leaf = workspace.getRightLeaf(false);
+            if (leaf) {
+                await leaf.setViewState({
+                    type: VIEW_TYPE_TRASH,
+                    active: true,
+                });
+            }
+        }
+
+        if (leaf) {
+            void workspace.revealLeaf(leaf);
+        }
+    }
+
+    /**
+     * Re-partition all data files to the current file layout and move old files to the trash
+     */
+    async repartitionEntries(): Promise<void> {
+        try {
+            const result = await this.dataManager.repartition();
+            for (const file of result.obsolete) {
+                await this.app.fileManager.trashFile(file);
+            }
+            new Notice(`Moved ${result.entries} ${result.entries === 1 ? 'entry' : 'entries'} into ${result.files} ${result.files === 1 ? 'file' : 'files'}`);
+            this.refreshTimelineViews();
+        } catch (err) {
+            Logger.error('Failed to re-partition entries:', err);
+            new Notice(`Could not move entries: ${err instanceof Error ? err.message : String(err)}`, 8000);
+        }
+    }
+
+    /**
+     * Move the time tracking folder (and the invoice folder if it's inside) to a new location
+     */
+    async relocateDataFolder(plan: RelocationPlan): Promise<void> {
+        this.relocating = true;
+        this.debouncedRefresh?.cancel();
+        try {
+            await new FolderRelocation(this.app).execute(plan);
+            this.settings.timeTrackingFolder = plan.to;
+            this.settings.invoiceFolder = plan.invoiceFolder;
+            this.dataManager.reset();
+            await this.saveSettings();
+            new Notice(`Moved time tracking data to "${plan.to}"`);
+        } catch (err) {
+            Logger.error('Failed to move time tracking folder:', err);
+            new Notice(`Could not move folder: ${err instanceof Error ? err.message : String(err)}`, 8000);
+        } finally {
+            this.relocating = false;
+        }
+    }
+
+    /**
+     * Activate or focus the search view
+     */
+    async activateSearchView(): Promise<void> {
+        const { workspace } = this.app;
+
+        let leaf: WorkspaceLeaf | null = null;
+        const leaves = workspace.getLeavesOfType(VIEW_TYPE_SEARCH);
+
+        if (leaves.length > 0) {
+            leaf = leaves[0];
+        } else {
+            leaf = workspace.getRightLeaf(false);
+            if (leaf) {
+                await leaf.setViewState({
+                    type: VIEW_TYPE_SEARCH,
+                    active: true,
+                });
+            }
+        }
+
+        if (leaf) {
+            void workspace.revealLeaf(leaf);
+        }
+    }
+
+    /**
+     * Open the timeline at an entry and highlight it
+     */
+    async showEntryInTimeline(entry: TimeEntry): Promise<void> {
+        await this.activateTimelineView();
+        const leaf = this.app.workspace.getLeavesOfType(VIEW_TYPE_TIMELINE)[0];
+        if (leaf?.view instanceof TimelineView) {
+            leaf.view.scrollToDate(entry.startDateTime, entry.id);
+        }
+    }
+
+    /**
+     * Preview normalizing hand-edited data files, then rewrite them on confirmation
+     */
+    async normalizeFiles(): Promise<void> {
+        let files: NormalizedFile[];
+        try {
+            files = await this.dataManager.planNormalization();
+        } catch (err) {
+            Logger.error('Failed to read files for normalizing:', err);
+            new Notice(`Could not read time tracking files: ${err instanceof Error ? err.message : String(err)}`, 8000);
+            return;
+        }
+        if (files.length === 0) {
+            new Notice('All time tracking files are already normalized');
+            return;
+        }
+
+        new NormalizeModal(this.app, files, async () => {
+            try {
+                await this.dataManager.applyNormalization(files);
+                new Notice(`Normalized ${files.length} ${files.length === 1 ? 'file' : 'files'}`);
+                this.refreshTimelineViews();
+                return true;
+            } catch (err) {
+                Logger.error('Failed to normalize files:', err);
+                new Notice(`Could not normalize files: ${err instanceof Error ? err.message : String(err)}`, 8000);
+                return false;
+            }
+        }).open();
+    }
+
+    /**
+     * Check all stored entries for problems and list them with fixes
+     */
+    private openIntegrityCheck(): void {
+        const check = async () => IntegrityChecker.check(
+            await this.dataManager.loadAllEntries(),
+            this.settings,
+            link => this.app.metadataCache.getFirstLinkpathDest(link, '') !== null
+        );
+        const applyFix = async (fix: IntegrityFix): Promise<boolean> => {
+            try {
+                await this.dataManager.applyChanges([fix.change], fix.label);
+                this.refreshTimelineViews();
+                return true;
+            } catch (err) {
+                Logger.error('Failed to apply fix:', err);
+                new Notice(`Could not apply fix: ${err instanceof Error ? err.message : String(err)}`, 8000);
+                return false;
+            }
+        };
+        new IntegrityModal(this.app, check, applyFix, entry => {
+            void this.showEntryInTimeline(entry);
+        }).open();
+    }
+
     /**
      * Open the create entry modal directly (for command palette)
      */
@@ -214,5 +502,23 @@ export default class WhereDidTheTimeGoPlugin extends Plugin {
                 view.updateSettings(this.settings);
             }
         }
+
+        // Refresh trash views
+        const trashLeaves = this.app.workspace.getLeavesOfType(VIEW_TYPE_TRASH);
+        for (const leaf of trashLeaves) {
+            const view = leaf.view as TrashView;
+            if (view && view.updateSettings) {
+                view.updateSettings(this.settings);
+            }
+        }
+
+        // Refresh search views
+        const searchLeaves = this.app.workspace.getLeavesOfType(VIEW_TYPE_SEARCH);
+        for (const leaf of searchLeaves) {
+            const view = leaf.view as SearchView;
+            if (view && view.updateSettings) {
+                view.updateSettings(this.settings);
+            }
+        }
     }
 }
@@ -0,0 +1,385 @@
+import type { Activity, Client, NewTimeEntry, Project, TimeEntry, TimeTrackerSettings } from '../types';
+import type { EventRef } from 'obsidian';
+import type { DataManager, DataManagerEvents } from '../data/DataManager';
+import { ReportDimensions, DimensionGroup } from '../data/ReportDimensions';
+import { TableParser } from '../core/TableParser';
+import { CustomFields } from '../data/CustomFields';
+import { Billing } from '../core/Billing';
+
+/**
+ * Version of the public API. Bumped only for changes that can break callers;
+ * additions keep the version.
+ */
+export const API_VERSION = 1;
+
+/**
+ * A time entry as returned by the API (a copy - changing it changes nothing)
+ */
+export type ApiEntry = Omit<TimeEntry, 'lineNumber'>;
+
+/**
+ * A date, a "YYYY-MM-DD" day or a "YYYY-MM-DD HH:mm" time (local unless it ends in a zone)
+ */
+export type ApiDate = Date | string;
+
+/**
+ * Which entries to return from query()
+ */
+export interface ApiEntryQuery {
+    /** Words that must all appear in the description, client, project, activity, tags or linked note */
+    text?: string;
+    /** Only entries overlapping from..to; a day as `to` includes that whole day */
+    from?: ApiDate;
+    to?: ApiDate;
+    /** Client ID or name */
+    client?: string;
+    project?: string;
+    activity?: string;
+    /** Tag without the leading # */
+    tag?: string;
+    /** Only billable (true) or non-billable (false) time, after activity defaults */
+    billable?: boolean;
+}
+
+/**
+ * Fields for create() and update()
+ */
+export interface ApiEntryInput {
+    start: ApiDate;
+    end: ApiDate;
+    description: string;
+    /** Client ID or name */
+    client: string;
+    /** Project of the client (ID or name) */
+    project?: string;
+    /** Activity of the client (ID or name) */
+    activity?: string;
+    tags?: string[];
+    /** Billable override; when not set, the activity's default applies */
+    billable?: boolean;
+    /** Path of a note to link */
+    linkedNote?: string;
+    /** IANA time zone or offset to record the entry in */
+    timeZone?: string;
+    /** Custom field values and other extra columns, keyed by column header */
+    extraFields?: Record<string, string>;
+}
+
+/**
+ * A client with the projects and activities that belong to it
+ */
+export interface ApiClient extends Client {
+    projects: Project[];
+    activities: Activity[];
+}
+
+/**
+ * Time per group over a range, as in the Reports view
+ */
+export interface ApiReport {
+    from: Date;
+    to: Date;
+    /** Dimension the groups are for: 'client', 'project', 'activity', 'tag', 'billable' or 'field:<id>' */
+    groupBy: string;
+    /** Minutes inside the range (entries crossing its edges are clipped) */
+    totalMinutes: number;
+    billableMinutes: number;
+    nonBillableMinutes: number;
+    /** Largest first; entries with several tags count towards each */
+    groups: DimensionGroup[];
+}
+
+/**
+ * Supported way in for other plugins and scripts
+ *
+ * Reached through the plugin instance:
+ * `app.plugins.plugins['where-did-the-time-go'].api`. Writes go through the
+ * same checks as the entry form (client, project and activity must exist,
+ * custom fields must be valid, no overlaps) and land in the undo history.
+ * Methods throw an Error with a readable message when a call is refused.
+ */
+export class TimeTrackerApi {
+    readonly version = API_VERSION;
+
+    private dataManager: DataManager;
+    private getSettings: () => TimeTrackerSettings;
+    private onChange: () => void;
+
+    /**
+     * @param onChange - Called after an entry was created, updated or deleted
+     */
+    constructor(dataManager: DataManager, getSettings: () => TimeTrackerSettings, onChange: () => void) {
+        this.dataManager = dataManager;
+        this.getSettings = getSettings;
+        this.onChange = onChange;
+    }
+
+    /**
+     * Entries matching a filter, newest first (all entries without one)
+     */
+    async query(filter: ApiEntryQuery = {}): Promise<ApiEntry[]> {
+        const settings = this.getSettings();
+        const client = filter.client === undefined ? undefined : this.findClient(filter.client);
+        const entries = await this.dataManager.findEntries({
+            text: filter.text ?? '',
+            from: filter.from === undefined ? undefined : TimeTrackerApi.toDate(filter.from, false),
+            to: filter.to === undefined ? undefined : TimeTrackerApi.toDate(filter.to, true),
+        });
+
+        return entries
+            .filter(entry =>
+                (!client || entry.client === client.id) &&
+                (filter.project === undefined || TimeTrackerApi.sameName(entry.project, filter.project, settings.projects)) &&
+                (filter.activity === undefined || TimeTrackerApi.sameName(entry.activity, filter.activity, settings.activities)) &&
+                (filter.tag === undefined || (entry.tags ?? []).includes(filter.tag.replace(/^#/, ''))) &&
+                (filter.billable === undefined || Billing.isBillable(entry, settings) === filter.billable)
+            )
+            .map(TimeTrackerApi.copy);
+    }
+
+    /**
+     * Add an entry
+     */
+    async create(input: ApiEntryInput): Promise<ApiEntry> {
+        const entry = this.toNewEntry(input);
+        const created = await this.dataManager.createEntry(entry);
+        this.onChange();
+        return TimeTrackerApi.copy(created);
+    }
+
+    /**
+     * Change some fields of an entry (fields set to undefined are cleared)
+     */
+    async update(id: string, changes: Partial<ApiEntryInput>): Promise<ApiEntry> {
+        const existing = await this.findEntry(id);
+        const merged = this.toNewEntry({
+            start: TableParser.formatDateTime(existing.startDateTime, existing.timeZone),
+            end: TableParser.formatDateTime(existing.endDateTime, existing.timeZone),
+            description: existing.description,
+            client: existing.client,
+            project: existing.project,
+            activity: existing.activity,
+            tags: existing.tags,
+            billable: existing.billable,
+            linkedNote: existing.linkedNote,
+            timeZone: existing.timeZone,
+            extraFields: existing.extraFields,
+            ...changes,
+        }, existing);
+        const updated = await this.dataManager.updateEntry(existing, merged);
+        this.onChange();
+        return TimeTrackerApi.copy(updated);
+    }
+
+    /**
+     * Move an entry to the trash
+     */
+    async delete(id: string): Promise<void> {
+        await this.dataManager.deleteEntry(await this.findEntry(id));
+        this.onChange();
+    }
+
+    /**
+     * Listen for 'entry-created', 'entry-updated', 'entry-deleted' or 'month-reloaded'
+     * Entries passed to the callback are copies. Pass the returned ref to offref() to stop.
+     */
+    on<K extends keyof DataManagerEvents>(name: K, callback: DataManagerEvents[K]): EventRef {
+        const listener = (...data: unknown[]) => {
+            const args = data.map(arg => typeof arg === 'object' && arg !== null ? TimeTrackerApi.copy(arg as TimeEntry) : arg);
+            (callback as (...data: unknown[]) => void)(...args);
+        };
+        return this.dataManager.on(name, listener as DataManagerEvents[K]);
+    }
+
+    /**
+     * Stop listening
+     */
+    offref(ref: EventRef): void {
+        this.dataManager.offref(ref);
+    }
+
+    /**
+     * Configured clients with their projects and activities
+     */
+    getClients(): ApiClient[] {
+        const settings = this.getSettings();
+        return settings.clients.map(client => ({
+            ...client,
+            projects: settings.projects.filter(p => p.clientId === client.id).map(p => ({ ...p })),
+            activities: settings.activities.filter(a => a.clientId === client.id).map(a => ({ ...a })),
+        }));
+    }
+
+    /**
+     * Time per client, project, activity, tag, billable status or custom field over a range
+     */
+    async getReport(range: { from: ApiDate; to: ApiDate }, groupBy = 'client'): Promise<ApiReport> {
+        const settings = this.getSettings();
+        const dimensions = ReportDimensions.forSettings(settings);
+        const dimension = dimensions.find(d => d.id === groupBy);
+        if (!dimension) {
+            throw new Error(`Can't group by "${groupBy}" (use one of ${dimensions.map(d => d.id).join(', ')})`);
+        }
+
+        const from = TimeTrackerApi.toDate(range.from, false);
+        const to = TimeTrackerApi.toDate(range.to, true);
+        if (to <= from) {
+            throw new Error('The report range must end after it starts');
+        }
+
+        const entries = await this.dataManager.loadDateRange(from, to);
+        const minutesOf = (entry: TimeEntry) => this.dataManager.getEffectiveDuration(entry, from, to);
+        const { billableMinutes, nonBillableMinutes } = Billing.split(entries, settings, minutesOf);
+        return {
+            from,
+            to,
+            groupBy,
+            totalMinutes: billableMinutes + nonBillableMinutes,
+            billableMinutes,
+            nonBillableMinutes,
+            groups: ReportDimensions.group(entries, dimension, minutesOf),
+        };
+    }
+
+    /**
+     * Check an entry input against the settings and turn it into what DataManager stores
+     * @param existing - Entry being updated; a project or activity it already has is kept even if it's no longer configured
+     */
+    private toNewEntry(input: ApiEntryInput, existing?: TimeEntry): NewTimeEntry {
+        const settings = this.getSettings();
+        const start = TimeTrackerApi.toStored(input.start, 'start', input.timeZone);
+        const end = TimeTrackerApi.toStored(input.end, 'end', input.timeZone);
+        const startDateTime = TableParser.parseDateTime(start, input.timeZone);
+        const endDateTime = TableParser.parseDateTime(end, input.timeZone);
+        if (!startDateTime || !endDateTime) {
+            throw new Error(`Invalid start or end (expected "YYYY-MM-DD HH:mm", got "${start}" and "${end}")`);
+        }
+        if (endDateTime <= startDateTime) {
+            throw new Error('End time must be after start time');
+        }
+        // Times are written in the entry's own zone if it has one (so the date is that zone's day too)
+        const storedStart = input.timeZone ? TableParser.formatDateTime(startDateTime, input.timeZone) : start;
+        const storedEnd = input.timeZone ? TableParser.formatDateTime(endDateTime, input.timeZone) : end;
+
+        const description = (input.description ?? '').trim();
+        if (settings.descriptionMaxLength > 0 && description.length > settings.descriptionMaxLength) {
+            throw new Error(`Description is longer than ${settings.descriptionMaxLength} characters`);
+        }
+
+        const client = this.findClient(input.client);
+        const unchanged = existing?.client === client.id;
+        const project = !input.project || (unchanged && input.project === existing.project)
+            ? input.project || undefined
+            : TimeTrackerApi.findNamed(settings.projects, client.id, input.project, 'project').name;
+        const activity = !input.activity || (unchanged && input.activity === existing.activity)
+            ? input.activity || undefined
+            : TimeTrackerApi.findNamed(settings.activities, client.id, input.activity, 'activity').name;
+
+        const extraFields = input.extraFields ? { ...input.extraFields } : undefined;
+        for (const field of CustomFields.forClient(settings, client.id)) {
+            const problem = CustomFields.validate(field, CustomFields.getValue({ extraFields }, field));
+            if (problem) throw new Error(problem);
+        }
+
+        return {
+            date: storedStart.slice(0, 10),
+            start: storedStart,
+            end: storedEnd,
+            timeZone: input.timeZone,
+            description,
+            client: client.id,
+            project,
+            activity,
+            tags: input.tags?.length ? input.tags.map(tag => tag.replace(/^#/, '')) : undefined,
+            billable: input.billable,
+            linkedNote: input.linkedNote || undefined,
+            extraFields,
+        };
+    }
+
+    private findClient(idOrName: string): Client {
+        const client = this.getSettings().clients.find(c => c.id === idOrName || c.name === idOrName);
+        if (!client) {
+            throw new Error(`Unknown client "${idOrName}"`);
+        }
+        return client;
+    }
+
+    private async findEntry(id: string): Promise<TimeEntry> {
+        const entry = (await this.dataManager.loadAllEntries()).find(e => e.id === id);
+        if (!entry) {
+            throw new Error(`No time entry with ID "${id}"`);
+        }
+        return entry;
+    }
+
+    /**
+     * A client's project or activity by ID or name
+     */
+    private static findNamed<T extends Project | Activity>(items: T[], clientId: string, idOrName: string, kind: string): T {
+        const item = items.find(i => i.clientId === clientId && (i.id === idOrName || i.name === idOrName));
+        if (!item) {
+            throw new Error(`Unknown ${kind} "${idOrName}" for this client`);
+        }
+        return item;
+    }
+
+    /**
+     * Whether a stored project or activity refers to the same item as a filter value
+     */
+    private static sameName(stored: string | undefined, wanted: string, items: (Project | Activity)[]): boolean {
+        if (!stored) return false;
+        const names = new Set([wanted, ...items.filter(i => i.id === wanted || i.name === wanted).flatMap(i => [i.id, i.name])]);
+        return names.has(stored);
+    }
+
+    /**
+     * A date input as a Date; a day on its own means its start, or its end when `endOfDay` is set
+     */
+    private static toDate(value: ApiDate, endOfDay: boolean): Date {
+        if (value instanceof Date) {
+            if (isNaN(value.getTime())) throw new Error('Invalid date');
+            return value;
+        }
+        const day = /^\d{4}-\d{2}-\d{2}$/.test(value.trim()) ? TableParser.parseDateTime(`${value.trim()} 00:00`) : null;
+        if (day) {
+            if (endOfDay) day.setDate(day.getDate() + 1);
+            return day;
+        }
+        const date = TableParser.parseDateTime(value);
+        if (!date) {
+            throw new Error(`Invalid date "${value}" (expected "YYYY-MM-DD" or "YYYY-MM-DD HH:mm")`);
+        }
+        return date;
+    }
+
+    /**
+     * A start or end input in the stored "YYYY-MM-DD HH:mm" form
+     */
+    private static toStored(value: ApiDate, name: string, zone?: string): string {
+        if (value instanceof Date) {
+            if (isNaN(value.getTime())) throw new Error(`Invalid ${name} date`);
+            return TableParser.formatDateTime(value, zone);
+        }
+        return String(value ?? '').trim();
+    }
+
+    /**
+     * A copy callers can't use to change cached entries (the row number is internal)
+     * Date and times are local, as for entries read from a file - a just-saved entry still holds what was written.
+     */
+    private static copy(this: void, entry: TimeEntry): ApiEntry {
+        const copy: ApiEntry & { lineNumber?: number } = {
+            ...entry,
+            date: TableParser.getDateString(entry.startDateTime),
+            start: TableParser.formatTime(entry.startDateTime),
+            end: TableParser.formatTime(entry.endDateTime),
+            tags: entry.tags ? [...entry.tags] : undefined,
+            extraFields: entry.extraFields ? { ...entry.extraFields } : undefined,
+            startDateTime: new Date(entry.startDateTime),
+            endDateTime: new Date(entry.endDateTime),
+        };
+        delete copy.lineNumber;
+        return copy;
+    }
+}
@@ -0,0 +1,54 @@
+import type { Activity, TimeEntry, TimeTrackerSettings } from '../types';
+
+/**
+ * Decides which time is billable
+ *
+ * An entry's own flag wins; otherwise the activity's default applies, and
+ * time without an activity (or with an unknown one) is billable.
+ */
+export class Billing {
+    /**
+     * Whether an entry counts as billable time
+     */
+    static isBillable(entry: Pick<TimeEntry, 'billable' | 'activity' | 'client'>, settings: TimeTrackerSettings): boolean {
+        if (entry.billable !== undefined) return entry.billable;
+        return Billing.activityDefault(settings, entry.client, entry.activity);
+    }
+
+    /**
+     * Billable default of an activity (true if not found)
+     * @param activityIdOrName - Activity name or ID as stored on the entry
+     */
+    static activityDefault(settings: TimeTrackerSettings, clientId: string, activityIdOrName?: string): boolean {
+        return Billing.findActivity(settings, clientId, activityIdOrName)?.billable !== false;
+    }
+
+    /**
+     * Split entries' minutes into billable and non-billable
+     * @param minutesOf - Duration to count for an entry (e.g. clipped to the report range)
+     */
+    static split(
+        entries: TimeEntry[],
+        settings: TimeTrackerSettings,
+        minutesOf: (entry: TimeEntry) => number
+    ): { billableMinutes: number; nonBillableMinutes: number } {
+        let billableMinutes = 0;
+        let nonBillableMinutes = 0;
+        for (const entry of entries) {
+            const minutes = minutesOf(entry);
+            if (minutes <= 0) continue;
+            if (Billing.isBillable(entry, settings)) {
+                billableMinutes += minutes;
+            } else {
+                nonBillableMinutes += minutes;
+            }
+        }
+        return { billableMinutes, nonBillableMinutes };
+    }
+
+    private static findActivity(settings: TimeTrackerSettings, clientId: string, activityIdOrName?: string): Activity | undefined {
+        if (!activityIdOrName) return undefined;
+        const candidates = settings.activities.filter(a => a.name === activityIdOrName || a.id === activityIdOrName);
+        return candidates.find(a => a.clientId === clientId) ?? candidates[0];
+    }
+}
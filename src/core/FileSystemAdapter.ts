@@ -0,0 +1,16 @@
+/**
+ * File access the core needs, so it can run against an Obsidian vault, a plain
+ * directory on disk (CLI, Node scripts) or memory (tests)
+ *
+ * Paths are relative to the vault root and always use "/" as separator.
+ */
+export interface FileSystemAdapter {
+    /** Contents of a file, or null if it doesn't exist */
+    read(path: string): Promise<string | null>;
+    /** Create or overwrite a file, creating missing parent folders */
+    write(path: string, content: string): Promise<void>;
+    /** Paths of every file below a folder (recursively); empty if the folder doesn't exist */
+    list(folder: string): Promise<string[]>;
+    /** Delete a file; used to undo files a failed write created (they are emptied without it) */
+    remove?(path: string): Promise<void>;
+}
@@ -0,0 +1,106 @@
+import type { TimeEntry, EntryChange } from '../types';
+import { TableParser } from './TableParser';
+
+/**
+ * Result of applying changes to the entries of one file
+ */
+export interface MonthChangeResult {
+    entries: TimeEntry[];
+    /** Changes that no longer fit the file's current content */
+    conflicts: string[];
+}
+
+/**
+ * Applies entry changes to the entries of a single month file by ID
+ *
+ * Each change must already be split per file: a change whose `before` lives in
+ * this month removes it, a change whose `after` lives here adds or replaces it.
+ * Every `before` is compared with what the file holds now, so edits made
+ * elsewhere since the entry was loaded are reported instead of overwritten.
+ */
+export class MonthChanges {
+    /**
+     * Apply changes to a list of entries
+     * @param checkOverlaps - Also report entries that now overlap something added elsewhere
+     */
+    static apply(entries: TimeEntry[], changes: EntryChange[], checkOverlaps: boolean = false): MonthChangeResult {
+        let result = [...entries];
+        const conflicts: string[] = [];
+        const changedIds = new Set<string>();
+
+        for (const change of changes) {
+            if (change.before) {
+                const { before } = change;
+                const current = result.find(e => e.id === before.id);
+                if (!current) {
+                    conflicts.push(`${this.describe(before)} was deleted`);
+                } else if (!this.isSameContent(current, before)) {
+                    conflicts.push(`${this.describe(before)} was edited`);
+                }
+                result = result.filter(e => e.id !== before.id);
+                changedIds.add(before.id);
+            }
+
+            if (change.after) {
+                const { after } = change;
+                if (!changedIds.has(after.id) && result.some(e => e.id === after.id)) {
+                    conflicts.push(`${this.describe(after)} already exists`);
+                }
+                result = [...result.filter(e => e.id !== after.id), after];
+                changedIds.add(after.id);
+            }
+        }
+
+        if (checkOverlaps) {
+            for (const change of changes) {
+                const { after } = change;
+                if (!after) continue;
+                const other = result.find(e =>
+                    !changedIds.has(e.id) &&
+                    after.startDateTime < e.endDateTime &&
+                    after.endDateTime > e.startDateTime
+                );
+                if (other) {
+                    conflicts.push(`${this.describe(after)} now overlaps ${this.describe(other)}`);
+                }
+            }
+        }
+
+        return { entries: result, conflicts };
+    }
+
+    /**
+     * Whether two versions of an entry hold the same stored data
+     */
+    static isSameContent(a: TimeEntry, b: TimeEntry): boolean {
+        return this.signature(a) === this.signature(b);
+    }
+
+    /**
+     * Everything that is written to the file for an entry
+     */
+    private static signature(entry: TimeEntry): string {
+        const extra = Object.entries(entry.extraFields ?? {}).sort(([x], [y]) => x.localeCompare(y));
+        return JSON.stringify([
+            entry.startDateTime.getTime(),
+            entry.endDateTime.getTime(),
+            entry.description,
+            entry.client,
+            entry.project || '',
+            entry.activity || '',
+            TableParser.formatTags(entry.tags),
+            TableParser.formatBillable(entry.billable),
+            entry.linkedNote || '',
+            entry.timeZone || '',
+            extra,
+        ]);
+    }
+
+    /**
+     * Short label for an entry in conflict messages
+     */
+    private static describe(entry: TimeEntry): string {
+        const when = TableParser.formatDateTime(entry.startDateTime);
+        return entry.description ? `"${entry.description}" (${when})` : `entry at ${when}`;
+    }
+}
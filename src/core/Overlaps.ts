@@ -0,0 +1,143 @@
+import type { EntryChange, TimeEntry } from '../types';
+import { TableParser } from './TableParser';
+import { Logger } from '../utils/Logger';
+
+/**
+ * Anything with a time span (entries, or entries still being edited)
+ */
+export type TimeSpan = Pick<TimeEntry, 'startDateTime' | 'endDateTime'> & { id?: string };
+
+/**
+ * Entries a time span runs into, by how it overlaps them
+ * - startOverlap: First entry where the span's START falls inside
+ * - endOverlap: First entry where the span's END falls inside
+ * - encompassedEntry: First entry the span fully encompasses
+ */
+export interface OverlapMatches<T extends TimeSpan = TimeEntry> {
+    startOverlap: T | null;
+    endOverlap: T | null;
+    encompassedEntry: T | null;
+}
+
+/**
+ * Overlap rules shared by the entry form, saves and bulk edits
+ *
+ * Spans are half-open: an entry ending at 10:00 and one starting at 10:00
+ * touch but don't overlap.
+ */
+export class Overlaps {
+    /**
+     * Classify how a span overlaps a list of entries
+     * @param excludeId - ID of the entry being edited, so it isn't matched against itself
+     */
+    static classify<T extends TimeSpan>(start: Date, end: Date, entries: T[], excludeId?: string): OverlapMatches<T> {
+        let startOverlap: T | null = null;
+        let endOverlap: T | null = null;
+        let encompassedEntry: T | null = null;
+
+        for (const entry of entries) {
+            if (excludeId !== undefined && entry.id === excludeId) continue;
+
+            const label = `${TableParser.formatTime(entry.startDateTime)} - ${TableParser.formatTime(entry.endDateTime)}`;
+
+            // Check for any overlap first
+            const overlaps = start < entry.endDateTime && end > entry.startDateTime;
+            if (!overlaps) {
+                Logger.log('  vs', label, ': no overlap');
+                continue;
+            }
+
+            // Classify the overlap type
+            const startInside = start >= entry.startDateTime && start < entry.endDateTime;
+            const endInside = end > entry.startDateTime && end <= entry.endDateTime;
+
+            Logger.log('  vs', label, ':',
+                startInside ? 'START_INSIDE' : '',
+                endInside ? 'END_INSIDE' : '',
+                (!startInside && !endInside) ? 'ENCOMPASSED' : '');
+
+            if (startInside && !startOverlap) {
+                startOverlap = entry;
+            }
+            if (endInside && !endOverlap) {
+                endOverlap = entry;
+            }
+            if (!startInside && !endInside && !encompassedEntry) {
+                encompassedEntry = entry;
+            }
+        }
+
+        return { startOverlap, endOverlap, encompassedEntry };
+    }
+
+    /**
+     * First pair of overlapping entries in a list, or null if none overlap
+     */
+    static findFirst<T extends TimeSpan>(entries: T[]): [T, T] | null {
+        const sorted = [...entries].sort((a, b) => a.startDateTime.getTime() - b.startDateTime.getTime());
+
+        // Sorted by start, so each entry only needs checking against the one reaching furthest before it
+        let furthest: T | null = null;
+        for (const entry of sorted) {
+            if (furthest && entry.startDateTime < furthest.endDateTime) {
+                return [furthest, entry];
+            }
+            if (!furthest || entry.endDateTime > furthest.endDateTime) furthest = entry;
+        }
+        return null;
+    }
+
+    /**
+     * Throw if any two entries in a list overlap
+     */
+    static assertNone(entries: TimeSpan[]): void {
+        const pair = Overlaps.findFirst(entries);
+        if (pair) {
+            throw new Error(`Entries would overlap (${Overlaps.describe(pair[0])} and ${Overlaps.describe(pair[1])})`);
+        }
+    }
+
+    /**
+     * Throw if entries would overlap once a set of changes is applied
+     *
+     * Only entries the changes add or move are checked, so overlaps already in
+     * the files don't block unrelated edits (fixing them is the integrity check's job).
+     * @param loadDateRange - Stored entries overlapping a range
+     */
+    static async assertNoneAfter(
+        changes: EntryChange[],
+        loadDateRange: (start: Date, end: Date) => Promise<TimeEntry[]>
+    ): Promise<void> {
+        const changed = changes.map(c => c.after).filter((e): e is TimeEntry => !!e);
+        const moved = changes
+            .filter(({ before, after }) => after && (!before
+                || before.startDateTime.getTime() !== after.startDateTime.getTime()
+                || before.endDateTime.getTime() !== after.endDateTime.getTime()))
+            .map(c => c.after)
+            .filter((e): e is TimeEntry => !!e);
+        if (moved.length === 0) return;
+
+        const start = new Date(Math.min(...moved.map(e => e.startDateTime.getTime())));
+        const end = new Date(Math.max(...moved.map(e => e.endDateTime.getTime())));
+        const touched = new Set(changes.map(c => (c.before ?? c.after).id));
+        const others = [
+            ...(await loadDateRange(start, end)).filter(e => !touched.has(e.id)),
+            ...changed,
+        ];
+        for (const entry of moved) {
+            const hit = others.find(other => other !== entry
+                && entry.startDateTime < other.endDateTime && entry.endDateTime > other.startDateTime);
+            if (hit) {
+                const [first, second] = hit.startDateTime <= entry.startDateTime ? [hit, entry] : [entry, hit];
+                throw new Error(`Entries would overlap (${Overlaps.describe(first)} and ${Overlaps.describe(second)})`);
+            }
+        }
+    }
+
+    /**
+     * Human readable span, e.g. "2025-01-10 09:00 - 2025-01-10 10:00"
+     */
+    static describe(span: TimeSpan): string {
+        return `${TableParser.formatDateTime(span.startDateTime)} - ${TableParser.formatDateTime(span.endDateTime)}`;
+    }
+}
@@ -0,0 +1,207 @@
+import type { EntryChange, TimeEntry, PartitionStrategy } from '../types';
+import { TableParser } from './TableParser';
+import { TimeZones } from '../utils/TimeZones';
+
+/** Display names for the settings dropdown */
+export const PARTITION_STRATEGY_NAMES: Record<PartitionStrategy, string> = {
+    'monthly': 'One file per month',
+    'weekly': 'One file per ISO week',
+    'yearly': 'One file per year',
+    'client-monthly': 'One folder per client, one file per month',
+};
+
+/**
+ * Maps entries and date ranges to partition keys, and keys to file paths
+ *
+ * A key is the file path relative to the time tracking folder without ".md"
+ * (e.g. "2025-01", "2025-W03", "2025", "acme/2025-01"), so every key maps to
+ * exactly one file and back.
+ */
+export class Partitioning {
+    readonly strategy: PartitionStrategy;
+    /** Folder names of the clients whose subfolders hold data files (client-monthly); null accepts any */
+    private clientFolders: Set<string> | null;
+
+    /**
+     * @param clients - Configured client IDs; with files split per client, other
+     * subfolders of the time tracking folder (notes, invoices) are not data
+     */
+    constructor(strategy: PartitionStrategy, clients?: string[]) {
+        this.strategy = strategy;
+        this.clientFolders = clients ? new Set(clients.map(c => Partitioning.toFolderName(c))) : null;
+    }
+
+    /**
+     * Key of the file an entry is stored in (decided by its start, in the entry's own
+     * time zone, so every device files it in the same place)
+     */
+    keyForEntry(entry: Pick<TimeEntry, 'startDateTime' | 'client' | 'timeZone'>): string {
+        const wall = TimeZones.toWallClock(entry.startDateTime, entry.timeZone);
+        const period = this.periodOf(new Date(wall.year, wall.month - 1, wall.day));
+        if (this.strategy === 'client-monthly') {
+            return `${Partitioning.toFolderName(entry.client)}/${period}`;
+        }
+        return period;
+    }
+
+    /**
+     * Key of the file an entry is written to
+     * Throws if the entry's client has no folder that is read back (client-monthly, see the constructor).
+     */
+    keyForWrite(entry: Pick<TimeEntry, 'startDateTime' | 'client' | 'timeZone'>): string {
+        const key = this.keyForEntry(entry);
+        if (this.clientFolders && this.strategy === 'client-monthly' && !this.clientFolders.has(Partitioning.toFolderName(entry.client))) {
+            throw new Error(`Client "${entry.client}" is not configured - add it before saving its entries`);
+        }
+        return key;
+    }
+
+    /**
+     * Split each change into its part for each data file
+     * A change that moves an entry to another file becomes a removal from the old
+     * file and an addition to the new one. Throws if an entry can't be written (see keyForWrite).
+     */
+    splitChanges(changes: EntryChange[]): Map<string, EntryChange[]> {
+        const files = new Map<string, EntryChange[]>();
+        const addToFile = (key: string, change: EntryChange) => {
+            if (!files.has(key)) files.set(key, []);
+            files.get(key).push(change);
+        };
+        for (const change of changes) {
+            const beforeKey = change.before && this.keyForEntry(change.before);
+            const afterKey = change.after && this.keyForWrite(change.after);
+            if (beforeKey && beforeKey === afterKey) {
+                addToFile(beforeKey, change);
+            } else {
+                if (change.before) addToFile(beforeKey, { before: change.before });
+                if (change.after) addToFile(afterKey, { after: change.after });
+            }
+        }
+        return files;
+    }
+
+    /**
+     * Keys of every file that can hold entries starting between start and end
+     * @param clients - Client folder names to include (client-monthly only)
+     * @param includePrevious - Also include the period before start, for entries that run into the range
+     */
+    keysForRange(start: Date, end: Date, clients: string[] = [], includePrevious: boolean = false): string[] {
+        const periods = this.periodsInRange(start, end);
+        if (includePrevious) {
+            const previous = this.periodOf(this.previousPeriodDate(start));
+            if (!periods.includes(previous)) periods.unshift(previous);
+        }
+
+        if (this.strategy !== 'client-monthly') {
+            return periods;
+        }
+        const folders = [...new Set(clients.map(c => Partitioning.toFolderName(c)))];
+        return folders.flatMap(folder => periods.map(period => `${folder}/${period}`));
+    }
+
+    /**
+     * Vault path of the file for a key
+     */
+    filePath(folder: string, key: string): string {
+        return `${folder}/${key}.md`;
+    }
+
+    /**
+     * Key for a vault path, or null if the path isn't a data file for this strategy
+     */
+    keyFromPath(folder: string, path: string): string | null {
+        const prefix = `${folder}/`;
+        if (!path.startsWith(prefix) || !path.endsWith('.md')) return null;
+        const key = path.slice(prefix.length, -'.md'.length);
+        if (!this.keyPattern().test(key)) return null;
+        if (this.strategy === 'client-monthly' && this.clientFolders && !this.clientFolders.has(key.slice(0, key.indexOf('/')))) {
+            return null;
+        }
+        return key;
+    }
+
+    /**
+     * Period label for a date: YYYY-MM, YYYY-Www or YYYY
+     */
+    periodOf(date: Date): string {
+        switch (this.strategy) {
+            case 'weekly':
+                return Partitioning.isoWeek(date);
+            case 'yearly':
+                return String(date.getFullYear());
+            default:
+                return TableParser.getMonthString(date);
+        }
+    }
+
+    /**
+     * Period labels from start through end, in order
+     */
+    private periodsInRange(start: Date, end: Date): string[] {
+        const periods: string[] = [];
+        const current = new Date(start.getFullYear(), start.getMonth(), start.getDate());
+        const last = this.periodOf(end);
+
+        // Step by a week (the shortest period); consecutive duplicates are skipped
+        for (;;) {
+            const period = this.periodOf(current);
+            if (periods[periods.length - 1] !== period) periods.push(period);
+            if (period === last || current > end) break;
+            current.setDate(current.getDate() + 7);
+            if (current > end) current.setTime(end.getTime());
+        }
+
+        return periods;
+    }
+
+    /**
+     * A date inside the period before the one containing date
+     */
+    private previousPeriodDate(date: Date): Date {
+        switch (this.strategy) {
+            case 'weekly':
+                return new Date(date.getFullYear(), date.getMonth(), date.getDate() - 7);
+            case 'yearly':
+                return new Date(date.getFullYear() - 1, 0, 1);
+            default:
+                return new Date(date.getFullYear(), date.getMonth() - 1, 1);
+        }
+    }
+
+    /**
+     * Pattern a key must match for this strategy
+     */
+    private keyPattern(): RegExp {
+        switch (this.strategy) {
+            case 'weekly':
+                return /^\d{4}-W\d{2}$/;
+            case 'yearly':
+                return /^\d{4}$/;
+            case 'client-monthly':
+                return /^[^/]+\/\d{4}-\d{2}$/;
+            default:
+                return /^\d{4}-\d{2}$/;
+        }
+    }
+
+    /**
+     * ISO 8601 week label (YYYY-Www) - the year is the week's year, which can
+     * differ from the calendar year around New Year
+     */
+    static isoWeek(date: Date): string {
+        const d = new Date(Date.UTC(date.getFullYear(), date.getMonth(), date.getDate()));
+        const day = d.getUTCDay() || 7;
+        // Thursday of this week decides the year
+        d.setUTCDate(d.getUTCDate() + 4 - day);
+        const yearStart = Date.UTC(d.getUTCFullYear(), 0, 1);
+        const week = Math.ceil(((d.getTime() - yearStart) / 86400000 + 1) / 7);
+        return `${d.getUTCFullYear()}-W${week.toString().padStart(2, '0')}`;
+    }
+
+    /**
+     * Make a client value safe to use as a folder name
+     */
+    static toFolderName(client: string): string {
+        return client.trim().replace(/[\\/:*?"<>|#^[\]]/g, '-') || 'no-client';
+    }
+}
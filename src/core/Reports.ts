@@ -0,0 +1,149 @@
+import type { ClientReport, ProjectActivityBreakdown, ProjectReport, TimeEntry, TimeTrackerSettings } from '../types';
+import { Billing } from './Billing';
+
+/**
+ * Aggregates entries into report totals
+ *
+ * Only the time inside the report range counts, so entries running past
+ * midnight or across the range edges are split correctly.
+ */
+export class Reports {
+    /**
+     * Minutes of an entry that fall within a range
+     */
+    static effectiveMinutes(entry: Pick<TimeEntry, 'startDateTime' | 'endDateTime'>, rangeStart: Date, rangeEnd: Date): number {
+        // Clamp entry times to the range
+        const effectiveStart = entry.startDateTime < rangeStart ? rangeStart : entry.startDateTime;
+        const effectiveEnd = entry.endDateTime > rangeEnd ? rangeEnd : entry.endDateTime;
+
+        // Calculate duration in minutes
+        const durationMs = effectiveEnd.getTime() - effectiveStart.getTime();
+        return Math.max(0, Math.round(durationMs / 60000));
+    }
+
+    /**
+     * Time per client, broken down by project and activity, largest first
+     * Entries for clients that aren't configured are left out.
+     */
+    static byClient(entries: TimeEntry[], settings: TimeTrackerSettings, rangeStart: Date, rangeEnd: Date): ClientReport[] {
+        // Only calculate if there are clients defined
+        if (settings.clients.length === 0) return [];
+
+        // Map: clientId -> { minutes, projects: Map<projectName, { minutes, activities: Map<activityName, minutes> }> }
+        type ProjectData = { minutes: number; billableMinutes: number; activities: Map<string, number> };
+        type ClientData = { minutes: number; billableMinutes: number; projects: Map<string, ProjectData> };
+        const clientMap = new Map<string, ClientData>();
+
+        for (const entry of entries) {
+            const effectiveMinutes = Reports.effectiveMinutes(entry, rangeStart, rangeEnd);
+            if (effectiveMinutes <= 0) continue;
+
+            const projectName = entry.project || '(No Project)';
+            const activityName = entry.activity || '(No Activity)';
+            const clientId = entry.client;
+            const billableMinutes = Billing.isBillable(entry, settings) ? effectiveMinutes : 0;
+
+            if (!clientMap.has(clientId)) {
+                clientMap.set(clientId, { minutes: 0, billableMinutes: 0, projects: new Map() });
+            }
+
+            const clientData = clientMap.get(clientId);
+            clientData.minutes += effectiveMinutes;
+            clientData.billableMinutes += billableMinutes;
+
+            if (!clientData.projects.has(projectName)) {
+                clientData.projects.set(projectName, { minutes: 0, billableMinutes: 0, activities: new Map() });
+            }
+
+            const projectData = clientData.projects.get(projectName);
+            projectData.minutes += effectiveMinutes;
+            projectData.billableMinutes += billableMinutes;
+
+            const currentActivityMinutes = projectData.activities.get(activityName) || 0;
+            projectData.activities.set(activityName, currentActivityMinutes + effectiveMinutes);
+        }
+
+        // Convert to ClientReport array
+        const clientReports: ClientReport[] = [];
+
+        let totalClientMinutes = 0;
+        for (const [, data] of clientMap) {
+            totalClientMinutes += data.minutes;
+        }
+
+        for (const [clientId, data] of clientMap) {
+            const client = settings.clients.find(c => c.id === clientId);
+            if (!client) continue;
+
+            const percentage = totalClientMinutes > 0
+                ? (data.minutes / totalClientMinutes) * 100
+                : 0;
+
+            // Calculate billable amount (hourly rate * billable hours)
+            const billableAmount = client.rate * (data.billableMinutes / 60);
+
+            // Build project breakdown with activity breakdown
+            const projectBreakdown: ProjectReport[] = [];
+            for (const [projectName, projectData] of data.projects) {
+                // Build activity breakdown for this project
+                const activityBreakdown: ProjectActivityBreakdown[] = [];
+                for (const [activityName, activityMinutes] of projectData.activities) {
+                    activityBreakdown.push({
+                        activity: activityName,
+                        color: Reports.activityColor(settings, activityName),
+                        totalMinutes: activityMinutes,
+                        percentageOfProject: projectData.minutes > 0
+                            ? (activityMinutes / projectData.minutes) * 100
+                            : 0,
+                    });
+                }
+                activityBreakdown.sort((a, b) => b.totalMinutes - a.totalMinutes);
+
+                projectBreakdown.push({
+                    project: projectName,
+                    color: Reports.projectColor(settings, projectName),
+                    totalMinutes: projectData.minutes,
+                    billableMinutes: projectData.billableMinutes,
+                    percentage: data.minutes > 0 ? (projectData.minutes / data.minutes) * 100 : 0,
+                    activityBreakdown,
+                });
+            }
+            projectBreakdown.sort((a, b) => b.totalMinutes - a.totalMinutes);
+
+            clientReports.push({
+                clientId,
+                name: client.name,
+                color: client.color,
+                rate: client.rate,
+                currency: client.currency,
+                totalMinutes: data.minutes,
+                billableMinutes: data.billableMinutes,
+                nonBillableMinutes: data.minutes - data.billableMinutes,
+                billableAmount,
+                percentage,
+                projectBreakdown,
+            });
+        }
+
+        // Sort clients by time descending
+        return clientReports.sort((a, b) => b.totalMinutes - a.totalMinutes);
+    }
+
+    /**
+     * Chart color of a project (by name or ID as stored on entries)
+     */
+    static projectColor(settings: Pick<TimeTrackerSettings, 'projects'>, projectName: string): string {
+        if (projectName === '(No Project)') return '#666';
+        const project = settings.projects.find(p => p.name === projectName || p.id === projectName);
+        return project?.color || '#4f46e5';
+    }
+
+    /**
+     * Chart color of an activity (by name or ID as stored on entries)
+     */
+    static activityColor(settings: Pick<TimeTrackerSettings, 'activities'>, activityName: string): string {
+        if (activityName === '(No Activity)') return '#666';
+        const activity = settings.activities.find(a => a.name === activityName || a.id === activityName);
+        return activity?.color || '#f59e0b';
+    }
+}
@@ -0,0 +1,758 @@
+import { unified } from 'unified';
+import remarkParse from 'remark-parse';
+import remarkGfm from 'remark-gfm';
+import remarkStringify from 'remark-stringify';
+import type { Root, Table, TableRow, TableCell } from 'mdast';
+import type { TimeEntry, ParsedMonth, ParseWarning } from '../types';
+import { Logger } from '../utils/Logger';
+import { Hash } from '../utils/Hash';
+import { TimeZones } from '../utils/TimeZones';
+
+/**
+ * Parses and serializes time entries using markdown tables via mdast/remark
+ *
+ * Format (one table per month file):
+ * | Start | End | Description | Client | Project | Activity | Tags | Billable | Notes | ID |
+ * |-------|-----|-------------|--------|---------|----------|------|----------|-------|----|
+ * | 2024-01-15 09:15 | 2024-01-15 10:40 | Work on feature | acme | proj1 | dev | #oncall | yes | [[note]] | lx3k9a2f |
+ *
+ * Times may end in a time zone ("2024-01-15 09:15 Europe/Berlin" or "+01:00");
+ * a "timezone" frontmatter key sets one for rows without. Times without a
+ * zone are read in this device's zone.
+ *
+ * Uses unified/remark for robust parsing that handles edge cases:
+ * - Escaped pipes \|
+ * - Pipes inside code spans
+ * - Alignment markers
+ * - Empty cells
+ */
+export class TableParser {
+    /** Expected column headers (case-insensitive matching) */
+    static readonly HEADERS = ['Start', 'End', 'Description', 'Client', 'Project', 'Activity', 'Tags', 'Billable', 'Notes', 'ID'];
+
+    /** "YYYY-MM-DD HH:mm" with an optional zone name or offset after it */
+    private static readonly DATE_TIME_PATTERN = /^(\d{4})-(\d{2})-(\d{2})\s+(\d{2}):(\d{2})(?:\s+([A-Za-z_]+(?:\/[A-Za-z0-9_+-]+)*|[+-]\d{2}:\d{2}))?$/;
+
+    /** Create the unified processor for parsing */
+    private static createParser() {
+        return unified()
+            .use(remarkParse)
+            .use(remarkGfm);
+    }
+
+    /** Create the unified processor for serializing */
+    private static createSerializer() {
+        return unified()
+            .use(remarkParse)
+            .use(remarkGfm)
+            .use(remarkStringify, {
+                bullet: '-',
+                fence: '`',
+                fences: true,
+                incrementListMarker: false,
+            });
+    }
+
+    /**
+     * Parse a monthly file content into entries
+     * @param filePath - Vault path used to label parse warnings
+     */
+    static parseMonthFile(content: string, monthStr: string, filePath: string = ''): ParsedMonth {
+        const entries: TimeEntry[] = [];
+        const entriesByDate = new Map<string, TimeEntry[]>();
+        const warnings: ParseWarning[] = [];
+        const fileZone = this.getFileTimeZone(content);
+
+        // Parse markdown to AST
+        const processor = this.createParser();
+        const tree = processor.parse(content);
+
+        // Find entry tables (other tables are foreign content and ignored)
+        for (const node of tree.children) {
+            if (node.type === 'table' && this.isEntryTable(node)) {
+                const tableEntries = this.parseTable(node, content, filePath, warnings, fileZone);
+                for (const entry of tableEntries) {
+                    entries.push(entry);
+
+                    // Group by date
+                    if (!entriesByDate.has(entry.date)) {
+                        entriesByDate.set(entry.date, []);
+                    }
+                    entriesByDate.get(entry.date).push(entry);
+                }
+            }
+        }
+
+        return {
+            month: monthStr,
+            entries,
+            entriesByDate,
+            warnings,
+            contentHash: Hash.fnv1a(content),
+        };
+    }
+
+    /**
+     * Time zone set for the whole file in its frontmatter ("timezone: Europe/Berlin")
+     */
+    private static getFileTimeZone(content: string): string | undefined {
+        const frontmatter = content.match(/^---\r?\n([\s\S]*?)\r?\n---(?:\r?\n|$)/);
+        const zone = frontmatter?.[1].match(/^timezone:[ \t]*["']?([^"'\r\n]+?)["']?[ \t]*$/m)?.[1];
+        if (zone && !TimeZones.isValid(zone)) {
+            Logger.warn('TableParser: Ignoring unknown time zone in frontmatter:', zone);
+            return undefined;
+        }
+        return zone;
+    }
+
+    /**
+     * Check whether a table holds time entries (has Start and End columns)
+     */
+    private static isEntryTable(table: Table): boolean {
+        if (table.children.length === 0) return false;
+        const headerMap = this.getHeaderMap(table.children[0]);
+        return headerMap.has('start') && headerMap.has('end');
+    }
+
+    /**
+     * Parse a table node into TimeEntry array
+     */
+    private static parseTable(
+        table: Table,
+        content: string,
+        filePath: string,
+        warnings: ParseWarning[],
+        fileZone?: string
+    ): TimeEntry[] {
+        const entries: TimeEntry[] = [];
+        const rows = table.children;
+
+        if (rows.length < 2) {
+            return entries; // Need at least header + one data row
+        }
+
+        // Get header indices
+        const headerRow = rows[0];
+        const headerMap = this.getHeaderMap(headerRow);
+        const extraColumns = this.getExtraColumns(headerRow);
+
+        // Parse data rows (skip header)
+        const derivedIds = new Map<string, number>();
+        for (let i = 1; i < rows.length; i++) {
+            const row = rows[i];
+            if (this.isCommentMarkerRow(row) || this.isEmptyRow(row)) continue;
+            const entry = this.parseRow(row, headerMap, i, fileZone, (reason, column) => {
+                warnings.push({
+                    file: filePath,
+                    row: i,
+                    column,
+                    reason,
+                    line: row.position?.start.line ?? 0,
+                });
+            }, derivedIds);
+            if (entry) {
+                if (extraColumns.length > 0) {
+                    entry.extraFields = this.getExtraFields(row, extraColumns, content);
+                }
+                entries.push(entry);
+            }
+        }
+
+        return entries;
+    }
+
+    /**
+     * Build a map of header name -> column index
+     */
+    private static getHeaderMap(headerRow: TableRow): Map<string, number> {
+        const map = new Map<string, number>();
+        const cells = headerRow.children;
+
+        for (let i = 0; i < cells.length; i++) {
+            const text = this.getCellText(cells[i]).toLowerCase();
+            map.set(text, i);
+        }
+
+        return map;
+    }
+
+    /**
+     * Get columns the plugin doesn't know about, keeping the header text as written
+     */
+    private static getExtraColumns(headerRow: TableRow): { name: string; index: number }[] {
+        const known = new Set(this.HEADERS.map(h => h.toLowerCase()));
+        const columns: { name: string; index: number }[] = [];
+
+        headerRow.children.forEach((cell, index) => {
+            const name = this.getCellText(cell);
+            if (name && !known.has(name.toLowerCase())) {
+                columns.push({ name, index });
+            }
+        });
+
+        return columns;
+    }
+
+    /**
+     * Read unknown column values as raw markdown so they round-trip unchanged
+     */
+    private static getExtraFields(
+        row: TableRow,
+        extraColumns: { name: string; index: number }[],
+        content: string
+    ): Record<string, string> {
+        const fields: Record<string, string> = {};
+        for (const column of extraColumns) {
+            const cell = row.children[column.index];
+            fields[column.name] = cell ? this.getCellSource(cell, content) : '';
+        }
+        return fields;
+    }
+
+    /**
+     * Get the raw markdown source of a cell's content (without pipes and padding)
+     */
+    private static getCellSource(cell: TableCell, content: string): string {
+        const children = cell.children;
+        if (children.length === 0) return '';
+
+        const start = children[0].position?.start.offset;
+        const end = children[children.length - 1].position?.end.offset;
+        if (start === undefined || end === undefined) {
+            return this.getCellText(cell);
+        }
+        return content.slice(start, end).trim();
+    }
+
+    /**
+     * Check for the closing %% line, which GFM reads as a one-cell table row
+     * when the table is wrapped in a comment to hide it in reading view
+     */
+    private static isCommentMarkerRow(row: TableRow): boolean {
+        const texts = row.children.map(cell => this.getCellText(cell)).filter(t => t !== '');
+        return texts.length === 1 && texts[0] === '%%';
+    }
+
+    /**
+     * Check for a row with no content at all
+     */
+    private static isEmptyRow(row: TableRow): boolean {
+        return row.children.every(cell => !this.getCellText(cell));
+    }
+
+    /**
+     * Parse a table row into a TimeEntry
+     * @param fileZone - Time zone for times written without one
+     * @param onWarning - Called with the reason (and column) when the row is skipped
+     * @param derivedIds - How often each legacy row key was seen so far in the file (see deriveId)
+     */
+    private static parseRow(
+        row: TableRow,
+        headerMap: Map<string, number>,
+        rowIndex: number,
+        fileZone?: string,
+        onWarning: (reason: string, column?: string) => void = () => {},
+        derivedIds: Map<string, number> = new Map()
+    ): TimeEntry | null {
+        const cells = row.children;
+
+        const getValue = (header: string): string => {
+            const index = headerMap.get(header.toLowerCase());
+            if (index === undefined || index >= cells.length) return '';
+            return this.getCellText(cells[index]);
+        };
+
+        const startStr = getValue('start');
+        const endStr = getValue('end');
+        const client = getValue('client');
+
+        // Must have start, end, and client
+        const missing = [['Start', startStr], ['End', endStr], ['Client', client]].find(([, value]) => !value);
+        if (missing) {
+            Logger.log('TableParser: Missing required fields (start, end, or client)');
+            onWarning(`Missing ${missing[0].toLowerCase()}`, missing[0]);
+            return null;
+        }
+
+        // Parse datetimes (a zone on either cell applies to both unless the other has its own)
+        const timeZone = this.parseTimeZone(startStr) ?? this.parseTimeZone(endStr) ?? fileZone;
+        const startDateTime = this.parseDateTime(startStr, timeZone);
+        const endDateTime = this.parseDateTime(endStr, timeZone);
+
+        if (!startDateTime || !endDateTime) {
+            Logger.log('TableParser: Invalid datetime format');
+            const [column, value] = !startDateTime ? ['Start', startStr] : ['End', endStr];
+            onWarning(`Invalid date/time "${value}" (expected YYYY-MM-DD HH:mm)`, column);
+            return null;
+        }
+
+        // Extract date from start datetime
+        const date = this.getDateString(startDateTime);
+
+        // Calculate duration (from instants, so DST changes and zones are accounted for)
+        const durationMinutes = Math.round((endDateTime.getTime() - startDateTime.getTime()) / 60000);
+
+        // Extract time strings for display
+        const start = this.formatTime(startDateTime);
+        const end = this.formatTime(endDateTime);
+
+        // Parse linked note from notes column (extract [[...]])
+        const notes = getValue('notes');
+        let linkedNote: string | undefined;
+        if (notes) {
+            const wikiMatch = notes.match(/\[\[([^\]]+)\]\]/);
+            if (wikiMatch) {
+                linkedNote = wikiMatch[1];
+            }
+        }
+
+        // Rows written before the ID column existed get an ID derived from their times
+        // and description, so it stays the same when rows around them are added or moved
+        const id = getValue('id') || this.deriveId(`${startStr}|${endStr}|${getValue('description')}`, derivedIds);
+
+        return {
+            id,
+            date,
+            start,
+            end,
+            description: this.parseDescription(getValue('description')),
+            client,
+            project: getValue('project') || undefined,
+            activity: getValue('activity') || undefined,
+            tags: this.parseTags(getValue('tags')),
+            billable: this.parseBillable(getValue('billable')),
+            linkedNote,
+            timeZone,
+            startDateTime,
+            endDateTime,
+            lineNumber: rowIndex, // Row index in table (not file line number)
+            durationMinutes,
+        };
+    }
+
+    /**
+     * Generate a new unique entry ID
+     */
+    static generateId(): string {
+        const time = Date.now().toString(36);
+        const random = Math.random().toString(36).substring(2, 8).padEnd(6, '0');
+        return `${time}${random}`;
+    }
+
+    /**
+     * Derive a deterministic ID for a legacy row that has no ID cell
+     * Identical rows are told apart by how many came before them in the file.
+     */
+    private static deriveId(key: string, seen: Map<string, number>): string {
+        const occurrence = seen.get(key) ?? 0;
+        seen.set(key, occurrence + 1);
+        return `r${Hash.fnv1a(`${occurrence}|${key}`)}`;
+    }
+
+    /**
+     * Get text content from a table cell
+     */
+    private static getCellText(cell: TableCell): string {
+        let text = '';
+        for (const child of cell.children) {
+            if (child.type === 'text') {
+                text += child.value;
+            } else if (child.type === 'inlineCode') {
+                text += child.value;
+            } else if ('children' in child) {
+                // Recursively get text from nested nodes
+                text += this.getNodeText(child);
+            }
+        }
+        return text.trim();
+    }
+
+    /**
+     * Recursively get text from any node
+     */
+    private static getNodeText(node: unknown): string {
+        if (!node || typeof node !== 'object') return '';
+
+        const n = node as { type?: string; value?: string; children?: unknown[] };
+
+        if (n.type === 'text' && typeof n.value === 'string') {
+            return n.value;
+        }
+
+        if (Array.isArray(n.children)) {
+            return n.children.map(child => this.getNodeText(child)).join('');
+        }
+
+        return '';
+    }
+
+    /**
+     * Parse datetime string "YYYY-MM-DD HH:mm" (optionally followed by a time zone) into Date
+     * @param zone - Zone to read the time in when the string has none (default: this device's)
+     */
+    static parseDateTime(str: string, zone?: string): Date | null {
+        const match = str.match(this.DATE_TIME_PATTERN);
+        if (!match) {
+            return null;
+        }
+
+        const [year, month, day, hours, minutes] = match.slice(1, 6).map(Number);
+        const timeZone = match[6] ?? zone;
+        if (!timeZone) {
+            return new Date(year, month - 1, day, hours, minutes);
+        }
+        if (!TimeZones.isValid(timeZone)) {
+            return null;
+        }
+        return TimeZones.toInstant({ year, month, day, hours, minutes }, timeZone);
+    }
+
+    /**
+     * Time zone written after a datetime string, if any
+     */
+    static parseTimeZone(str: string): string | undefined {
+        return str.match(this.DATE_TIME_PATTERN)?.[6];
+    }
+
+    /**
+     * Format a Date to HH:mm string
+     */
+    static formatTime(date: Date): string {
+        return `${date.getHours().toString().padStart(2, '0')}:${date.getMinutes().toString().padStart(2, '0')}`;
+    }
+
+    /**
+     * Get the date string (YYYY-MM-DD) for a given date
+     */
+    static getDateString(date: Date): string {
+        const year = date.getFullYear();
+        const month = (date.getMonth() + 1).toString().padStart(2, '0');
+        const day = date.getDate().toString().padStart(2, '0');
+        return `${year}-${month}-${day}`;
+    }
+
+    /**
+     * Get the month string (YYYY-MM) for a given date
+     */
+    static getMonthString(date: Date): string {
+        const year = date.getFullYear();
+        const month = (date.getMonth() + 1).toString().padStart(2, '0');
+        return `${year}-${month}`;
+    }
+
+    /**
+     * Format a Date to "YYYY-MM-DD HH:mm" string for table cells
+     * @param zone - Write the time in this zone, followed by the zone (default: this device's, without a zone)
+     */
+    static formatDateTime(date: Date, zone?: string): string {
+        if (!zone) {
+            return `${this.getDateString(date)} ${this.formatTime(date)}`;
+        }
+        const wall = TimeZones.toWallClock(date, zone);
+        const pad = (n: number) => n.toString().padStart(2, '0');
+        return `${wall.year}-${pad(wall.month)}-${pad(wall.day)} ${pad(wall.hours)}:${pad(wall.minutes)} ${zone}`;
+    }
+
+    /**
+     * Generate markdown table content from entries
+     * @param entries - Time entries to write
+     * @param extraColumns - Unmanaged columns to append after the managed ones
+     * @param extraRows - Raw rows to keep verbatim at the end of the table
+     */
+    static generateTable(entries: TimeEntry[], extraColumns: string[] = [], extraRows: string[] = []): string {
+        // Sort entries by start time
+        const sorted = [...entries].sort((a, b) =>
+            a.startDateTime.getTime() - b.startDateTime.getTime()
+        );
+
+        // Build table AST
+        const tableRows: TableRow[] = [];
+
+        // Header row
+        tableRows.push({
+            type: 'tableRow',
+            children: [...this.HEADERS, ...extraColumns].map(h => ({
+                type: 'tableCell',
+                children: [{ type: 'text', value: h }],
+            })) as TableCell[],
+        });
+
+        // Data rows
+        for (const entry of sorted) {
+            tableRows.push({
+                type: 'tableRow',
+                children: [
+                    this.createCell(this.formatDateTime(entry.startDateTime, entry.timeZone)),
+                    this.createCell(this.formatDateTime(entry.endDateTime, entry.timeZone)),
+                    this.createCell(this.serializeDescription(entry.description)),
+                    this.createCell(entry.client),
+                    this.createCell(entry.project || ''),
+                    this.createCell(entry.activity || ''),
+                    this.createCell(this.formatTags(entry.tags)),
+                    this.createCell(this.formatBillable(entry.billable)),
+                    this.createCell(entry.linkedNote ? `[[${entry.linkedNote}]]` : ''),
+                    this.createCell(entry.id),
+                    ...extraColumns.map(column => this.createRawCell(entry.extraFields?.[column] ?? '')),
+                ] as TableCell[],
+            });
+        }
+
+        const table: Table = {
+            type: 'table',
+            align: [...this.HEADERS, ...extraColumns].map(() => 'left' as const),
+            children: tableRows,
+        };
+
+        const root: Root = {
+            type: 'root',
+            children: [table],
+        };
+
+        // Serialize to markdown
+        const processor = this.createSerializer();
+        let result = processor.stringify(root);
+
+        // Unescape wikilinks (remark escapes [[ but Obsidian needs them)
+        result = result.replace(/\\\[\\\[/g, '[[').replace(/\\\]\\\]/g, ']]');
+
+        if (extraRows.length > 0) {
+            result += extraRows.join('\n') + '\n';
+        }
+
+        return result;
+    }
+
+    /**
+     * Create a table cell with text content
+     */
+    private static createCell(text: string): TableCell {
+        return {
+            type: 'tableCell',
+            children: [{ type: 'text', value: text }],
+        };
+    }
+
+    /**
+     * Create a table cell holding raw markdown (written back exactly as read)
+     */
+    private static createRawCell(source: string): TableCell {
+        return {
+            type: 'tableCell',
+            children: source ? [{ type: 'html', value: source }] : [],
+        };
+    }
+
+    /**
+     * Parse a Tags cell ("#oncall #overtime", commas also accepted) into tag names
+     */
+    static parseTags(text: string): string[] | undefined {
+        const tags: string[] = [];
+        for (const part of text.split(/[\s,]+/)) {
+            const tag = this.normalizeTag(part);
+            if (tag && !tags.some(t => t.toLowerCase() === tag.toLowerCase())) {
+                tags.push(tag);
+            }
+        }
+        return tags.length > 0 ? tags : undefined;
+    }
+
+    /**
+     * Format tag names for a Tags cell
+     */
+    static formatTags(tags: string[] | undefined): string {
+        return (tags ?? []).map(tag => `#${tag}`).join(' ');
+    }
+
+    /**
+     * Parse a Billable cell: yes/no (true/false also accepted), empty means the activity default
+     */
+    static parseBillable(text: string): boolean | undefined {
+        const value = text.trim().toLowerCase();
+        if (value === 'yes' || value === 'true') return true;
+        if (value === 'no' || value === 'false') return false;
+        return undefined;
+    }
+
+    /**
+     * Format a billable override for a Billable cell
+     */
+    static formatBillable(billable: boolean | undefined): string {
+        if (billable === undefined) return '';
+        return billable ? 'yes' : 'no';
+    }
+
+    /**
+     * Clean up a tag as typed: drop the leading # and characters Obsidian tags can't contain
+     */
+    static normalizeTag(text: string): string {
+        return text.trim().replace(/^#+/, '').replace(/[^\p{L}\p{N}_/-]/gu, '');
+    }
+
+    /**
+     * Convert newlines to <br> for table storage
+     */
+    private static serializeDescription(description: string): string {
+        return description.replace(/\n/g, '<br>');
+    }
+
+    /**
+     * Convert <br> back to newlines for display
+     */
+    static parseDescription(description: string): string {
+        return description.replace(/<br\s*\/?>/gi, '\n');
+    }
+
+    /**
+     * Generate a complete month file with header and table
+     * @param entries - Time entries for the month
+     * @param monthStr - Month string (YYYY-MM)
+     * @param hideTable - If true, wrap table in %% comments to hide in reading view
+     * @param existingContent - Current file content; everything outside the entry table is kept as-is
+     */
+    static generateMonthFile(
+        entries: TimeEntry[],
+        monthStr: string,
+        hideTable: boolean = true,
+        existingContent: string = ''
+    ): string {
+        if (existingContent.trim()) {
+            return this.mergeIntoContent(entries, existingContent, hideTable);
+        }
+
+        const header = this.getFileHeader();
+        const table = this.generateTable(entries, this.collectExtraColumns(entries, []));
+        if (hideTable) {
+            return `${header}\n# ${monthStr}\n\n%%\n${table}%%\n`;
+        } else {
+            return `${header}\n# ${monthStr}\n\n${table}`;
+        }
+    }
+
+    /**
+     * Replace the entry table inside existing file content, leaving prose,
+     * frontmatter and other tables untouched. Entries from additional entry
+     * tables are merged into the first one.
+     */
+    private static mergeIntoContent(entries: TimeEntry[], content: string, hideTable: boolean): string {
+        const tree = this.createParser().parse(content);
+        const fileZone = this.getFileTimeZone(content);
+        const tables = tree.children.filter(
+            (node): node is Table => node.type === 'table' && this.isEntryTable(node)
+        );
+
+        const existingColumns: string[] = [];
+        const keptRows: string[] = [];
+        const ranges: { start: number; end: number }[] = [];
+
+        for (const table of tables) {
+            const range = this.getTableRange(table, content);
+            if (!range) continue;
+            ranges.push(range);
+
+            const headerRow = table.children[0];
+            const headerMap = this.getHeaderMap(headerRow);
+            for (const column of this.getExtraColumns(headerRow)) {
+                if (!existingColumns.includes(column.name)) existingColumns.push(column.name);
+            }
+
+            // Rows that don't parse as entries are kept verbatim so nothing typed by hand is lost
+            for (let i = 1; i < table.children.length; i++) {
+                const row = table.children[i];
+                if (this.isCommentMarkerRow(row) || this.isEmptyRow(row)) continue;
+                if (this.parseRow(row, headerMap, i, fileZone)) continue;
+                const start = row.position?.start.offset;
+                const end = row.position?.end.offset;
+                if (start !== undefined && end !== undefined) {
+                    keptRows.push(content.slice(start, end));
+                }
+            }
+        }
+
+        const table = this.generateTable(entries, this.collectExtraColumns(entries, existingColumns), keptRows);
+        const block = hideTable ? `%%\n${table}%%` : table.replace(/\n$/, '');
+
+        if (ranges.length === 0) {
+            return `${content.replace(/\s*$/, '')}\n\n${block}\n`;
+        }
+
+        // Splice from the end so earlier offsets stay valid
+        let result = content;
+        for (let i = ranges.length - 1; i >= 0; i--) {
+            const { start, end } = ranges[i];
+            if (i === 0) {
+                result = result.slice(0, start) + block + result.slice(end);
+            } else {
+                result = result.slice(0, start).replace(/\n+$/, '\n') + result.slice(end).replace(/^\n+/, '\n');
+            }
+        }
+        return result;
+    }
+
+    /**
+     * Get the source range of an entry table, including %% lines that wrap it.
+     * The closing %% is read by GFM as a table row, so the range ends at the
+     * last real row instead of the table node's end.
+     */
+    private static getTableRange(table: Table, content: string): { start: number; end: number } | null {
+        const rows = table.children.filter(row => !this.isCommentMarkerRow(row));
+        let start = table.position?.start.offset;
+        let end = rows[rows.length - 1]?.position?.end.offset;
+        if (start === undefined || end === undefined) return null;
+
+        const before = content.slice(0, start);
+        const opening = before.match(/(^|\n)%%[ \t]*\n$/);
+        const after = content.slice(end);
+        const closing = after.match(/^\n%%[ \t]*(?=\n|$)/);
+        if (opening && closing) {
+            start -= opening[0].length - opening[1].length;
+            end += closing[0].length;
+        }
+
+        return { start, end };
+    }
+
+    /**
+     * Unmanaged columns to write: existing order first, then any new ones carried by entries
+     */
+    private static collectExtraColumns(entries: TimeEntry[], existingColumns: string[]): string[] {
+        const columns = [...existingColumns];
+        for (const entry of entries) {
+            for (const name of Object.keys(entry.extraFields ?? {})) {
+                if (!columns.includes(name)) columns.push(name);
+            }
+        }
+        return columns;
+    }
+
+    /**
+     * Warning header added to the top of data files
+     */
+    static getFileHeader(): string {
+        return `%%
+⚠️ WARNING: This file is managed by the "Where Did The Time Go" plugin.
+Do not edit manually - your changes may be overwritten.
+Use the Timeline view to create, edit, or delete entries.
+
+FILE STRUCTURE:
+- One file per period, as set in the plugin's "File layout" setting
+  (e.g. YYYY-MM.md for months, YYYY-Www.md for ISO weeks, YYYY.md for years)
+- Single table containing all entries for the period
+- Entries sorted chronologically by start time
+
+TABLE COLUMNS:
+| Start | End | Description | Client | Project | Activity | Tags | Billable | Notes | ID |
+- Start (required): Start date and time (YYYY-MM-DD HH:mm), optionally followed
+  by the time zone it was recorded in (e.g. Europe/Berlin or +01:00)
+- End (required): End date and time (may be next day for overnight entries)
+- Description: Free text describing the activity
+- Client (required): Client for billing
+- Project (optional): Project name
+- Activity (optional): Work type classification
+- Tags (optional): Space-separated labels, e.g. #oncall #overtime
+- Billable (optional): yes or no; empty uses the activity's default
+- Notes (optional): Obsidian wikilink [[linked note]]
+- ID (managed): Stable identifier for the entry - do not change or reuse
+%%
+`;
+    }
+}
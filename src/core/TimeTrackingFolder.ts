@@ -0,0 +1,174 @@
+import type { EntryChange, ParsedMonth, ParseWarning, PartitionStrategy, TimeEntry } from '../types';
+import type { FileSystemAdapter } from './FileSystemAdapter';
+import { MonthChanges } from './MonthChanges';
+import { Overlaps } from './Overlaps';
+import { Partitioning } from './Partitioning';
+import { TableParser } from './TableParser';
+import { Trash } from './Trash';
+import { WriteConflictError } from './WriteConflictError';
+import { Logger } from '../utils/Logger';
+
+/**
+ * Where the data files are and how they are laid out
+ * (the same values as the plugin's settings)
+ */
+export interface TimeTrackingFolderOptions {
+    /** Folder path relative to the vault root, e.g. "TimeTracking" */
+    folder: string;
+    partitioning: PartitionStrategy;
+    /** Wrap new tables in %% comments, as the plugin does by default */
+    hideTables?: boolean;
+    /**
+     * IDs of the configured clients (client-monthly only): only their subfolders
+     * are read as data, and entries of other clients are refused. Without it every subfolder is.
+     */
+    clients?: string[];
+}
+
+/**
+ * Reads and writes the time tracking data files through a file system adapter
+ *
+ * Parses and writes files exactly like the plugin, so scripts and the plugin
+ * can work on the same vault. Nothing is cached: every call reads the files again.
+ */
+export class TimeTrackingFolder {
+    private fs: FileSystemAdapter;
+    private options: TimeTrackingFolderOptions;
+    private partitioning: Partitioning;
+
+    constructor(fs: FileSystemAdapter, options: TimeTrackingFolderOptions) {
+        this.fs = fs;
+        this.options = options;
+        this.partitioning = new Partitioning(options.partitioning, options.clients);
+    }
+
+    /**
+     * Keys of every data file in the folder, in order
+     */
+    async listKeys(): Promise<string[]> {
+        const keys = (await this.fs.list(this.options.folder))
+            .map(path => this.partitioning.keyFromPath(this.options.folder, path))
+            .filter((key): key is string => key !== null);
+        return keys.sort();
+    }
+
+    /**
+     * Parse a single data file (empty if it doesn't exist)
+     */
+    async loadPartition(key: string): Promise<ParsedMonth> {
+        const path = this.partitioning.filePath(this.options.folder, key);
+        return TableParser.parseMonthFile((await this.fs.read(path)) ?? '', key, path);
+    }
+
+    /**
+     * Entries from every data file, oldest first
+     */
+    async loadAllEntries(): Promise<TimeEntry[]> {
+        const entries: TimeEntry[] = [];
+        for (const key of await this.listKeys()) {
+            entries.push(...(await this.loadPartition(key)).entries);
+        }
+        return TimeTrackingFolder.sortByStart(entries);
+    }
+
+    /**
+     * Entries that overlap a date range, oldest first
+     */
+    async loadDateRange(start: Date, end: Date): Promise<TimeEntry[]> {
+        const entries: TimeEntry[] = [];
+        for (const key of await this.keysForRange(start, end)) {
+            entries.push(...(await this.loadPartition(key)).entries);
+        }
+        return TimeTrackingFolder.sortByStart(entries.filter(e => e.startDateTime < end && e.endDateTime > start));
+    }
+
+    /**
+     * Rows skipped while parsing, across every data file
+     */
+    async loadWarnings(): Promise<ParseWarning[]> {
+        const warnings: ParseWarning[] = [];
+        for (const key of await this.listKeys()) {
+            warnings.push(...(await this.loadPartition(key)).warnings);
+        }
+        return warnings;
+    }
+
+    /**
+     * Apply entry changes with the plugin's checks
+     * Throws without writing anything if entries would overlap or a file no longer
+     * holds an entry as it was loaded. Deleted entries go to the trash, like in the
+     * plugin. If a write fails part way, files already written get their previous
+     * content back (like the plugin's transactions).
+     */
+    async applyChanges(changes: EntryChange[]): Promise<void> {
+        await Overlaps.assertNoneAfter(changes, (start, end) => this.loadDateRange(start, end));
+
+        // Render every file before writing any
+        const writes: { path: string; before: string | null; after: string }[] = [];
+        for (const [key, fileChanges] of this.partitioning.splitChanges(changes)) {
+            const path = this.partitioning.filePath(this.options.folder, key);
+            const before = await this.fs.read(path);
+            const result = MonthChanges.apply(TableParser.parseMonthFile(before ?? '', key, path).entries, fileChanges);
+            if (result.conflicts.length > 0) {
+                throw new WriteConflictError(path, result.conflicts);
+            }
+            writes.push({ path, before, after: TableParser.generateMonthFile(result.entries, key, this.options.hideTables ?? true, before ?? '') });
+        }
+
+        const { deleted, present } = Trash.deletions(changes);
+        const trashPath = Trash.filePath(this.options.folder);
+        const trashBefore = await this.fs.read(trashPath);
+        if (trashBefore !== null || deleted.length > 0) {
+            const after = Trash.render(trashBefore ?? '', trashPath, deleted, present, new Date(), this.options.hideTables ?? true);
+            if (after !== trashBefore) writes.push({ path: trashPath, before: trashBefore, after });
+        }
+
+        const written: typeof writes = [];
+        for (const write of writes) {
+            try {
+                await this.fs.write(write.path, write.after);
+                written.push(write);
+            } catch (error) {
+                await this.rollback(written);
+                throw error;
+            }
+        }
+    }
+
+    /**
+     * Put back files written so far, newest first
+     * Files the write created are removed if the adapter can, and emptied otherwise.
+     */
+    private async rollback(written: { path: string; before: string | null }[]): Promise<void> {
+        for (const { path, before } of [...written].reverse()) {
+            try {
+                if (before === null && this.fs.remove) {
+                    await this.fs.remove(path);
+                } else {
+                    await this.fs.write(path, before ?? '');
+                }
+            } catch (error) {
+                // Keep going - restoring the other files still matters
+                Logger.error('TimeTrackingFolder: Rollback failed for', path, error);
+            }
+        }
+    }
+
+    /**
+     * Keys of the existing files that can hold entries in a range
+     */
+    private async keysForRange(start: Date, end: Date): Promise<string[]> {
+        const existing = await this.listKeys();
+        const clients = existing.filter(key => key.includes('/')).map(key => key.slice(0, key.indexOf('/')));
+
+        // Look back a period and ahead a day, like the plugin: entries can run into the
+        // range, and are filed by the time in their own zone
+        const lookupEnd = new Date(end.getTime() + 24 * 60 * 60 * 1000);
+        const wanted = new Set(this.partitioning.keysForRange(start, lookupEnd, clients, true));
+        return existing.filter(key => wanted.has(key));
+    }
+
+    private static sortByStart(entries: TimeEntry[]): TimeEntry[] {
+        return entries.sort((a, b) => a.startDateTime.getTime() - b.startDateTime.getTime());
+    }
+}
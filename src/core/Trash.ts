@@ -0,0 +1,96 @@
+import type { EntryChange, TimeEntry } from '../types';
+import { TableParser } from './TableParser';
+
+/**
+ * Entries a set of changes deletes, and the IDs of the entries that exist afterwards
+ */
+export interface TrashDeletions {
+    deleted: TimeEntry[];
+    present: Set<string>;
+}
+
+/**
+ * The Trash.md table deleted entries are kept in, inside the time tracking folder
+ *
+ * Uses the same table format as month files plus a Deleted column, so the
+ * trash can be read (and fixed) by hand like any other data file. The plugin
+ * and TimeTrackingFolder both write it, so neither loses what it deletes.
+ */
+export class Trash {
+    /** Extra column holding the deletion time */
+    static readonly DELETED_COLUMN = 'Deleted';
+
+    /**
+     * Path of the trash file in a time tracking folder
+     */
+    static filePath(folder: string): string {
+        return `${folder}/Trash.md`;
+    }
+
+    /**
+     * Work out which entries end up deleted (they go to the trash) and which
+     * exist afterwards (they leave it, e.g. when an undo recreates them)
+     */
+    static deletions(changes: EntryChange[]): TrashDeletions {
+        const finalState = new Map<string, TimeEntry | null>();
+        const lastBefore = new Map<string, TimeEntry>();
+        for (const change of changes) {
+            if (change.before) {
+                finalState.set(change.before.id, null);
+                lastBefore.set(change.before.id, change.before);
+            }
+            if (change.after) finalState.set(change.after.id, change.after);
+        }
+        return {
+            deleted: [...lastBefore.values()].filter(e => finalState.get(e.id) === null),
+            present: new Set([...finalState].filter(([, e]) => e !== null).map(([id]) => id)),
+        };
+    }
+
+    /**
+     * Parse trash file content into entries (Deleted still in extraFields)
+     */
+    static parse(content: string, path: string): TimeEntry[] {
+        return TableParser.parseMonthFile(content, 'Trash', path).entries;
+    }
+
+    /**
+     * New trash file content
+     * @param content - Current content ('' if the file doesn't exist yet)
+     * @param added - Entries that were just deleted
+     * @param removedIds - Entries leaving the trash (restored, recreated by undo, or purged)
+     * @param deletedAt - Deletion time recorded for the added entries
+     */
+    static render(
+        content: string,
+        path: string,
+        added: TimeEntry[],
+        removedIds: Set<string>,
+        deletedAt: Date,
+        hideTable: boolean
+    ): string {
+        const addedIds = new Set(added.map(e => e.id));
+        const deletedStr = TableParser.formatDateTime(deletedAt);
+
+        const kept = Trash.parse(content, path).filter(e => !removedIds.has(e.id) && !addedIds.has(e.id));
+        const trashed = added.map(entry => ({
+            ...entry,
+            extraFields: { ...entry.extraFields, [Trash.DELETED_COLUMN]: deletedStr },
+        }));
+        return TableParser.generateMonthFile([...kept, ...trashed], 'Trash', hideTable, content || Trash.getFileHeader());
+    }
+
+    /**
+     * Header written when the trash file is first created
+     */
+    private static getFileHeader(): string {
+        return `%%
+⚠️ WARNING: This file is managed by the "Where Did The Time Go" plugin.
+Deleted time entries are kept here until purged.
+Use the Trash view to restore or permanently delete them.
+%%
+
+# Trash
+`;
+    }
+}
@@ -0,0 +1,17 @@
+/**
+ * Thrown when a file changed on disk (sync, git, manual edit) in a way that
+ * contradicts the change being written. Nothing is written when this is thrown.
+ */
+export class WriteConflictError extends Error {
+    /** Path of the file that changed */
+    readonly filePath: string;
+    /** One human readable line per conflicting entry */
+    readonly conflicts: string[];
+
+    constructor(filePath: string, conflicts: string[]) {
+        super(`${filePath} was changed elsewhere: ${conflicts.join('; ')}`);
+        this.name = 'WriteConflictError';
+        this.filePath = filePath;
+        this.conflicts = conflicts;
+    }
+}
@@ -0,0 +1,113 @@
+import type { EntryChange, TimeEntry, TimeTrackerSettings } from '../types';
+import { TableParser } from '../core/TableParser';
+
+/**
+ * Fields a bulk update can set (undefined clears the field)
+ */
+export type BulkFieldChanges = Partial<Pick<TimeEntry, 'project' | 'activity' | 'billable' | 'tags'>>;
+
+/**
+ * What to do to every entry matching a filter
+ * - update: set fields
+ * - reassign: move to another client (and project)
+ * - shift: move start and end by a number of minutes (negative moves earlier)
+ * - delete: move to the trash
+ */
+export type BulkOperation =
+    | { type: 'update'; changes: BulkFieldChanges }
+    | { type: 'reassign'; client: string; project?: string }
+    | { type: 'shift'; minutes: number }
+    | { type: 'delete' };
+
+/**
+ * Turns a bulk operation into entry changes, for previewing and applying
+ */
+export class BulkEdit {
+    /**
+     * Changes an operation makes to entries (entries it leaves as they are are skipped)
+     */
+    static plan(entries: TimeEntry[], operation: BulkOperation, settings: TimeTrackerSettings): EntryChange[] {
+        const changes: EntryChange[] = [];
+        for (const entry of entries) {
+            if (operation.type === 'delete') {
+                changes.push({ before: entry });
+                continue;
+            }
+            const after = BulkEdit.applyTo(entry, operation, settings);
+            if (!BulkEdit.isSame(entry, after)) {
+                changes.push({ before: entry, after });
+            }
+        }
+        return changes;
+    }
+
+    /**
+     * Name of an operation for the undo history and notices
+     */
+    static describe(operation: BulkOperation, count: number): string {
+        const entries = `${count} ${count === 1 ? 'entry' : 'entries'}`;
+        switch (operation.type) {
+            case 'update':
+                return `Edit ${entries}`;
+            case 'reassign':
+                return `Reassign ${entries}`;
+            case 'shift':
+                return `Shift ${entries}`;
+            case 'delete':
+                return `Delete ${entries}`;
+        }
+    }
+
+    /**
+     * Parse a shift like "+1h 30m", "-15m" or "2h" into minutes (null if it can't be read)
+     */
+    static parseShift(text: string): number | null {
+        const match = text.trim().toLowerCase().match(/^([+-]?)\s*(?:(\d+)\s*h)?\s*(?:(\d+)\s*m)?$/);
+        if (!match || (!match[2] && !match[3])) return null;
+        const minutes = Number(match[2] ?? 0) * 60 + Number(match[3] ?? 0);
+        return match[1] === '-' ? -minutes : minutes;
+    }
+
+    /**
+     * An entry after an update, reassign or shift
+     */
+    private static applyTo(
+        entry: TimeEntry,
+        operation: Exclude<BulkOperation, { type: 'delete' }>,
+        settings: TimeTrackerSettings
+    ): TimeEntry {
+        switch (operation.type) {
+            case 'update':
+                return { ...entry, ...operation.changes };
+            case 'reassign': {
+                // Keep the project when it also exists for the new client
+                const project = operation.project ??
+                    (settings.projects.some(p => p.clientId === operation.client && (p.name === entry.project || p.id === entry.project))
+                        ? entry.project
+                        : undefined);
+                return { ...entry, client: operation.client, project };
+            }
+            case 'shift': {
+                const startDateTime = new Date(entry.startDateTime.getTime() + operation.minutes * 60000);
+                const endDateTime = new Date(entry.endDateTime.getTime() + operation.minutes * 60000);
+                return {
+                    ...entry,
+                    date: TableParser.getDateString(startDateTime),
+                    start: TableParser.formatTime(startDateTime),
+                    end: TableParser.formatTime(endDateTime),
+                    startDateTime,
+                    endDateTime,
+                };
+            }
+        }
+    }
+
+    private static isSame(a: TimeEntry, b: TimeEntry): boolean {
+        return a.client === b.client &&
+            a.project === b.project &&
+            a.activity === b.activity &&
+            a.billable === b.billable &&
+            TableParser.formatTags(a.tags) === TableParser.formatTags(b.tags) &&
+            a.startDateTime.getTime() === b.startDateTime.getTime();
+    }
+}
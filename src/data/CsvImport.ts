@@ -0,0 +1,542 @@
+import type { CsvColumnMapping, EntryChange, ImportDateFormat, TimeEntry, TimeTrackerSettings } from '../types';
+import { Billing } from '../core/Billing';
+import { Overlaps } from '../core/Overlaps';
+import { TableParser } from '../core/TableParser';
+import { TimeZones } from '../utils/TimeZones';
+import { Taxonomy, TaxonomySettings } from './Taxonomy';
+
+/**
+ * Choices made in the import wizard
+ */
+export interface CsvImportOptions {
+    /** Client name for rows without one (created if missing) */
+    fallbackClient: string;
+    /** Zone the export's times are in (e.g. the Toggl profile's zone); local time if not set */
+    timeZone?: string;
+    /** Start of the first entry of a day (HH:mm) when the file only has durations */
+    dayStart?: string;
+}
+
+/**
+ * What happens to one row of the export
+ * - new: imported
+ * - duplicate: an entry with the same start, end and description already exists
+ * - overlap: would overlap an existing (or earlier imported) entry
+ * - invalid: the row can't be read
+ */
+export type ImportRowStatus = 'new' | 'duplicate' | 'overlap' | 'invalid';
+
+export interface CsvImportRow {
+    /** Record number in the export, counting the header as 1 */
+    line: number;
+    status: ImportRowStatus;
+    /** Why the row is skipped */
+    reason?: string;
+    /** The entry as it would be stored (not set for invalid rows) */
+    entry?: TimeEntry;
+}
+
+/**
+ * Everything an import does, worked out before anything is written
+ */
+export interface CsvImportPlan {
+    /** Name for the undo history and notices */
+    label: string;
+    /** Every data row of the export with its outcome */
+    rows: CsvImportRow[];
+    /** Entries to create */
+    changes: EntryChange[];
+    /** Names of the clients, projects and activities that will be added */
+    created: { clients: string[]; projects: string[]; activities: string[] };
+    /** Settings before the import */
+    before: TaxonomySettings;
+    /** Settings after the import (with the added items) */
+    after: TaxonomySettings;
+}
+
+/** Entry fields a mapping can fill, in the order the wizard shows them */
+export const MAPPING_FIELDS: { key: keyof Omit<CsvColumnMapping, 'id' | 'name' | 'dateFormat'>; name: string }[] = [
+    { key: 'startDate', name: 'Start date' },
+    { key: 'startTime', name: 'Start time' },
+    { key: 'endDate', name: 'End date' },
+    { key: 'endTime', name: 'End time' },
+    { key: 'duration', name: 'Duration' },
+    { key: 'description', name: 'Description' },
+    { key: 'client', name: 'Client' },
+    { key: 'project', name: 'Project' },
+    { key: 'activity', name: 'Activity' },
+    { key: 'tags', name: 'Tags' },
+    { key: 'billable', name: 'Billable' },
+    { key: 'rate', name: 'Hourly rate' },
+    { key: 'currency', name: 'Currency' },
+];
+
+export const DATE_FORMATS: ImportDateFormat[] = ['YYYY-MM-DD', 'MM/DD/YYYY', 'DD/MM/YYYY', 'DD.MM.YYYY'];
+
+/** Colors given to added clients, projects and activities, in turn */
+const COLORS = ['#4f46e5', '#059669', '#e11d48', '#f59e0b', '#8b5cf6', '#06b6d4', '#84cc16', '#f97316'];
+
+/** Where a mapped column is, and the currency its header names, if any */
+interface ResolvedColumn {
+    index: number;
+    currency?: string;
+}
+
+/**
+ * Imports CSV exports from other time trackers through a column mapping
+ *
+ * Clients, projects and activities are matched to ours by name and added when
+ * missing (new clients take the export's rate and currency, if it has them).
+ * A billable column is kept, but only written where it differs from the
+ * activity default.
+ */
+export class CsvImport {
+    /** Mappings for the detailed exports of other time trackers */
+    static readonly PROFILES: CsvColumnMapping[] = [
+        {
+            id: 'toggl', name: 'Toggl Track', dateFormat: 'YYYY-MM-DD',
+            startDate: 'Start date', startTime: 'Start time', endDate: 'End date', endTime: 'End time', duration: 'Duration',
+            description: 'Description', client: 'Client', project: 'Project', activity: 'Task', tags: 'Tags', billable: 'Billable',
+        },
+        {
+            id: 'clockify', name: 'Clockify', dateFormat: 'MM/DD/YYYY',
+            startDate: 'Start Date', startTime: 'Start Time', endDate: 'End Date', endTime: 'End Time', duration: 'Duration (h)',
+            description: 'Description', client: 'Client', project: 'Project', activity: 'Task', tags: 'Tags', billable: 'Billable',
+            rate: 'Billable Rate',
+        },
+        {
+            id: 'harvest', name: 'Harvest', dateFormat: 'YYYY-MM-DD',
+            startDate: 'Date', duration: 'Hours',
+            description: 'Notes', client: 'Client', project: 'Project', activity: 'Task', billable: 'Billable?',
+            rate: 'Billable Rate', currency: 'Currency',
+        },
+    ];
+
+    /**
+     * Work out the entries and settings changes for an export
+     * @param existing - Entries already stored, to find duplicates and overlaps
+     */
+    static plan(
+        csv: string,
+        mapping: CsvColumnMapping,
+        existing: TimeEntry[],
+        settings: TimeTrackerSettings,
+        options: CsvImportOptions
+    ): CsvImportPlan {
+        const [header, ...records] = CsvImport.parseCsv(csv);
+        const columns = CsvImport.resolveColumns(header ?? [], mapping);
+        if (options.timeZone && !TimeZones.isValid(options.timeZone)) {
+            throw new Error(`Unknown time zone "${options.timeZone}"`);
+        }
+        const dayStart = options.dayStart || '09:00';
+        if (!CsvImport.parseTime(dayStart)) {
+            throw new Error(`Invalid day start "${dayStart}" (expected HH:mm)`);
+        }
+
+        const before = Taxonomy.snapshot(settings);
+        const after = Taxonomy.snapshot(settings);
+        const created: CsvImportPlan['created'] = { clients: [], projects: [], activities: [] };
+        const index = new DayIndex(existing);
+        const nextStart = new Map<string, Date>();
+        const rows: CsvImportRow[] = [];
+
+        records.forEach((record, i) => {
+            const line = i + 2;
+            const value = (key: keyof CsvColumnMapping) => {
+                const column = columns.get(key);
+                return column ? (record[column.index] ?? '').trim() : '';
+            };
+            if (record.every(cell => !cell.trim())) return;
+
+            // Times: start date and time, then an end time or a duration
+            const date = CsvImport.parseDate(value('startDate'), mapping.dateFormat);
+            if (!date) {
+                rows.push({ line, status: 'invalid', reason: `Invalid date "${value('startDate')}" (expected ${mapping.dateFormat})` });
+                return;
+            }
+            const startTime = value('startTime');
+            const startDateTime = startTime
+                ? CsvImport.toDateTime(date, startTime, options.timeZone)
+                : nextStart.get(date) ?? CsvImport.toDateTime(date, dayStart, options.timeZone);
+            if (!startDateTime) {
+                rows.push({ line, status: 'invalid', reason: `Invalid start time "${startTime}"` });
+                return;
+            }
+
+            let endDateTime: Date | null = null;
+            const duration = CsvImport.parseDuration(value('duration'));
+            if (value('endTime')) {
+                const endDate = value('endDate') ? CsvImport.parseDate(value('endDate'), mapping.dateFormat) : date;
+                endDateTime = endDate && CsvImport.toDateTime(endDate, value('endTime'), options.timeZone);
+                // Without an end date, an end before the start means the entry ran past midnight
+                if (endDateTime && !value('endDate') && endDateTime <= startDateTime) {
+                    endDateTime = CsvImport.toDateTime(CsvImport.nextDay(date), value('endTime'), options.timeZone);
+                }
+            } else if (duration !== null) {
+                endDateTime = new Date(startDateTime.getTime() + duration * 60000);
+            }
+            if (!endDateTime) {
+                rows.push({
+                    line,
+                    status: 'invalid',
+                    reason: value('endTime') ? `Invalid end "${value('endDate')} ${value('endTime')}"` : 'No end time or duration',
+                });
+                return;
+            }
+            if (!startTime) nextStart.set(date, endDateTime);
+            if (endDateTime <= startDateTime) {
+                rows.push({ line, status: 'invalid', reason: 'Shorter than a minute' });
+                return;
+            }
+
+            const description = value('description');
+            if (settings.descriptionMaxLength > 0 && description.length > settings.descriptionMaxLength) {
+                rows.push({ line, status: 'invalid', reason: `Description is longer than ${settings.descriptionMaxLength} characters` });
+                return;
+            }
+
+            const clientName = value('client') || options.fallbackClient.trim();
+            const projectName = value('project');
+            const labels = (column: 'activity' | 'tags') => value(column).split(',').map(label => label.trim()).filter(Boolean);
+            // A custom mapping can point activity and tags at one column: the first label is the activity
+            const sharedColumn = columns.has('activity') && columns.get('activity')?.index === columns.get('tags')?.index;
+            const [activityName, ...extraTags] = labels('activity');
+            const tags = sharedColumn ? extraTags : labels('tags');
+
+            const client = after.clients.find(c => CsvImport.sameName(c.name, clientName));
+            const entry: TimeEntry = {
+                id: TableParser.generateId(),
+                date: TableParser.getDateString(startDateTime),
+                start: TableParser.formatTime(startDateTime),
+                end: TableParser.formatTime(endDateTime),
+                description,
+                client: client?.id ?? clientName,
+                project: projectName || undefined,
+                activity: activityName,
+                tags: CsvImport.toTags(tags),
+                timeZone: options.timeZone || undefined,
+                startDateTime,
+                endDateTime,
+                durationMinutes: Math.round((endDateTime.getTime() - startDateTime.getTime()) / 60000),
+                lineNumber: 0,
+            };
+
+            const candidates = index.around(entry);
+            if (candidates.some(e => CsvImport.isDuplicate(e, entry))) {
+                rows.push({ line, status: 'duplicate', reason: 'Already imported', entry });
+                return;
+            }
+            const conflict = Overlaps.classify(startDateTime, endDateTime, candidates);
+            const other = conflict.startOverlap ?? conflict.endOverlap ?? conflict.encompassedEntry;
+            if (other) {
+                rows.push({ line, status: 'overlap', reason: `Overlaps ${Overlaps.describe(other)} "${other.description}"`, entry });
+                return;
+            }
+
+            // Only rows that are imported add clients, projects and activities
+            const rate = CsvImport.parseRate(value('rate'));
+            // Currency cells may spell the name out, e.g. "United States Dollar - USD"
+            const currency = value('currency').match(/\b[A-Z]{3}\b/)?.[0] ?? columns.get('rate')?.currency;
+            const addedClient = CsvImport.ensureClient(after, clientName, rate, currency, created);
+            entry.client = addedClient.id;
+            if (entry.project) {
+                entry.project = CsvImport.ensureItem(after, 'project', addedClient, entry.project, rate, created).name;
+            }
+            if (entry.activity) {
+                entry.activity = CsvImport.ensureItem(after, 'activity', addedClient, entry.activity, rate, created).name;
+            }
+
+            const billable = TableParser.parseBillable(value('billable'));
+            if (billable !== undefined && billable !== Billing.isBillable(entry, { ...settings, ...after })) {
+                entry.billable = billable;
+            }
+
+            index.add(entry);
+            rows.push({ line, status: 'new', entry });
+        });
+
+        const changes = rows.filter(r => r.status === 'new').map(r => ({ after: r.entry }));
+        return {
+            label: `Import ${changes.length} ${changes.length === 1 ? 'entry' : 'entries'} from ${mapping.name}`,
+            rows,
+            changes,
+            created,
+            before,
+            after,
+        };
+    }
+
+    /**
+     * Header names of an export, for mapping its columns by hand
+     */
+    static readHeaders(csv: string): string[] {
+        const [header] = CsvImport.parseCsv(csv);
+        return (header ?? []).map(name => name.trim()).filter(Boolean);
+    }
+
+    /**
+     * Split CSV text into records (RFC 4180: quoted fields may hold commas, quotes and newlines)
+     */
+    static parseCsv(text: string): string[][] {
+        const records: string[][] = [];
+        let record: string[] = [];
+        let field = '';
+        let quoted = false;
+        const source = text.replace(/^\uFEFF/, '');
+
+        for (let i = 0; i < source.length; i++) {
+            const char = source[i];
+            if (quoted) {
+                if (char === '"' && source[i + 1] === '"') {
+                    field += '"';
+                    i++;
+                } else if (char === '"') {
+                    quoted = false;
+                } else {
+                    field += char;
+                }
+            } else if (char === '"') {
+                quoted = true;
+            } else if (char === ',') {
+                record.push(field);
+                field = '';
+            } else if (char === '\n' || char === '\r') {
+                if (char === '\r' && source[i + 1] === '\n') i++;
+                record.push(field);
+                records.push(record);
+                record = [];
+                field = '';
+            } else {
+                field += char;
+            }
+        }
+        if (field || record.length > 0) {
+            record.push(field);
+            records.push(record);
+        }
+        return records;
+    }
+
+    /**
+     * Find every mapped column in the header row
+     * A mapped name also matches a header that adds a currency, e.g. "Billable Rate (USD)".
+     * Throws if a column the times or descriptions need is missing.
+     */
+    private static resolveColumns(header: string[], mapping: CsvColumnMapping): Map<keyof CsvColumnMapping, ResolvedColumn> {
+        const names = header.map(name => name.trim().toLowerCase());
+        const columns = new Map<keyof CsvColumnMapping, ResolvedColumn>();
+        for (const { key } of MAPPING_FIELDS) {
+            const wanted = mapping[key]?.trim().toLowerCase();
+            if (!wanted) continue;
+            let index = names.indexOf(wanted);
+            let currency: string | undefined;
+            if (index === -1) {
+                index = names.findIndex(name => name.startsWith(`${wanted} (`) && /\([a-z]{3}\)$/.test(name));
+                if (index !== -1) currency = names[index].slice(-4, -1).toUpperCase();
+            }
+            if (index !== -1) columns.set(key, { index, currency });
+        }
+
+        const required: (keyof CsvColumnMapping)[] = ['startDate', 'startTime', 'description'];
+        const missing = required.find(key => (key === 'startDate' || mapping[key]) && !columns.has(key));
+        if (missing) {
+            throw new Error(`Not a ${mapping.name} export: no "${mapping[missing]}" column`);
+        }
+        if (!columns.has('endTime') && !columns.has('duration')) {
+            throw new Error(`Not a ${mapping.name} export: no "${mapping.endTime || mapping.duration || 'end time or duration'}" column`);
+        }
+        return columns;
+    }
+
+    /**
+     * Date in a given format as YYYY-MM-DD, or null if it doesn't match
+     */
+    private static parseDate(text: string, format: ImportDateFormat): string | null {
+        let year: string, month: string, day: string;
+        if (format === 'YYYY-MM-DD') {
+            const match = text.match(/^(\d{4})-(\d{1,2})-(\d{1,2})$/);
+            if (!match) return null;
+            [, year, month, day] = match;
+        } else {
+            const match = text.match(/^(\d{1,2})[/.](\d{1,2})[/.](\d{4})$/);
+            if (!match) return null;
+            [month, day] = format === 'MM/DD/YYYY' ? [match[1], match[2]] : [match[2], match[1]];
+            year = match[3];
+        }
+        const date = new Date(Number(year), Number(month) - 1, Number(day));
+        if (date.getMonth() !== Number(month) - 1 || date.getDate() !== Number(day)) return null;
+        return TableParser.getDateString(date);
+    }
+
+    /**
+     * Time as HH:mm from "9:05", "09:05:30" or "9:05 PM" (seconds are dropped), or null
+     */
+    private static parseTime(text: string): string | null {
+        const match = text.match(/^(\d{1,2}):(\d{2})(?::\d{2})?\s*([ap]m)?$/i);
+        if (!match) return null;
+        let hour = Number(match[1]);
+        const suffix = match[3]?.toLowerCase();
+        if (suffix === 'pm' && hour < 12) hour += 12;
+        if (suffix === 'am' && hour === 12) hour = 0;
+        if (hour > 23 || Number(match[2]) > 59) return null;
+        return `${String(hour).padStart(2, '0')}:${match[2]}`;
+    }
+
+    private static toDateTime(date: string, time: string, timeZone?: string): Date | null {
+        const hhmm = CsvImport.parseTime(time);
+        return hhmm ? TableParser.parseDateTime(`${date} ${hhmm}`, timeZone || undefined) : null;
+    }
+
+    private static nextDay(date: string): string {
+        const [year, month, day] = date.split('-').map(Number);
+        return TableParser.getDateString(new Date(year, month - 1, day + 1));
+    }
+
+    /**
+     * Minutes from decimal hours ("1.5" or "1,5") or h:mm[:ss] ("1:30"), or null
+     */
+    private static parseDuration(text: string): number | null {
+        const clock = text.match(/^(\d+):(\d{2})(?::(\d{2}))?$/);
+        if (clock) {
+            return Number(clock[1]) * 60 + Number(clock[2]) + Math.round(Number(clock[3] ?? 0) / 60);
+        }
+        if (/^\d+(?:[.,]\d+)?$/.test(text)) {
+            return Math.round(Number(text.replace(',', '.')) * 60);
+        }
+        return null;
+    }
+
+    /**
+     * Hourly rate from a cell like "150", "150,00", "$1,200.50" or "1.200,50 €", or null
+     * The last separator is the decimal one, unless all of them are the same ("1,200,000").
+     */
+    private static parseRate(text: string): number | null {
+        const number = text.replace(/[^\d.,]/g, '');
+        if (/^\d{1,3}([.,])\d{3}(?:\1\d{3})+$/.test(number)) {
+            return Number(number.replace(/[.,]/g, ''));
+        }
+        const match = number.match(/^(\d+|\d{1,3}(?:([.,])\d{3})+)(?:([.,])(\d+))?$/);
+        if (!match || (match[2] && match[2] === match[3])) return null;
+        // A lone separator before three digits is a decimal mark in some locales and a thousands one in others
+        if (!match[2] && match[4]?.length === 3) return null;
+        return Number(`${match[1].replace(/[.,]/g, '')}.${match[4] ?? '0'}`);
+    }
+
+    /**
+     * Tags may contain spaces, which ours can't: "front end" becomes "front-end"
+     */
+    private static toTags(tags: string[]): string[] | undefined {
+        const names = tags.map(tag => TableParser.normalizeTag(tag.replace(/\s+/g, '-'))).filter(Boolean);
+        return names.length > 0 ? names : undefined;
+    }
+
+    private static isDuplicate(a: TimeEntry, b: TimeEntry): boolean {
+        return a.startDateTime.getTime() === b.startDateTime.getTime() &&
+            a.endDateTime.getTime() === b.endDateTime.getTime() &&
+            a.description.trim() === b.description.trim();
+    }
+
+    private static ensureClient(
+        settings: TaxonomySettings,
+        name: string,
+        rate: number | null,
+        currency: string | undefined,
+        created: CsvImportPlan['created']
+    ): TaxonomySettings['clients'][number] {
+        const existing = settings.clients.find(c => CsvImport.sameName(c.name, name));
+        if (existing) return existing;
+
+        const client = {
+            id: CsvImport.uniqueId(name, settings.clients.map(c => c.id)),
+            name,
+            color: CsvImport.nextColor(created),
+            archived: false,
+            rate: rate ?? 0,
+            currency: currency ?? settings.clients[0]?.currency ?? 'USD',
+        };
+        settings.clients.push(client);
+        created.clients.push(name);
+        return client;
+    }
+
+    /**
+     * Find or add a project or activity of a client
+     * @param rate - Rate of the row; an added project whose rate differs from the client's overrides it
+     */
+    private static ensureItem(
+        settings: TaxonomySettings,
+        kind: 'project' | 'activity',
+        client: TaxonomySettings['clients'][number],
+        name: string,
+        rate: number | null,
+        created: CsvImportPlan['created']
+    ): { id: string; name: string } {
+        const list: { id: string; name: string; clientId: string }[] = kind === 'project' ? settings.projects : settings.activities;
+        const existing = list.find(item => item.clientId === client.id && (CsvImport.sameName(item.name, name) || item.id === name));
+        if (existing) return existing;
+
+        const id = CsvImport.uniqueId(`${kind}-${name}`, list.map(item => item.id));
+        const color = CsvImport.nextColor(created);
+        if (kind === 'project') {
+            const rateOverride = rate !== null && rate !== client.rate ? rate : undefined;
+            settings.projects.push({ id, name, color, archived: false, clientId: client.id, rateOverride });
+            created.projects.push(name);
+        } else {
+            settings.activities.push({ id, name, color, clientId: client.id });
+            created.activities.push(name);
+        }
+        return { id, name };
+    }
+
+    private static uniqueId(name: string, taken: string[]): string {
+        const base = name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/(^-|-$)/g, '') || 'imported';
+        let id = base;
+        for (let n = 2; taken.includes(id); n++) id = `${base}-${n}`;
+        return id;
+    }
+
+    private static nextColor(created: CsvImportPlan['created']): string {
+        const count = created.clients.length + created.projects.length + created.activities.length;
+        return COLORS[count % COLORS.length];
+    }
+
+    private static sameName(a: string, b: string): boolean {
+        return a.trim().toLowerCase() === b.trim().toLowerCase();
+    }
+}
+
+/**
+ * Entries grouped by every local day they touch, so each row is only checked
+ * against entries near it (exports can hold years of history)
+ */
+class DayIndex {
+    private days = new Map<string, TimeEntry[]>();
+
+    constructor(entries: TimeEntry[]) {
+        entries.forEach(entry => this.add(entry));
+    }
+
+    add(entry: TimeEntry): void {
+        for (const day of DayIndex.daysOf(entry)) {
+            if (!this.days.has(day)) this.days.set(day, []);
+            this.days.get(day).push(entry);
+        }
+    }
+
+    /**
+     * Entries on any day an entry touches
+     */
+    around(entry: TimeEntry): TimeEntry[] {
+        return [...new Set(DayIndex.daysOf(entry).flatMap(day => this.days.get(day) ?? []))];
+    }
+
+    private static daysOf(entry: TimeEntry): string[] {
+        const days: string[] = [];
+        const day = new Date(entry.startDateTime.getFullYear(), entry.startDateTime.getMonth(), entry.startDateTime.getDate());
+        while (day < entry.endDateTime) {
+            days.push(TableParser.getDateString(day));
+            day.setDate(day.getDate() + 1);
+        }
+        return days;
+    }
+}
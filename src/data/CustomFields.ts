@@ -0,0 +1,88 @@
+import type { CustomField, TimeEntry, TimeTrackerSettings } from '../types';
+import { TableParser } from '../core/TableParser';
+import { Trash } from '../core/Trash';
+
+/**
+ * Reads and writes user-defined fields on entries
+ *
+ * Values live in entry.extraFields under the field name, which is also the
+ * table column header. Cells hold raw markdown, so pipes are escaped on write
+ * and unescaped on read.
+ */
+export class CustomFields {
+    /** Stored value of a checked boolean field */
+    static readonly TRUE_VALUE = 'yes';
+
+    /**
+     * Fields that apply to a client: global fields plus the client's own
+     */
+    static forClient(settings: TimeTrackerSettings, clientId: string): CustomField[] {
+        return settings.customFields.filter(f => !f.clientId || f.clientId === clientId);
+    }
+
+    /**
+     * Current value of a field on an entry ('' if unset)
+     */
+    static getValue(entry: Pick<TimeEntry, 'extraFields'>, field: CustomField): string {
+        const fields = entry.extraFields ?? {};
+        const key = Object.keys(fields).find(k => k.toLowerCase() === field.name.toLowerCase());
+        return key ? fields[key].replace(/\\\|/g, '|').trim() : '';
+    }
+
+    /**
+     * Extra fields with a field set to a value (removed when empty)
+     */
+    static setValue(
+        extraFields: Record<string, string> | undefined,
+        field: CustomField,
+        value: string
+    ): Record<string, string> | undefined {
+        const result: Record<string, string> = {};
+        for (const [key, existing] of Object.entries(extraFields ?? {})) {
+            if (key.toLowerCase() !== field.name.toLowerCase()) result[key] = existing;
+        }
+        const cell = value.replace(/\r?\n/g, ' ').trim().replace(/\|/g, '\\|');
+        if (cell) result[field.name] = cell;
+        return Object.keys(result).length > 0 ? result : undefined;
+    }
+
+    /**
+     * Value for display: booleans as Yes/No, everything else as stored
+     */
+    static formatValue(field: CustomField, value: string): string {
+        if (field.type === 'boolean') return value === CustomFields.TRUE_VALUE ? 'Yes' : 'No';
+        return value;
+    }
+
+    /**
+     * Problem with a value for a field, or null if it's valid (empty is always valid)
+     */
+    static validate(field: CustomField, value: string): string | null {
+        if (!value) return null;
+        if (field.type === 'number' && !Number.isFinite(Number(value))) {
+            return `${field.name} must be a number`;
+        }
+        if (field.type === 'select' && !(field.options ?? []).includes(value)) {
+            return `${field.name} must be one of: ${(field.options ?? []).join(', ')}`;
+        }
+        return null;
+    }
+
+    /**
+     * Problem with a field name, or null if it can be used as a column header
+     * @param others - The other configured fields
+     */
+    static validateName(name: string, others: CustomField[]): string | null {
+        const trimmed = name.trim();
+        if (!trimmed) return 'Name is required';
+        if (/[|\n]/.test(trimmed)) return 'Name cannot contain | or line breaks';
+        const lower = trimmed.toLowerCase();
+        if ([...TableParser.HEADERS, Trash.DELETED_COLUMN].some(h => h.toLowerCase() === lower)) {
+            return `"${trimmed}" is a built-in column`;
+        }
+        if (others.some(f => f.name.toLowerCase() === lower)) {
+            return `A field named "${trimmed}" already exists`;
+        }
+        return null;
+    }
+}
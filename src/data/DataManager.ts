@@ -1,23 +1,69 @@
-import { TFile, TFolder, Vault, Notice } from 'obsidian';
-import type { TimeEntry, ParsedMonth, TimeTrackerSettings } from '../types';
-import { TableParser } from './TableParser';
+import { Events, EventRef, TFile, TFolder, Vault, Notice } from 'obsidian';
+import type { CsvColumnMapping, TimeEntry, NewTimeEntry, EntryChange, ParsedMonth, ParseWarning, PartitionStrategy, TimeTrackerSettings } from '../types';
+import { TableParser } from '../core/TableParser';
+import { MonthTransaction } from './MonthTransaction';
+import { OperationJournal, JournalRecord } from './OperationJournal';
+import { TrashStore, TrashedEntry } from './TrashStore';
+import { Trash } from '../core/Trash';
+import { MonthChanges } from '../core/MonthChanges';
+import { WriteConflictError } from '../core/WriteConflictError';
+import { Overlaps, OverlapMatches } from '../core/Overlaps';
+import { Reports } from '../core/Reports';
+import { Partitioning, PARTITION_STRATEGY_NAMES } from '../core/Partitioning';
+import { EntryIndex } from './EntryIndex';
+import { FileNormalizer, NormalizedFile } from './FileNormalizer';
+import { BulkEdit, BulkFieldChanges, BulkOperation } from './BulkEdit';
+import { EntrySearch, SearchQuery } from './EntrySearch';
+import { Taxonomy, TaxonomyOperation, TaxonomyPlan, TaxonomySettings } from './Taxonomy';
+import { CsvImport, CsvImportOptions, CsvImportPlan } from './CsvImport';
+import { Hash } from '../utils/Hash';
+import { LruCache } from '../utils/LruCache';
 import { Logger } from '../utils/Logger';
+import { TimeZones } from '../utils/TimeZones';
+
+/**
+ * Events DataManager emits, with their listener signatures
+ * - entry-created / entry-updated / entry-deleted: after a change is saved,
+ *   whether from the entry form, a bulk edit, undo/redo or the API
+ * - month-reloaded: a data file changed outside the plugin (hand edit, sync);
+ *   its cached entries were dropped and will be read again when next needed
+ */
+export interface DataManagerEvents {
+    'entry-created': (entry: TimeEntry) => void;
+    'entry-updated': (entry: TimeEntry, oldEntry: TimeEntry) => void;
+    'entry-deleted': (oldEntry: TimeEntry) => void;
+    'month-reloaded': (key: string, path: string) => void;
+}
 
 /**
  * Manages all data operations for time entries
  * Handles reading/writing markdown files, caching, and file watching
  */
-export class DataManager {
+export class DataManager extends Events {
     private vault: Vault;
     private settings: TimeTrackerSettings;
-    private cache: Map<string, ParsedMonth> = new Map();
-
     // Limit cache size to prevent unbounded memory growth
-    private static readonly MAX_CACHED_MONTHS = 24;
+    private static readonly MAX_CACHED_FILES = 24;
+
+    private cache = new LruCache<string, ParsedMonth>(DataManager.MAX_CACHED_FILES);
+    private journal: OperationJournal = new OperationJournal();
+    private trash: TrashStore;
+    /** Parsed files kept across sessions (optional - without it every cold load parses) */
+    private index: EntryIndex | null;
+    /** Persists the settings after a rename or merge (or its undo) changed them */
+    private saveSettings: (() => Promise<void>) | null = null;
+    /**
+     * Hash of the content we last wrote to each data file, so our own writes aren't reported as reloads
+     * Recorded before writing, as the vault fires its modify event before the write returns.
+     */
+    private ownWrites = new Map<string, string>();
 
-    constructor(vault: Vault, settings: TimeTrackerSettings) {
+    constructor(vault: Vault, settings: TimeTrackerSettings, index: EntryIndex | null = null) {
+        super();
         this.vault = vault;
         this.settings = settings;
+        this.trash = new TrashStore(vault, settings);
+        this.index = index;
     }
 
     /**
@@ -25,6 +71,25 @@ export class DataManager {
      */
     updateSettings(settings: TimeTrackerSettings): void {
         this.settings = settings;
+        this.trash.updateSettings(settings);
+    }
+
+    /**
+     * Listen for an event (see DataManagerEvents); pass the returned ref to offref() to stop
+     */
+    on<K extends keyof DataManagerEvents>(name: K, callback: DataManagerEvents[K], ctx?: unknown): EventRef {
+        return super.on(name, callback as (...data: unknown[]) => unknown, ctx);
+    }
+
+    private emit<K extends keyof DataManagerEvents>(name: K, ...data: Parameters<DataManagerEvents[K]>): void {
+        this.trigger(name, ...data);
+    }
+
+    /**
+     * Set how to persist settings changed by renames and merges
+     */
+    setSettingsSaver(save: () => Promise<void>): void {
+        this.saveSettings = save;
     }
 
     /**
@@ -35,10 +100,96 @@ export class DataManager {
     }
 
     /**
-     * Invalidate cache for a specific month
+     * Drop cached files, the index and undo history (after the data folder moves)
+     */
+    reset(): void {
+        this.cache.clear();
+        this.index?.clear();
+        this.journal.clear();
+    }
+
+    /**
+     * Invalidate cache for a specific data file (by partition key)
+     */
+    invalidatePartition(key: string): void {
+        this.cache.delete(key);
+        this.index?.invalidate(this.getPartitionFilePath(key));
+    }
+
+    /**
+     * Invalidate whatever is cached for a vault path (called on vault events)
+     * @returns true if the path is a data file
+     */
+    async invalidatePath(path: string): Promise<boolean> {
+        this.index?.invalidate(path);
+        const key = this.getPartitionKeyForPath(path);
+        if (!key) return false;
+
+        this.cache.delete(key);
+        if (!(await this.isOwnWrite(path))) {
+            this.emit('month-reloaded', key, path);
+        }
+        return true;
+    }
+
+    /**
+     * Whether a data file still holds exactly what we last wrote to it
+     */
+    private async isOwnWrite(path: string): Promise<boolean> {
+        const expected = this.ownWrites.get(path);
+        const file = this.vault.getAbstractFileByPath(path);
+        if (expected === undefined || !(file instanceof TFile)) return false;
+        return Hash.fnv1a(await this.vault.read(file)) === expected;
+    }
+
+    /**
+     * Write the persistent index if it changed
+     */
+    async saveIndex(): Promise<void> {
+        await this.index?.save();
+    }
+
+    /**
+     * How entries are split into files, per the current settings
+     */
+    getPartitioning(): Partitioning {
+        return new Partitioning(this.settings.partitioning, this.getClientFolders());
+    }
+
+    /**
+     * Partition key for a vault path, or null if it isn't a data file
+     */
+    getPartitionKeyForPath(path: string): string | null {
+        return this.getPartitioning().keyFromPath(this.settings.timeTrackingFolder, path);
+    }
+
+    /**
+     * Partition keys of the files that can hold entries in a date range
+     * @param includePrevious - Also include the period before, for entries running into the range
+     */
+    getPartitionKeysForRange(startDate: Date, endDate: Date, includePrevious: boolean = false): string[] {
+        return this.getPartitioning().keysForRange(startDate, endDate, this.getClientFolders(), includePrevious);
+    }
+
+    /**
+     * Partition keys of the files that can hold entries shown in a date range
+     * Includes the period before (entries running into the range) and looks a day past
+     * the end: entries are filed by the time in their own zone, which can be up to a day
+     * ahead of ours.
+     */
+    getPartitionKeysForDisplay(startDate: Date, endDate: Date): string[] {
+        const lookupEnd = new Date(endDate.getTime() + 24 * 60 * 60 * 1000);
+        return this.getPartitionKeysForRange(startDate, lookupEnd, true);
+    }
+
+    /**
+     * Clients whose folders hold data when files are split per client
+     * Only configured clients count: other subfolders (notes, invoices) are never read
+     * as time data, and entries of other clients are refused rather than written where
+     * they wouldn't be read back. Entries of a deleted client show up again when it is added back.
      */
-    invalidateMonth(monthStr: string): void {
-        this.cache.delete(monthStr);
+    private getClientFolders(): string[] {
+        return this.settings.clients.map(c => c.id);
     }
 
     /**
@@ -66,74 +217,42 @@ export class DataManager {
     }
 
     /**
-     * Get the file path for a monthly file
+     * Get the file path for a data file
      */
-    getMonthFilePath(monthStr: string): string {
-        return `${this.settings.timeTrackingFolder}/${monthStr}.md`;
-    }
-
-    /**
-     * Get or create the monthly file for a given month
-     */
-    async getOrCreateMonthFile(monthStr: string): Promise<TFile> {
-        await this.ensureFolderExists();
-
-        const filePath = this.getMonthFilePath(monthStr);
-        let file = this.vault.getAbstractFileByPath(filePath);
-
-        if (!file) {
-            // Create the file with header and empty table
-            const content = TableParser.generateMonthFile([], monthStr, this.settings.hideTablesInPreview);
-            file = await this.vault.create(filePath, content);
-        }
-
-        if (!(file instanceof TFile)) {
-            throw new Error(`"${filePath}" is not a file`);
-        }
-
-        return file;
+    getPartitionFilePath(key: string): string {
+        return this.getPartitioning().filePath(this.settings.timeTrackingFolder, key);
     }
 
     /**
-     * Load entries for a specific month
+     * Load entries for a single data file
+     * @param key - Partition key (e.g. "2025-01" for monthly files)
      */
-    async loadMonth(monthStr: string): Promise<ParsedMonth> {
+    async loadPartition(key: string): Promise<ParsedMonth> {
         // Check cache first
-        if (this.cache.has(monthStr)) {
-            Logger.log('DataManager: Cache hit for', monthStr);
-            return this.cache.get(monthStr);
+        const cached = this.cache.get(key);
+        if (cached) {
+            Logger.log('DataManager: Cache hit for', key);
+            return cached;
         }
 
-        const filePath = this.getMonthFilePath(monthStr);
+        const filePath = this.getPartitionFilePath(key);
         Logger.log('DataManager: Loading file', filePath);
 
         const file = this.vault.getAbstractFileByPath(filePath);
 
         if (!file || !(file instanceof TFile)) {
             Logger.log('DataManager: File not found');
-            const emptyMonth: ParsedMonth = {
-                month: monthStr,
-                entries: [],
-                entriesByDate: new Map(),
-            };
-            return emptyMonth;
-        }
-
-        const content = await this.vault.read(file);
-        const parsed = TableParser.parseMonthFile(content, monthStr);
-        Logger.log('DataManager: Parsed', parsed.entries.length, 'entries');
-
-        // Cache the result
-        this.cache.set(monthStr, parsed);
-
-        // Prune cache if over limit (FIFO - Map maintains insertion order)
-        if (this.cache.size > DataManager.MAX_CACHED_MONTHS) {
-            const firstKey = this.cache.keys().next() as IteratorResult<string, undefined>;
-            if (!firstKey.done && firstKey.value) {
-                this.cache.delete(firstKey.value);
-            }
+            return TableParser.parseMonthFile('', key, filePath);
         }
 
+        const parsed = this.index
+            ? await this.index.load(file, key, () => this.vault.read(file))
+            : TableParser.parseMonthFile(await this.vault.read(file), key, filePath);
+        Logger.log('DataManager: Loaded', parsed.entries.length, 'entries');
+
+        // Cache the result (least recently used files are evicted first)
+        this.cache.set(key, parsed);
+
         return parsed;
     }
 
@@ -143,26 +262,9 @@ export class DataManager {
      */
     async loadDateRange(startDate: Date, endDate: Date): Promise<TimeEntry[]> {
         const entries: TimeEntry[] = [];
-        const monthsToLoad = new Set<string>();
-
-        // Determine which months we need to load
-        // Include month before startDate in case an entry started there and spans into our range
-        const monthBefore = new Date(startDate);
-        monthBefore.setMonth(monthBefore.getMonth() - 1);
-        monthsToLoad.add(TableParser.getMonthString(monthBefore));
 
-        const endMonth = TableParser.getMonthString(endDate);
-        const current = new Date(startDate);
-        current.setDate(1); // Start from first of month
-
-        while (TableParser.getMonthString(current) <= endMonth) {
-            monthsToLoad.add(TableParser.getMonthString(current));
-            current.setMonth(current.getMonth() + 1);
-        }
-
-        // Load all months
-        for (const monthStr of monthsToLoad) {
-            const parsed = await this.loadMonth(monthStr);
+        for (const key of this.getPartitionKeysForDisplay(startDate, endDate)) {
+            const parsed = await this.loadPartition(key);
             entries.push(...parsed.entries);
         }
 
@@ -176,29 +278,51 @@ export class DataManager {
             .sort((a, b) => a.startDateTime.getTime() - b.startDateTime.getTime());
     }
 
+    /**
+     * Load entries from every data file in the current layout, oldest first
+     */
+    async loadAllEntries(): Promise<TimeEntry[]> {
+        const folder = this.vault.getAbstractFileByPath(this.settings.timeTrackingFolder);
+        if (!(folder instanceof TFolder)) return [];
+
+        const entries: TimeEntry[] = [];
+        for (const file of this.listMarkdownFiles(folder)) {
+            const key = this.getPartitionKeyForPath(file.path);
+            if (!key) continue;
+            const parsed = await this.loadPartition(key);
+            entries.push(...parsed.entries);
+        }
+        return entries.sort((a, b) => a.startDateTime.getTime() - b.startDateTime.getTime());
+    }
+
+    /**
+     * Load parse warnings for every data file touched by a date range
+     */
+    async loadWarningsForRange(startDate: Date, endDate: Date): Promise<ParseWarning[]> {
+        const warnings: ParseWarning[] = [];
+        for (const key of this.getPartitionKeysForRange(startDate, endDate)) {
+            const parsed = await this.loadPartition(key);
+            warnings.push(...parsed.warnings);
+        }
+        return warnings;
+    }
+
     /**
      * Calculate effective duration of an entry within a date range
      * Handles entries that span midnight by only counting time within the range
      */
     getEffectiveDuration(entry: TimeEntry, rangeStart: Date, rangeEnd: Date): number {
-        // Clamp entry times to the range
-        const effectiveStart = entry.startDateTime < rangeStart ? rangeStart : entry.startDateTime;
-        const effectiveEnd = entry.endDateTime > rangeEnd ? rangeEnd : entry.endDateTime;
-
-        // Calculate duration in minutes
-        const durationMs = effectiveEnd.getTime() - effectiveStart.getTime();
-        return Math.max(0, Math.round(durationMs / 60000));
+        return Reports.effectiveMinutes(entry, rangeStart, rangeEnd);
     }
 
     /**
-     * Load entries for a specific date
+     * Load entries starting on a specific date (in this device's time zone)
      */
     async loadEntriesForDate(date: Date): Promise<TimeEntry[]> {
-        const monthStr = TableParser.getMonthString(date);
         const dateStr = TableParser.getDateString(date);
-
-        const parsed = await this.loadMonth(monthStr);
-        return parsed.entriesByDate.get(dateStr) || [];
+        const dayStart = new Date(date.getFullYear(), date.getMonth(), date.getDate());
+        const dayEnd = new Date(date.getFullYear(), date.getMonth(), date.getDate() + 1);
+        return (await this.loadDateRange(dayStart, dayEnd)).filter(e => e.date === dateStr);
     }
 
     /**
@@ -211,42 +335,40 @@ export class DataManager {
     /**
      * Save a new entry
      */
-    async createEntry(entry: Omit<TimeEntry, 'lineNumber' | 'durationMinutes' | 'startDateTime' | 'endDateTime'>): Promise<TimeEntry> {
-        const monthStr = entry.date.substring(0, 7); // YYYY-MM
-
+    async createEntry(entry: NewTimeEntry): Promise<TimeEntry> {
         // Create full entry object - parse start and end as full datetime strings
+        // (local time unless they end in a zone)
         const startDateTime = TableParser.parseDateTime(entry.start);
         const endDateTime = TableParser.parseDateTime(entry.end);
 
         if (!startDateTime || !endDateTime) {
             throw new Error(`Invalid datetime format. Expected "YYYY-MM-DD HH:mm". Got start="${entry.start}", end="${entry.end}"`);
         }
+        const timeZone = entry.timeZone ?? TableParser.parseTimeZone(entry.start);
+        this.assertValidTimeZone(timeZone);
 
         const durationMinutes = Math.round((endDateTime.getTime() - startDateTime.getTime()) / 60000);
 
         const fullEntry: TimeEntry = {
             ...entry,
+            id: entry.id || TableParser.generateId(),
+            timeZone,
             startDateTime,
             endDateTime,
             durationMinutes,
             lineNumber: 0, // Row index will be set after save
         };
 
-        // Check for overlaps
-        const existingEntries = await this.loadEntriesForDate(startDateTime);
-        if (this.hasOverlap(fullEntry, existingEntries)) {
-            throw new Error('Entry overlaps with an existing time entry');
-        }
-
-        // Load existing entries for the month, add new entry, regenerate file
-        const parsed = await this.loadMonth(monthStr);
-        const allEntries = [...parsed.entries, fullEntry];
+        // Check for overlaps across its whole span (it may run past midnight or into the next file)
+        await this.assertNoOverlap(fullEntry);
 
-        // Write the updated file
-        await this.writeMonthFile(monthStr, allEntries);
+        // Load existing entries for the entry's file, add new entry, regenerate file
+        const parsed = await this.loadPartition(this.getPartitioning().keyForEntry(fullEntry));
+        if (parsed.entries.some(e => e.id === fullEntry.id)) {
+            throw new Error(`An entry with ID "${fullEntry.id}" already exists`);
+        }
 
-        // Invalidate cache
-        this.invalidateMonth(monthStr);
+        await this.applyChanges([{ after: fullEntry }], 'Create entry');
 
         new Notice('Time entry created');
 
@@ -257,12 +379,11 @@ export class DataManager {
      * Update an existing entry
      */
     async updateEntry(oldEntry: TimeEntry, newEntry: Partial<TimeEntry>): Promise<TimeEntry> {
-        const oldMonthStr = oldEntry.date.substring(0, 7);
-
-        // Merge old and new entry data
+        // Merge old and new entry data (the ID never changes)
         const updatedEntry: TimeEntry = {
             ...oldEntry,
             ...newEntry,
+            id: oldEntry.id,
         };
 
         // Recalculate datetime if times changed
@@ -276,6 +397,7 @@ export class DataManager {
 
             updatedEntry.startDateTime = startDateTime;
             updatedEntry.endDateTime = endDateTime;
+            updatedEntry.timeZone = TableParser.parseTimeZone(updatedEntry.start) ?? updatedEntry.timeZone;
             updatedEntry.durationMinutes = Math.round(
                 (endDateTime.getTime() - startDateTime.getTime()) / 60000
             );
@@ -283,40 +405,15 @@ export class DataManager {
             updatedEntry.date = TableParser.getDateString(startDateTime);
         }
 
-        const newMonthStr = updatedEntry.date.substring(0, 7);
-        const monthChanged = oldMonthStr !== newMonthStr;
+        this.assertValidTimeZone(updatedEntry.timeZone);
 
         // Check for overlaps (excluding self)
-        const existingEntries = await this.loadEntriesForDate(updatedEntry.startDateTime);
-        const otherEntries = existingEntries.filter(e => !this.isSameEntry(e, oldEntry));
-        if (this.hasOverlap(updatedEntry, otherEntries)) {
-            throw new Error('Entry overlaps with an existing time entry');
-        }
-
-        if (monthChanged) {
-            // Month changed - need to remove from old month and add to new month
-            Logger.log('Month changed from', oldMonthStr, 'to', newMonthStr);
-
-            // Remove from old month
-            const oldParsed = await this.loadMonth(oldMonthStr);
-            const oldEntries = oldParsed.entries.filter(e => !this.isSameEntry(e, oldEntry));
-            await this.writeMonthFile(oldMonthStr, oldEntries);
-            this.invalidateMonth(oldMonthStr);
-
-            // Add to new month
-            const newParsed = await this.loadMonth(newMonthStr);
-            const newEntries = [...newParsed.entries, updatedEntry];
-            await this.writeMonthFile(newMonthStr, newEntries);
-            this.invalidateMonth(newMonthStr);
-        } else {
-            // Same month - update in place
-            const parsed = await this.loadMonth(oldMonthStr);
-            const entries = parsed.entries.map(e =>
-                this.isSameEntry(e, oldEntry) ? updatedEntry : e
-            );
-            await this.writeMonthFile(oldMonthStr, entries);
-            this.invalidateMonth(oldMonthStr);
-        }
+        await this.assertNoOverlap(updatedEntry, oldEntry);
+
+        // Moving to another month rewrites both files in one transaction
+        const moved = updatedEntry.startDateTime.getTime() !== oldEntry.startDateTime.getTime() ||
+            updatedEntry.endDateTime.getTime() !== oldEntry.endDateTime.getTime();
+        await this.applyChanges([{ before: oldEntry, after: updatedEntry }], moved ? 'Move entry' : 'Edit entry');
 
         new Notice('Time entry updated');
 
@@ -324,117 +421,588 @@ export class DataManager {
     }
 
     /**
-     * Delete an entry
+     * Delete an entry (it moves to the trash)
      */
     async deleteEntry(entry: TimeEntry): Promise<void> {
-        const monthStr = entry.date.substring(0, 7);
+        await this.applyChanges([{ before: entry }], 'Delete entry');
 
-        // Load entries, remove the one to delete, regenerate file
-        const parsed = await this.loadMonth(monthStr);
-        const entries = parsed.entries.filter(e => !this.isSameEntry(e, entry));
+        new Notice('Time entry deleted');
+    }
+
+    /**
+     * Entries matching a search filter, newest first
+     */
+    async findEntries(filter: SearchQuery): Promise<TimeEntry[]> {
+        const entries = filter.from && filter.to
+            ? await this.loadDateRange(filter.from, filter.to)
+            : await this.loadAllEntries();
+        return EntrySearch.search(entries, filter, this.settings);
+    }
 
-        await this.writeMonthFile(monthStr, entries);
+    /**
+     * Changes a bulk operation would make to the entries matching a filter, for previewing
+     */
+    async previewBulkEdit(filter: SearchQuery, operation: BulkOperation): Promise<EntryChange[]> {
+        if (!filter.text.trim() && !filter.from && !filter.to && !filter.value) {
+            throw new Error('Bulk edits need a filter (text, dates or a value)');
+        }
+        return BulkEdit.plan(await this.findEntries(filter), operation, this.settings);
+    }
 
-        // Invalidate cache
-        this.invalidateMonth(monthStr);
+    /**
+     * Apply previewed bulk changes in one transaction (one write per data file) and one undo step
+     */
+    async applyBulkEdit(changes: EntryChange[], label: string): Promise<void> {
+        if (changes.length === 0) return;
+        await Overlaps.assertNoneAfter(changes, (start, end) => this.loadDateRange(start, end));
+        await this.applyChanges(changes, label);
+    }
 
-        new Notice('Time entry deleted');
+    /**
+     * Set fields on every entry matching a filter
+     * @returns Number of entries changed
+     */
+    async bulkUpdate(filter: SearchQuery, changes: BulkFieldChanges): Promise<number> {
+        return this.bulkEdit(filter, { type: 'update', changes });
     }
 
     /**
-     * Write a month file with the given entries
+     * Move every entry matching a filter to another client (and project)
+     * @param project - New project; if not given, the current one is kept when the new client has it
+     * @returns Number of entries changed
      */
-    private async writeMonthFile(monthStr: string, entries: TimeEntry[]): Promise<void> {
-        const file = await this.getOrCreateMonthFile(monthStr);
-        const content = TableParser.generateMonthFile(entries, monthStr, this.settings.hideTablesInPreview);
-        await this.vault.modify(file, content);
+    async bulkReassign(filter: SearchQuery, client: string, project?: string): Promise<number> {
+        if (!this.settings.clients.some(c => c.id === client)) {
+            throw new Error(`Unknown client "${client}"`);
+        }
+        return this.bulkEdit(filter, { type: 'reassign', client, project });
     }
 
     /**
-     * Check if two entries are the same (based on start time and description)
+     * Move every entry matching a filter earlier or later
+     * @param minutes - Positive moves later, negative earlier
+     * @returns Number of entries changed
      */
-    private isSameEntry(a: TimeEntry, b: TimeEntry): boolean {
-        return (
-            a.startDateTime.getTime() === b.startDateTime.getTime() &&
-            a.endDateTime.getTime() === b.endDateTime.getTime() &&
-            a.description === b.description
-        );
+    async bulkShift(filter: SearchQuery, minutes: number): Promise<number> {
+        return this.bulkEdit(filter, { type: 'shift', minutes });
     }
 
     /**
-     * Check if an entry overlaps with existing entries
+     * Move every entry matching a filter to the trash
+     * @returns Number of entries deleted
      */
-    private hasOverlap(newEntry: TimeEntry, existingEntries: TimeEntry[]): boolean {
-        return existingEntries.some(existing => {
-            // Skip if same entry
-            if (this.isSameEntry(existing, newEntry)) {
-                return false;
-            }
-            // Check for overlap
-            return (
-                newEntry.startDateTime < existing.endDateTime &&
-                newEntry.endDateTime > existing.startDateTime
-            );
+    async bulkDelete(filter: SearchQuery): Promise<number> {
+        return this.bulkEdit(filter, { type: 'delete' });
+    }
+
+    private async bulkEdit(filter: SearchQuery, operation: BulkOperation): Promise<number> {
+        const changes = await this.previewBulkEdit(filter, operation);
+        await this.applyBulkEdit(changes, BulkEdit.describe(operation, changes.length));
+        return changes.length;
+    }
+
+    /**
+     * Settings and entry changes a rename or merge would make, for previewing
+     */
+    async previewTaxonomyChange(operation: TaxonomyOperation): Promise<TaxonomyPlan> {
+        return Taxonomy.plan(await this.loadAllEntries(), operation, this.settings);
+    }
+
+    /**
+     * Apply a previewed rename or merge: change the settings, then rewrite the entries, as one undo step
+     */
+    async applyTaxonomyChange(plan: TaxonomyPlan): Promise<void> {
+        await this.applyWithTaxonomy(plan.changes, plan.after);
+        this.journal.record({
+            label: plan.label,
+            changes: plan.changes,
+            settings: { before: plan.before, after: plan.after },
         });
     }
 
     /**
-     * Find all overlapping entries and classify each overlap type
-     * - startOverlap: First entry where our START falls inside
-     * - endOverlap: First entry where our END falls inside
-     * - encompassedEntry: First entry we fully encompass
+     * Entries and settings a CSV export would add through a column mapping, for previewing
      */
-    async findOverlaps(
-        start: Date,
-        end: Date,
-        excludeEntry?: TimeEntry
-    ): Promise<{
-        startOverlap: TimeEntry | null;
-        endOverlap: TimeEntry | null;
-        encompassedEntry: TimeEntry | null;
-    }> {
-        const entries = await this.loadDateRange(start, end);
-        Logger.log('DataManager.findOverlaps:', {
-            start: start.toISOString(),
-            end: end.toISOString(),
-            entriesLoaded: entries.length
+    async previewCsvImport(csv: string, mapping: CsvColumnMapping, options: CsvImportOptions): Promise<CsvImportPlan> {
+        return CsvImport.plan(csv, mapping, await this.loadAllEntries(), this.settings, options);
+    }
+
+    /**
+     * Apply a previewed CSV import: add the clients, projects and activities the
+     * entries use, then write the entries, as one undo step
+     */
+    async applyCsvImport(plan: CsvImportPlan): Promise<void> {
+        if (plan.changes.length === 0) return;
+        await Overlaps.assertNoneAfter(plan.changes, (start, end) => this.loadDateRange(start, end));
+        await this.applyWithTaxonomy(plan.changes, plan.after);
+        this.journal.record({
+            label: plan.label,
+            changes: plan.changes,
+            settings: { before: plan.before, after: plan.after },
         });
+    }
+
+    /**
+     * Apply entry changes along with a settings snapshot
+     * The settings go first, so entries of clients they add can be filed (see
+     * Partitioning.keyForWrite), and are put back if the entries can't be written.
+     */
+    private async applyWithTaxonomy(changes: EntryChange[], taxonomy?: TaxonomySettings): Promise<void> {
+        if (!taxonomy) {
+            await this.applyChanges(changes);
+            return;
+        }
+        const previous = Taxonomy.snapshot(this.settings);
+        await this.restoreTaxonomy(taxonomy);
+        try {
+            await this.applyChanges(changes);
+        } catch (err) {
+            await this.restoreTaxonomy(previous);
+            throw err;
+        }
+    }
 
-        let startOverlap: TimeEntry | null = null;
-        let endOverlap: TimeEntry | null = null;
-        let encompassedEntry: TimeEntry | null = null;
+    /**
+     * Put the clients, projects and activities back to a snapshot and save them
+     */
+    private async restoreTaxonomy(taxonomy: TaxonomySettings): Promise<void> {
+        Object.assign(this.settings, Taxonomy.snapshot(taxonomy));
+        await this.saveSettings?.();
+    }
+
+    /**
+     * Apply a set of entry changes as one transaction
+     * Every affected month file is rewritten, or none are if any write fails.
+     * Deleted entries go to the trash; entries that come back leave it.
+     * @param label - If given, the changes are recorded in the undo history under this name
+     */
+    async applyChanges(changes: EntryChange[], label?: string): Promise<void> {
+        const files = this.getPartitioning().splitChanges(changes);
+        const { deleted, present } = Trash.deletions(changes);
+
+        try {
+            await this.writeDataFiles(files, transaction =>
+                this.trash.stage(transaction, deleted, present, new Date())
+            );
+        } catch (err) {
+            if (err instanceof WriteConflictError) {
+                new Notice(`Not saved - ${err.message}. Reload and try again.`, 8000);
+            }
+            throw err;
+        }
+
+        if (label) {
+            this.journal.record({ label, changes });
+        }
+        this.emitChanges(changes);
+    }
+
+    /**
+     * Tell listeners what a saved set of changes did to each entry
+     */
+    private emitChanges(changes: EntryChange[]): void {
+        // Each entry as it was before the first change to it and after the last (null if it didn't exist)
+        const initialState = new Map<string, TimeEntry | null>();
+        const finalState = new Map<string, TimeEntry | null>();
+        for (const change of changes) {
+            const id = (change.before ?? change.after).id;
+            if (!initialState.has(id)) initialState.set(id, change.before ?? null);
+            if (change.before) finalState.set(change.before.id, null);
+            if (change.after) finalState.set(change.after.id, change.after);
+        }
+
+        for (const [id, before] of initialState) {
+            const after = finalState.get(id) ?? null;
+            if (before && after) {
+                this.emit('entry-updated', after, before);
+            } else if (after) {
+                this.emit('entry-created', after);
+            } else if (before) {
+                this.emit('entry-deleted', before);
+            }
+        }
+    }
+
+    /**
+     * Whether there is a change to undo
+     */
+    canUndo(): boolean {
+        return this.journal.canUndo();
+    }
+
+    /**
+     * Whether there is an undone change to redo
+     */
+    canRedo(): boolean {
+        return this.journal.canRedo();
+    }
+
+    /**
+     * Revert the most recent recorded change
+     * @returns true if something was undone
+     */
+    async undo(): Promise<boolean> {
+        const record = this.journal.peekUndo();
+        if (!record) {
+            new Notice('Nothing to undo');
+            return false;
+        }
+
+        try {
+            await this.replayRecord(record, OperationJournal.invert(record.changes), record.settings?.before);
+            this.journal.markUndone();
+            new Notice(`Undone: ${record.label.toLowerCase()}`);
+            return true;
+        } catch (err) {
+            Logger.error('Undo failed:', err);
+            new Notice(`Could not undo: ${err instanceof Error ? err.message : String(err)}`);
+            return false;
+        }
+    }
+
+    /**
+     * Re-apply the most recently undone change
+     * @returns true if something was redone
+     */
+    async redo(): Promise<boolean> {
+        const record = this.journal.peekRedo();
+        if (!record) {
+            new Notice('Nothing to redo');
+            return false;
+        }
+
+        try {
+            await this.replayRecord(record, record.changes, record.settings?.after);
+            this.journal.markRedone();
+            new Notice(`Redone: ${record.label.toLowerCase()}`);
+            return true;
+        } catch (err) {
+            Logger.error('Redo failed:', err);
+            new Notice(`Could not redo: ${err instanceof Error ? err.message : String(err)}`);
+            return false;
+        }
+    }
+
+    /**
+     * Apply a record's changes (or their inverse) without recording them again
+     * Refuses if an entry being put back would overlap something added since
+     * @param taxonomy - Settings the record leaves behind, if it changed them
+     */
+    private async replayRecord(record: JournalRecord, changes: EntryChange[], taxonomy?: TaxonomySettings): Promise<void> {
+        const touchedIds = new Set(
+            changes.flatMap(c => [c.before?.id, c.after?.id]).filter((id): id is string => !!id)
+        );
+
+        for (const change of changes) {
+            if (change.after && await this.overlapsOthers(change.after, touchedIds)) {
+                throw new Error(`"${record.label}" would overlap an existing time entry`);
+            }
+        }
+
+        await this.applyWithTaxonomy(changes, taxonomy);
+    }
+
+    /**
+     * Check whether an entry overlaps any stored entry other than the ignored ones
+     */
+    private async overlapsOthers(entry: TimeEntry, ignoreIds: Set<string>): Promise<boolean> {
+        const nearby = await this.loadDateRange(entry.startDateTime, entry.endDateTime);
+        return nearby.some(e => !ignoreIds.has(e.id));
+    }
+
+    /**
+     * Load deleted entries from the trash, most recently deleted first
+     */
+    async loadTrash(): Promise<TrashedEntry[]> {
+        return this.trash.load();
+    }
+
+    /**
+     * Path of the trash file (for watching changes)
+     */
+    getTrashFilePath(): string {
+        return this.trash.getFilePath();
+    }
+
+    /**
+     * Put trashed entries back into their month files
+     * Fails without restoring anything if one would overlap an existing entry or another one being restored
+     */
+    async restoreFromTrash(entries: TimeEntry[]): Promise<void> {
+        const restoringIds = new Set(entries.map(e => e.id));
+        Overlaps.assertNone(entries);
 
         for (const entry of entries) {
-            if (excludeEntry && this.isSameEntry(entry, excludeEntry)) continue;
+            const parsed = await this.loadPartition(this.getPartitioning().keyForEntry(entry));
+            if (parsed.entries.some(e => e.id === entry.id)) {
+                throw new Error(`An entry with ID "${entry.id}" already exists`);
+            }
+            if (await this.overlapsOthers(entry, restoringIds)) {
+                throw new Error(`Entry on ${entry.date} ${entry.start}–${entry.end} overlaps an existing time entry`);
+            }
+        }
+
+        const label = entries.length === 1 ? 'Restore entry' : `Restore ${entries.length} entries`;
+        await this.applyChanges(entries.map(entry => ({ after: entry })), label);
+
+        new Notice(entries.length === 1 ? 'Time entry restored' : `${entries.length} time entries restored`);
+    }
+
+    /**
+     * Permanently remove entries from the trash (not undoable)
+     */
+    async purgeFromTrash(ids: string[]): Promise<void> {
+        const transaction = new MonthTransaction(this.vault);
+        this.trash.stage(transaction, [], new Set(ids), new Date());
+        await transaction.commit();
+    }
 
-            // Check for any overlap first
-            const overlaps = start < entry.endDateTime && end > entry.startDateTime;
-            if (!overlaps) {
-                Logger.log('  vs', entry.start, '-', entry.end, ': no overlap');
-                continue;
+    /**
+     * Write changes to several data files together, restoring all of them if one fails
+     *
+     * Each file is checked against the hash recorded when it was loaded. If it
+     * changed since (sync, git, a manual edit), the changes are re-applied to the
+     * current content by ID, and anything that no longer fits is reported as a
+     * WriteConflictError instead of overwriting the newer content.
+     */
+    private async writeDataFiles(
+        files: Map<string, EntryChange[]>,
+        stageExtra?: (transaction: MonthTransaction) => void
+    ): Promise<void> {
+        if (files.size === 0) return;
+        await this.ensureFolderExists();
+
+        const loaded = new Map<string, ParsedMonth>();
+        for (const key of files.keys()) {
+            loaded.set(key, await this.loadPartition(key));
+            await this.ensureParentFolder(this.getPartitionFilePath(key));
+        }
+
+        // Rewrite only the entry table - prose, frontmatter and other tables stay put
+        const transaction = new MonthTransaction(this.vault);
+        stageExtra?.(transaction);
+        for (const [key, changes] of files) {
+            const filePath = this.getPartitionFilePath(key);
+            transaction.stage(filePath, content => {
+                const parsed = loaded.get(key);
+                const stale = Hash.fnv1a(content) !== parsed.contentHash;
+                if (stale) {
+                    Logger.log('DataManager: File changed since it was loaded, re-applying changes', filePath);
+                }
+                const base = stale ? TableParser.parseMonthFile(content, key, filePath).entries : parsed.entries;
+                const result = MonthChanges.apply(base, changes, stale);
+                if (result.conflicts.length > 0) {
+                    throw new WriteConflictError(filePath, result.conflicts);
+                }
+                const rendered = TableParser.generateMonthFile(result.entries, key, this.settings.hideTablesInPreview, content);
+                this.ownWrites.set(filePath, Hash.fnv1a(rendered));
+                return rendered;
+            });
+        }
+
+        try {
+            await transaction.commit();
+        } finally {
+            for (const key of files.keys()) {
+                this.invalidatePartition(key);
             }
+        }
+    }
 
-            // Classify the overlap type
-            const startInside = start >= entry.startDateTime && start < entry.endDateTime;
-            const endInside = end > entry.startDateTime && end <= entry.endDateTime;
+    /**
+     * Create the folder a data file goes in (client subfolders) if it's missing
+     */
+    private async ensureParentFolder(filePath: string): Promise<void> {
+        const parent = filePath.substring(0, filePath.lastIndexOf('/'));
+        if (parent && !this.vault.getAbstractFileByPath(parent)) {
+            await this.vault.createFolder(parent);
+        }
+    }
 
-            Logger.log('  vs', entry.start, '-', entry.end, ':',
-                startInside ? 'START_INSIDE' : '',
-                endInside ? 'END_INSIDE' : '',
-                (!startInside && !endInside) ? 'ENCOMPASSED' : '');
+    /**
+     * Rewrite all stored entries into the file layout of the current partitioning setting
+     *
+     * Data files in any supported layout are read, so this also picks up files
+     * left behind by an earlier switch. Where the same entry ID appears twice, the
+     * copy in a current-layout file wins. Refuses to run while any data file has
+     * rows that can't be parsed, since those would not be carried over, or when
+     * splitting per client, while an entry belongs to a client that isn't configured.
+     * @returns Counts, and the old-layout files that are no longer used (the caller removes them)
+     */
+    async repartition(): Promise<{ entries: number; files: number; obsolete: TFile[] }> {
+        const root = await this.ensureFolderExists();
+        const folderPath = this.settings.timeTrackingFolder;
+        const current = this.getPartitioning();
+        const layouts = [
+            current,
+            ...(Object.keys(PARTITION_STRATEGY_NAMES) as PartitionStrategy[])
+                .filter(strategy => strategy !== current.strategy)
+                .map(strategy => new Partitioning(strategy, this.getClientFolders())),
+        ];
+
+        // Collect every data file, current layout first
+        const allFiles = this.listMarkdownFiles(root);
+        const sources: { file: TFile; key: string; inCurrentLayout: boolean }[] = [];
+        for (const layout of layouts) {
+            for (const file of allFiles) {
+                const key = layout.keyFromPath(folderPath, file.path);
+                if (key && !sources.some(source => source.file === file)) {
+                    sources.push({ file, key, inCurrentLayout: layout === current });
+                }
+            }
+        }
 
-            if (startInside && !startOverlap) {
-                startOverlap = entry;
+        const byId = new Map<string, TimeEntry>();
+        let problems = 0;
+        for (const source of sources) {
+            const parsed = TableParser.parseMonthFile(await this.vault.read(source.file), source.key, source.file.path);
+            problems += parsed.warnings.length;
+            for (const entry of parsed.entries) {
+                if (!byId.has(entry.id)) byId.set(entry.id, entry);
             }
-            if (endInside && !endOverlap) {
-                endOverlap = entry;
+        }
+        if (problems > 0) {
+            throw new Error(`${problems} row(s) could not be parsed. Fix them (see Data problems in Reports) before re-partitioning.`);
+        }
+
+        const targets = new Map<string, TimeEntry[]>();
+        for (const entry of byId.values()) {
+            const key = current.keyForWrite(entry);
+            if (!targets.has(key)) targets.set(key, []);
+            targets.get(key).push(entry);
+        }
+        // Current-layout files that end up with no entries are emptied, not removed
+        for (const source of sources) {
+            if (source.inCurrentLayout && !targets.has(source.key)) targets.set(source.key, []);
+        }
+
+        const transaction = new MonthTransaction(this.vault);
+        for (const [key, entries] of targets) {
+            const filePath = this.getPartitionFilePath(key);
+            await this.ensureParentFolder(filePath);
+            transaction.stage(filePath, content =>
+                TableParser.generateMonthFile(entries, key, this.settings.hideTablesInPreview, content)
+            );
+        }
+
+        try {
+            await transaction.commit();
+        } finally {
+            this.clearCache();
+        }
+
+        const targetPaths = new Set([...targets.keys()].map(key => this.getPartitionFilePath(key)));
+        return {
+            entries: byId.size,
+            files: targets.size,
+            obsolete: sources.map(source => source.file).filter(file => !targetPaths.has(file.path)),
+        };
+    }
+
+    /**
+     * Data files in the current layout that normalizing would change, with their new content
+     */
+    async planNormalization(): Promise<NormalizedFile[]> {
+        const folder = this.vault.getAbstractFileByPath(this.settings.timeTrackingFolder);
+        if (!(folder instanceof TFolder)) return [];
+
+        const changed: NormalizedFile[] = [];
+        for (const file of this.listMarkdownFiles(folder)) {
+            const key = this.getPartitionKeyForPath(file.path);
+            if (!key) continue;
+            const before = await this.vault.read(file);
+            const after = FileNormalizer.normalize(before, key, this.settings);
+            if (after !== before) {
+                changed.push({ path: file.path, before, after });
             }
-            if (!startInside && !endInside && !encompassedEntry) {
-                encompassedEntry = entry;
+        }
+        return changed;
+    }
+
+    /**
+     * Write normalized files from planNormalization(). Nothing is written
+     * if any of them changed since the plan was made.
+     */
+    async applyNormalization(files: NormalizedFile[]): Promise<void> {
+        const transaction = new MonthTransaction(this.vault);
+        for (const file of files) {
+            transaction.stage(file.path, content => {
+                if (content !== file.before) {
+                    throw new WriteConflictError(file.path, ['the file changed after the preview was made']);
+                }
+                return file.after;
+            });
+        }
+
+        try {
+            await transaction.commit();
+        } finally {
+            this.clearCache();
+        }
+    }
+
+    /**
+     * All markdown files below a folder
+     */
+    private listMarkdownFiles(folder: TFolder): TFile[] {
+        const files: TFile[] = [];
+        for (const child of folder.children) {
+            if (child instanceof TFolder) {
+                files.push(...this.listMarkdownFiles(child));
+            } else if (child instanceof TFile && child.extension === 'md') {
+                files.push(child);
             }
         }
+        return files;
+    }
+
+    /**
+     * Check if two entries are the same (based on their stable ID)
+     */
+    private isSameEntry(a: TimeEntry, b: TimeEntry): boolean {
+        return a.id === b.id;
+    }
+
+    /**
+     * Throw if an entry's time zone can't be written
+     */
+    private assertValidTimeZone(timeZone: string | undefined): void {
+        if (timeZone && !TimeZones.isValid(timeZone)) {
+            throw new Error(`Unknown time zone "${timeZone}"`);
+        }
+    }
 
-        return { startOverlap, endOverlap, encompassedEntry };
+    /**
+     * Throw if an entry overlaps any stored entry other than itself
+     * Uses the same range lookup as findOverlaps, so entries on other days or in other files count.
+     */
+    private async assertNoOverlap(entry: TimeEntry, excludeEntry: TimeEntry = entry): Promise<void> {
+        const { startOverlap, endOverlap, encompassedEntry } = await this.findOverlaps(
+            entry.startDateTime,
+            entry.endDateTime,
+            excludeEntry
+        );
+        const conflict = startOverlap ?? endOverlap ?? encompassedEntry;
+        if (conflict) {
+            throw new Error(`Entry overlaps with an existing time entry (${Overlaps.describe(conflict)})`);
+        }
+    }
+
+    /**
+     * Find stored entries a span overlaps, classified by overlap type (see Overlaps.classify)
+     */
+    async findOverlaps(
+        start: Date,
+        end: Date,
+        excludeEntry?: TimeEntry
+    ): Promise<OverlapMatches> {
+        const entries = await this.loadDateRange(start, end);
+        Logger.log('DataManager.findOverlaps:', {
+            start: start.toISOString(),
+            end: end.toISOString(),
+            entriesLoaded: entries.length
+        });
+        return Overlaps.classify(start, end, entries, excludeEntry?.id);
     }
 
     /**
@@ -498,13 +1066,10 @@ export class DataManager {
 
         // Load current month and previous month
         const now = new Date();
-        const thisMonth = TableParser.getMonthString(now);
-        const lastMonth = TableParser.getMonthString(
-            new Date(now.getFullYear(), now.getMonth() - 1, 1)
-        );
+        const lastMonth = new Date(now.getFullYear(), now.getMonth() - 1, 1);
 
-        for (const monthStr of [thisMonth, lastMonth]) {
-            const parsed = await this.loadMonth(monthStr);
+        for (const key of this.getPartitionKeysForRange(lastMonth, now)) {
+            const parsed = await this.loadPartition(key);
             for (const entry of parsed.entries) {
                 if (entry.project) {
                     projects.add(entry.project);
@@ -516,10 +1081,24 @@ export class DataManager {
     }
 
     /**
-     * Get all unique tags from entries (deprecated - returns empty)
+     * Get all unique tags from recent entries (for autocomplete), most used first
      */
-    getAllTags(): string[] {
-        // Tags feature removed - return empty array
-        return [];
+    async getAllTags(): Promise<string[]> {
+        const counts = new Map<string, number>();
+
+        // Tags are reused over longer stretches than projects, so look back further
+        const now = new Date();
+        const start = new Date(now.getFullYear(), now.getMonth() - 3, 1);
+
+        for (const key of this.getPartitionKeysForRange(start, now)) {
+            const parsed = await this.loadPartition(key);
+            for (const entry of parsed.entries) {
+                for (const tag of entry.tags ?? []) {
+                    counts.set(tag, (counts.get(tag) ?? 0) + 1);
+                }
+            }
+        }
+
+        return [...counts.keys()].sort((a, b) => (counts.get(b) ?? 0) - (counts.get(a) ?? 0) || a.localeCompare(b));
     }
 }
@@ -0,0 +1,201 @@
+import type { DataAdapter, TFile } from 'obsidian';
+import type { ParsedMonth, ParseWarning, TimeEntry } from '../types';
+import { TableParser } from '../core/TableParser';
+import { Hash } from '../utils/Hash';
+import { Logger } from '../utils/Logger';
+import { TimeZones } from '../utils/TimeZones';
+
+/**
+ * Entry as stored in the index file (dates as timestamps)
+ */
+type StoredEntry = Omit<TimeEntry, 'startDateTime' | 'endDateTime'> & {
+    startTime: number;
+    endTime: number;
+};
+
+/**
+ * Parse result of one data file, with what's needed to tell if it's still current
+ */
+interface IndexRecord {
+    /** Partition key the file was parsed as */
+    key: string;
+    mtime: number;
+    size: number;
+    /** Hash of the parsed content (same as ParsedMonth.contentHash) */
+    hash: string;
+    entries: StoredEntry[];
+    warnings: ParseWarning[];
+}
+
+/**
+ * Layout of the index file
+ */
+interface IndexFile {
+    version: number;
+    /** Zone of the device that wrote it (times without a zone were read in it) */
+    timeZone: string;
+    files: Record<string, IndexRecord>;
+}
+
+/**
+ * Persistent index of parsed data files, so cold loads skip the markdown parser
+ *
+ * A record is used as-is while the file's mtime and size are unchanged. If
+ * they differ, the file is read and its hash compared; only changed content
+ * is parsed again. Records are dropped when vault events report a change.
+ * The index lives in the plugin's folder and is written back by save().
+ * It's ignored on a device in another time zone, since local times read differently there.
+ */
+export class EntryIndex {
+    /** Bump when parsing changes, so indexes written by older versions are ignored */
+    static readonly VERSION = 2;
+
+    private adapter: DataAdapter;
+    private path: string;
+    private records: Map<string, IndexRecord> | null = null;
+    private dirty = false;
+
+    constructor(adapter: DataAdapter, path: string) {
+        this.adapter = adapter;
+        this.path = path;
+    }
+
+    /**
+     * Parsed content of a data file, from the index when it's still current
+     * @param read - Reads the file content (only called when the record can't be trusted)
+     */
+    async load(file: TFile, key: string, read: () => Promise<string>): Promise<ParsedMonth> {
+        const records = await this.getRecords();
+        const record = records.get(file.path);
+        const { mtime, size } = file.stat;
+
+        if (record && record.key === key && record.mtime === mtime && record.size === size) {
+            Logger.log('EntryIndex: Hit for', file.path);
+            return EntryIndex.toParsed(record);
+        }
+
+        const content = await read();
+        const hash = Hash.fnv1a(content);
+        if (record && record.key === key && record.hash === hash) {
+            // Touched but not changed (e.g. synced back unchanged)
+            Logger.log('EntryIndex: Content unchanged for', file.path);
+            records.set(file.path, { ...record, mtime, size });
+            this.dirty = true;
+            return EntryIndex.toParsed(record);
+        }
+
+        const parsed = TableParser.parseMonthFile(content, key, file.path);
+        records.set(file.path, EntryIndex.toRecord(parsed, key, mtime, size));
+        this.dirty = true;
+        return parsed;
+    }
+
+    /**
+     * Forget a file (after it changed, moved or was deleted)
+     */
+    invalidate(path: string): void {
+        if (this.records?.delete(path)) {
+            this.dirty = true;
+        }
+    }
+
+    /**
+     * Forget every file
+     */
+    clear(): void {
+        if (this.records && this.records.size > 0) {
+            this.records.clear();
+            this.dirty = true;
+        }
+    }
+
+    /**
+     * Write the index file if anything changed since the last save
+     */
+    async save(): Promise<void> {
+        if (!this.dirty || !this.records) return;
+        const data: IndexFile = {
+            version: EntryIndex.VERSION,
+            timeZone: TimeZones.local(),
+            files: Object.fromEntries(this.records),
+        };
+        this.dirty = false;
+        try {
+            await this.adapter.write(this.path, JSON.stringify(data));
+        } catch (err) {
+            this.dirty = true;
+            Logger.error('EntryIndex: Could not save', this.path, err);
+        }
+    }
+
+    /**
+     * Records, read from the index file on first use
+     */
+    private async getRecords(): Promise<Map<string, IndexRecord>> {
+        if (this.records) return this.records;
+
+        let records = new Map<string, IndexRecord>();
+        try {
+            if (await this.adapter.exists(this.path)) {
+                const data = JSON.parse(await this.adapter.read(this.path)) as IndexFile;
+                if (data.version !== EntryIndex.VERSION) {
+                    Logger.log('EntryIndex: Ignoring index from another version');
+                } else if (data.timeZone !== TimeZones.local()) {
+                    Logger.log('EntryIndex: Ignoring index written in another time zone');
+                } else {
+                    records = new Map(Object.entries(data.files));
+                }
+            }
+        } catch (err) {
+            // A broken index is only a missed shortcut - start over
+            Logger.warn('EntryIndex: Could not read', this.path, err);
+        }
+
+        // Another load may have finished while this one was reading
+        this.records ??= records;
+        return this.records;
+    }
+
+    private static toRecord(parsed: ParsedMonth, key: string, mtime: number, size: number): IndexRecord {
+        return {
+            key,
+            mtime,
+            size,
+            hash: parsed.contentHash,
+            entries: parsed.entries.map(({ startDateTime, endDateTime, ...rest }) => ({
+                ...rest,
+                startTime: startDateTime.getTime(),
+                endTime: endDateTime.getTime(),
+            })),
+            warnings: parsed.warnings,
+        };
+    }
+
+    private static toParsed(record: IndexRecord): ParsedMonth {
+        const entries: TimeEntry[] = [];
+        const entriesByDate = new Map<string, TimeEntry[]>();
+        for (const { startTime, endTime, ...rest } of record.entries) {
+            // Fresh copies, so callers can't modify the index through the result
+            const entry: TimeEntry = {
+                ...rest,
+                tags: rest.tags && [...rest.tags],
+                extraFields: rest.extraFields && { ...rest.extraFields },
+                startDateTime: new Date(startTime),
+                endDateTime: new Date(endTime),
+            };
+            entries.push(entry);
+            if (!entriesByDate.has(entry.date)) {
+                entriesByDate.set(entry.date, []);
+            }
+            entriesByDate.get(entry.date).push(entry);
+        }
+
+        return {
+            month: record.key,
+            entries,
+            entriesByDate,
+            warnings: record.warnings.map(w => ({ ...w })),
+            contentHash: record.hash,
+        };
+    }
+}
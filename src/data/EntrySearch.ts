@@ -0,0 +1,83 @@
+import type { TimeEntry, TimeTrackerSettings } from '../types';
+import { ReportDimension, ReportDimensions } from './ReportDimensions';
+import { TableParser } from '../core/TableParser';
+
+/**
+ * What to search for
+ */
+export interface SearchQuery {
+    /** Words that must all appear (case-insensitive) */
+    text: string;
+    /** Only entries overlapping this range (either bound can be left open) */
+    from?: Date;
+    to?: Date;
+    /** Only entries with this value for a report dimension */
+    dimension?: ReportDimension;
+    value?: string;
+}
+
+/**
+ * Matching entries of one day
+ */
+export interface SearchDay {
+    /** YYYY-MM-DD */
+    date: string;
+    entries: TimeEntry[];
+    totalMinutes: number;
+}
+
+/**
+ * Full-text search over entries
+ *
+ * Looks at the description, client (name and ID), project, activity, tags
+ * and linked note. Every word of the query has to appear somewhere.
+ */
+export class EntrySearch {
+    /**
+     * Entries matching a query, newest first
+     */
+    static search(entries: TimeEntry[], query: SearchQuery, settings: TimeTrackerSettings): TimeEntry[] {
+        const words = query.text.toLowerCase().split(/\s+/).filter(Boolean);
+        return entries
+            .filter(entry => {
+                if (query.from && entry.endDateTime <= query.from) return false;
+                if (query.to && entry.startDateTime >= query.to) return false;
+                if (query.dimension && query.value && !ReportDimensions.matches(entry, query.dimension, query.value)) {
+                    return false;
+                }
+                const haystack = EntrySearch.searchableText(entry, settings);
+                return words.every(word => haystack.includes(word));
+            })
+            .sort((a, b) => b.startDateTime.getTime() - a.startDateTime.getTime());
+    }
+
+    /**
+     * Group results by the day they start, keeping their order
+     */
+    static groupByDay(entries: TimeEntry[]): SearchDay[] {
+        const days = new Map<string, SearchDay>();
+        for (const entry of entries) {
+            const day = days.get(entry.date) ?? { date: entry.date, entries: [], totalMinutes: 0 };
+            day.entries.push(entry);
+            day.totalMinutes += entry.durationMinutes;
+            days.set(entry.date, day);
+        }
+        return [...days.values()];
+    }
+
+    /**
+     * Lowercased text of every searchable field
+     */
+    private static searchableText(entry: TimeEntry, settings: TimeTrackerSettings): string {
+        const client = settings.clients.find(c => c.id === entry.client);
+        return [
+            entry.description,
+            entry.client,
+            client?.name,
+            entry.project,
+            entry.activity,
+            TableParser.formatTags(entry.tags),
+            entry.linkedNote,
+        ].filter(Boolean).join('\n').toLowerCase();
+    }
+}
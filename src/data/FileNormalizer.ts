@@ -0,0 +1,108 @@
+import type { TimeEntry, TimeTrackerSettings } from '../types';
+import { TableParser } from '../core/TableParser';
+
+/**
+ * A data file and what normalizing it would write
+ */
+export interface NormalizedFile {
+    path: string;
+    /** Content the preview was made from */
+    before: string;
+    after: string;
+}
+
+/**
+ * Rewrites hand-edited data files into the form the plugin writes itself
+ *
+ * Rows are sorted, dates and times written as "YYYY-MM-DD HH:mm", cells
+ * trimmed and missing columns and the file header restored. Clients typed
+ * by name become their IDs. Projects typed by ID or in another case become
+ * their configured name instead: that is the form the entry form, renames and
+ * imports write, and reports and invoices group projects by the stored value,
+ * so IDs would split a project in two. Start and end times typed loosely
+ * ("2025-1-5 9:00", "2025-01-05T09:00", "09:00:00") are read too, see
+ * readDateTime(). Rows that still can't be read are kept as they are.
+ */
+export class FileNormalizer {
+    /** The warning block written by TableParser.getFileHeader(), from any version */
+    private static readonly HEADER_PATTERN = /^%%\r?\n⚠️ WARNING: This file is managed by[\s\S]*?\r?\n%%\r?\n/m;
+    /** A hand-typed datetime: one-digit parts, a "T" separator, seconds and an attached offset are allowed */
+    private static readonly LOOSE_DATE_TIME_PATTERN = /^(\d{4})-(\d{1,2})-(\d{1,2})(?:\s+|T)(\d{1,2}):(\d{2})(?::\d{2})?(?:\s*([+-]\d{2}:\d{2})|\s+([A-Za-z_]+(?:\/[A-Za-z0-9_+-]+)*))?$/;
+    /** The start and end cells at the beginning of a table row */
+    private static readonly ROW_START_PATTERN = /^(\s*\|)([^|]*)\|([^|]*)\|/;
+
+    /**
+     * Normalized content of a data file
+     */
+    static normalize(content: string, key: string, settings: TimeTrackerSettings): string {
+        const readable = content.split('\n').map(line => FileNormalizer.withReadableTimes(line)).join('\n');
+        const entries = TableParser.parseMonthFile(readable, key).entries
+            .map(entry => FileNormalizer.canonicalize(entry, settings));
+        const generated = TableParser.generateMonthFile(entries, key, settings.hideTablesInPreview, readable);
+        return FileNormalizer.withFileHeader(generated);
+    }
+
+    /**
+     * A loosely typed datetime as "YYYY-MM-DD HH:mm" (with its zone, if any), or null if it isn't one
+     * Only the normalizer reads these - everywhere else the stored form stays strict.
+     */
+    static readDateTime(text: string): string | null {
+        const match = text.trim().match(FileNormalizer.LOOSE_DATE_TIME_PATTERN);
+        if (!match) return null;
+
+        const [year, month, day, hours, minutes] = match.slice(1, 6).map(Number);
+        const date = new Date(year, month - 1, day);
+        if (date.getMonth() !== month - 1 || date.getDate() !== day || hours > 23 || minutes > 59) return null;
+
+        const pad = (n: number) => String(n).padStart(2, '0');
+        const zone = match[6] ?? match[7];
+        return `${year}-${pad(month)}-${pad(day)} ${pad(hours)}:${pad(minutes)}${zone ? ` ${zone}` : ''}`;
+    }
+
+    /**
+     * Table row with loosely typed start and end cells rewritten so the parser can read them
+     */
+    private static withReadableTimes(line: string): string {
+        return line.replace(FileNormalizer.ROW_START_PATTERN, (row, lead: string, start: string, end: string) => {
+            const cell = (text: string) => {
+                const dateTime = FileNormalizer.readDateTime(text);
+                return dateTime && dateTime !== text.trim() ? ` ${dateTime} ` : text;
+            };
+            return `${lead}${cell(start)}|${cell(end)}|`;
+        });
+    }
+
+    /**
+     * Entry with its client as an ID and its project as a configured name, where they can be matched
+     * (projects are stored by name, see the class comment)
+     */
+    static canonicalize(entry: TimeEntry, settings: TimeTrackerSettings): TimeEntry {
+        const clientValue = entry.client.toLowerCase();
+        const client = settings.clients.find(c => c.id === entry.client) ??
+            settings.clients.find(c => c.name.toLowerCase() === clientValue || c.id.toLowerCase() === clientValue);
+        const clientId = client?.id ?? entry.client;
+
+        let project = entry.project;
+        if (project) {
+            const projectValue = project.toLowerCase();
+            const matches = settings.projects.filter(p => p.name.toLowerCase() === projectValue || p.id.toLowerCase() === projectValue);
+            // Several clients can have a project of the same name; prefer the entry's own
+            const match = matches.find(p => p.clientId === clientId) ?? (matches.length === 1 ? matches[0] : undefined);
+            if (match) project = match.name;
+        }
+
+        return { ...entry, client: clientId, project };
+    }
+
+    /**
+     * Content with the current file header, replacing an older one or added after the frontmatter
+     */
+    private static withFileHeader(content: string): string {
+        const header = TableParser.getFileHeader();
+        if (FileNormalizer.HEADER_PATTERN.test(content)) {
+            return content.replace(FileNormalizer.HEADER_PATTERN, header);
+        }
+        const frontmatter = content.match(/^---\r?\n[\s\S]*?\r?\n---\r?\n/)?.[0] ?? '';
+        return `${frontmatter}${header}\n${content.slice(frontmatter.length)}`;
+    }
+}
@@ -0,0 +1,193 @@
+import { App, TFile, TFolder } from 'obsidian';
+import { Logger } from '../utils/Logger';
+
+/**
+ * One file to move
+ */
+export interface FileMove {
+    from: string;
+    to: string;
+}
+
+/**
+ * Everything a folder move will do, worked out before touching the vault
+ */
+export interface RelocationPlan {
+    /** Current time tracking folder */
+    from: string;
+    /** New time tracking folder */
+    to: string;
+    /** Files to move (data files, Notes, trash, and anything else in the folder) */
+    moves: FileMove[];
+    /** Invoice folder setting after the move (unchanged if it isn't inside the data folder) */
+    invoiceFolder: string;
+    /** Target paths that already exist - the move is refused while there are any */
+    collisions: string[];
+}
+
+/**
+ * Moves the time tracking folder to a new location
+ *
+ * Files are moved one by one through the file manager, so links to them from
+ * other notes follow along. Linked note wikilinks in the data tables are then
+ * rewritten from the old Notes folder to the new one (the tables are usually
+ * hidden in %% comments, where Obsidian doesn't update links by itself).
+ * If any step fails, the links are put back and the files moved back.
+ */
+export class FolderRelocation {
+    private app: App;
+
+    constructor(app: App) {
+        this.app = app;
+    }
+
+    /**
+     * Work out the moves and collisions for relocating a folder
+     */
+    plan(from: string, to: string, invoiceFolder: string): RelocationPlan {
+        const target = FolderRelocation.cleanPath(to);
+        if (!target) {
+            throw new Error('Enter a folder name');
+        }
+        if (target === from) {
+            throw new Error(`Time entries are already stored in "${from}"`);
+        }
+        if (FolderRelocation.isInside(target, from) || FolderRelocation.isInside(from, target)) {
+            throw new Error(`Can't move "${from}" to "${target}": one folder is inside the other`);
+        }
+
+        const moves: FileMove[] = [];
+        const folder = this.app.vault.getAbstractFileByPath(from);
+        if (folder instanceof TFolder) {
+            for (const file of this.listFiles(folder)) {
+                moves.push({ from: file.path, to: FolderRelocation.mapPath(file.path, from, target) ?? file.path });
+            }
+        }
+
+        return {
+            from,
+            to: target,
+            moves,
+            invoiceFolder: FolderRelocation.mapPath(invoiceFolder, from, target) ?? invoiceFolder,
+            collisions: moves.map(m => m.to).filter(path => this.app.vault.getAbstractFileByPath(path) !== null),
+        };
+    }
+
+    /**
+     * Move the files in a plan and rewrite linked note links, undoing both on failure
+     */
+    async execute(plan: RelocationPlan): Promise<void> {
+        if (plan.collisions.length > 0) {
+            throw new Error(`${plan.collisions.length} file(s) already exist in "${plan.to}"`);
+        }
+
+        await this.ensureFolder(plan.to);
+        const done: FileMove[] = [];
+        const rewritten: { path: string; content: string }[] = [];
+        try {
+            for (const move of plan.moves) {
+                const file = this.app.vault.getAbstractFileByPath(move.from);
+                if (!(file instanceof TFile)) continue;
+                await this.ensureFolder(move.to.substring(0, move.to.lastIndexOf('/')));
+                await this.app.fileManager.renameFile(file, move.to);
+                done.push(move);
+            }
+
+            for (const move of done) {
+                const file = this.app.vault.getAbstractFileByPath(move.to);
+                if (!(file instanceof TFile) || file.extension !== 'md') continue;
+                const content = await this.app.vault.read(file);
+                const updated = FolderRelocation.rewriteNoteLinks(content, plan.from, plan.to);
+                if (updated === content) continue;
+                rewritten.push({ path: move.to, content });
+                await this.app.vault.modify(file, updated);
+            }
+        } catch (err) {
+            Logger.error('FolderRelocation: Move failed, putting files back', err);
+            await this.rollback(done, rewritten);
+            throw err;
+        }
+
+        // Remove the old folder if nothing but empty subfolders is left
+        const old = this.app.vault.getAbstractFileByPath(plan.from);
+        if (old instanceof TFolder && this.listFiles(old).length === 0) {
+            await this.app.fileManager.trashFile(old);
+        }
+    }
+
+    /**
+     * Restore rewritten files, then move files back, newest first
+     * Keeps going past failures so as much as possible is put back.
+     */
+    private async rollback(done: FileMove[], rewritten: { path: string; content: string }[]): Promise<void> {
+        for (const { path, content } of [...rewritten].reverse()) {
+            const file = this.app.vault.getAbstractFileByPath(path);
+            if (!(file instanceof TFile)) continue;
+            try {
+                await this.app.vault.modify(file, content);
+            } catch (rollbackErr) {
+                Logger.error('FolderRelocation: Failed to restore links in', path, rollbackErr);
+            }
+        }
+        for (const move of [...done].reverse()) {
+            const file = this.app.vault.getAbstractFileByPath(move.to);
+            if (!(file instanceof TFile)) continue;
+            try {
+                await this.app.fileManager.renameFile(file, move.from);
+            } catch (rollbackErr) {
+                Logger.error('FolderRelocation: Failed to move back', move.to, rollbackErr);
+            }
+        }
+    }
+
+    /**
+     * Path after moving folder from to folder to, or null if it isn't inside from
+     */
+    static mapPath(path: string, from: string, to: string): string | null {
+        if (path === from) return to;
+        if (!FolderRelocation.isInside(path, from)) return null;
+        return `${to}${path.slice(from.length)}`;
+    }
+
+    /**
+     * Point [[from/Notes/...]] wikilinks at the Notes folder under to
+     */
+    static rewriteNoteLinks(content: string, from: string, to: string): string {
+        return content.split(`[[${from}/Notes/`).join(`[[${to}/Notes/`);
+    }
+
+    /**
+     * Trim whitespace and surrounding slashes from a folder path
+     */
+    static cleanPath(path: string): string {
+        return path.trim().replace(/^\/+|\/+$/g, '');
+    }
+
+    private static isInside(path: string, folder: string): boolean {
+        return path.startsWith(`${folder}/`);
+    }
+
+    /**
+     * All files below a folder
+     */
+    private listFiles(folder: TFolder): TFile[] {
+        const files: TFile[] = [];
+        for (const child of folder.children) {
+            if (child instanceof TFolder) {
+                files.push(...this.listFiles(child));
+            } else if (child instanceof TFile) {
+                files.push(child);
+            }
+        }
+        return files;
+    }
+
+    /**
+     * Create a folder and its parents if missing
+     */
+    private async ensureFolder(path: string): Promise<void> {
+        if (!path || this.app.vault.getAbstractFileByPath(path)) return;
+        await this.ensureFolder(path.substring(0, path.lastIndexOf('/')));
+        await this.app.vault.createFolder(path);
+    }
+}
@@ -0,0 +1,173 @@
+import type { EntryChange, TimeEntry, TimeTrackerSettings } from '../types';
+import { TableParser } from '../core/TableParser';
+
+/**
+ * Kind of problem found in stored entries
+ */
+export type IntegrityProblem =
+    | 'overlap'
+    | 'unknown-client'
+    | 'unknown-project'
+    | 'project-wrong-client'
+    | 'unknown-activity'
+    | 'non-positive-duration'
+    | 'long-entry'
+    | 'broken-link';
+
+/**
+ * A one-click repair for a finding
+ */
+export interface IntegrityFix {
+    /** Button text, e.g. "Remove link" */
+    label: string;
+    /** The change to apply (goes through the normal save path, so it can be undone) */
+    change: EntryChange;
+}
+
+/**
+ * One problem with one entry
+ */
+export interface IntegrityFinding {
+    problem: IntegrityProblem;
+    entry: TimeEntry;
+    /** Human readable explanation */
+    message: string;
+    fix?: IntegrityFix;
+}
+
+/**
+ * Scans stored entries for problems that slip past the entry form,
+ * usually from hand edits, sync conflicts or settings changes
+ */
+export class IntegrityChecker {
+    /** Entries longer than this are flagged for a second look */
+    static readonly LONG_ENTRY_HOURS = 12;
+
+    /**
+     * Check entries against each other and against the settings
+     * @param noteExists - Whether a linked note path resolves to a file in the vault
+     */
+    static check(
+        entries: TimeEntry[],
+        settings: TimeTrackerSettings,
+        noteExists: (link: string) => boolean
+    ): IntegrityFinding[] {
+        const findings: IntegrityFinding[] = [];
+        for (const entry of entries) {
+            findings.push(...IntegrityChecker.checkEntry(entry, settings, noteExists));
+        }
+        findings.push(...IntegrityChecker.findOverlaps(entries));
+        return findings.sort((a, b) => a.entry.startDateTime.getTime() - b.entry.startDateTime.getTime());
+    }
+
+    /**
+     * Problems an entry has on its own
+     */
+    private static checkEntry(
+        entry: TimeEntry,
+        settings: TimeTrackerSettings,
+        noteExists: (link: string) => boolean
+    ): IntegrityFinding[] {
+        const findings: IntegrityFinding[] = [];
+        const add = (problem: IntegrityProblem, message: string, fix?: IntegrityFix) => {
+            findings.push({ problem, entry, message, fix });
+        };
+        const update = (label: string, changes: Partial<TimeEntry>): IntegrityFix => ({
+            label,
+            change: { before: entry, after: { ...entry, ...changes } },
+        });
+
+        if (entry.durationMinutes <= 0) {
+            add('non-positive-duration',
+                entry.durationMinutes === 0 ? 'Entry has no duration' : 'Entry ends before it starts',
+                { label: 'Delete entry', change: { before: entry } });
+        } else if (entry.durationMinutes > IntegrityChecker.LONG_ENTRY_HOURS * 60) {
+            add('long-entry', `Entry is ${Math.round(entry.durationMinutes / 6) / 10} hours long`);
+        }
+
+        const client = settings.clients.find(c => c.id === entry.client || c.name === entry.client);
+        if (!client) {
+            add('unknown-client', `Client "${entry.client}" no longer exists`);
+        }
+
+        if (entry.project) {
+            const matches = settings.projects.filter(p => p.name === entry.project || p.id === entry.project);
+            if (matches.length === 0) {
+                add('unknown-project', `Project "${entry.project}" no longer exists`,
+                    update('Clear project', { project: undefined }));
+            } else if (client && !matches.some(p => p.clientId === client.id)) {
+                // Only offer the move when it's clear which client the project belongs to
+                const owners = settings.clients.filter(c => matches.some(p => p.clientId === c.id));
+                add('project-wrong-client', `Project "${entry.project}" belongs to ${owners.map(c => c.name).join(' / ') || 'another client'}, not ${client.name}`,
+                    owners.length === 1
+                        ? update(`Move to ${owners[0].name}`, { client: owners[0].id })
+                        : update('Clear project', { project: undefined }));
+            }
+        }
+
+        if (entry.activity && !settings.activities.some(a => a.name === entry.activity || a.id === entry.activity)) {
+            add('unknown-activity', `Activity "${entry.activity}" no longer exists`,
+                update('Clear activity', { activity: undefined }));
+        }
+
+        if (entry.linkedNote && !noteExists(IntegrityChecker.linkPath(entry.linkedNote))) {
+            add('broken-link', `Linked note "${entry.linkedNote}" doesn't exist`,
+                update('Remove link', { linkedNote: undefined }));
+        }
+
+        return findings;
+    }
+
+    /**
+     * Every pair of entries that overlap, reported on the one that starts first
+     */
+    private static findOverlaps(entries: TimeEntry[]): IntegrityFinding[] {
+        const findings: IntegrityFinding[] = [];
+        const sorted = entries
+            .filter(e => e.durationMinutes > 0)
+            .sort((a, b) => a.startDateTime.getTime() - b.startDateTime.getTime());
+
+        for (let i = 0; i < sorted.length; i++) {
+            const entry = sorted[i];
+            // Sorted by start, so only later entries starting before this one ends can overlap
+            for (let j = i + 1; j < sorted.length && sorted[j].startDateTime < entry.endDateTime; j++) {
+                const other = sorted[j];
+                const message = `Overlaps ${TableParser.formatDateTime(other.startDateTime)} – ${TableParser.formatDateTime(other.endDateTime)}` +
+                    (other.description ? ` (${other.description})` : '');
+                const canTrim = other.startDateTime > entry.startDateTime;
+                findings.push({
+                    problem: 'overlap',
+                    entry,
+                    message,
+                    fix: canTrim ? IntegrityChecker.trimEnd(entry, other.startDateTime) : undefined,
+                });
+            }
+        }
+        return findings;
+    }
+
+    /**
+     * Fix that ends an entry earlier
+     */
+    private static trimEnd(entry: TimeEntry, end: Date): IntegrityFix {
+        return {
+            label: `End at ${TableParser.formatTime(end)}`,
+            change: {
+                before: entry,
+                after: {
+                    ...entry,
+                    end: TableParser.formatTime(end),
+                    endDateTime: new Date(end),
+                    durationMinutes: Math.round((end.getTime() - entry.startDateTime.getTime()) / 60000),
+                },
+            },
+        };
+    }
+
+    /**
+     * Note path of a wikilink target, without an alias or heading
+     */
+    private static linkPath(link: string): string {
+        return link.split('|')[0].split('#')[0].trim();
+    }
+}
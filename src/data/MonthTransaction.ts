@@ -0,0 +1,106 @@
+import { TFile, Vault } from 'obsidian';
+import { Logger } from '../utils/Logger';
+
+/**
+ * A staged write: the new file content is rendered from the current content
+ */
+type ContentRenderer = (content: string) => string;
+
+/**
+ * Snapshot of a file taken before a transaction writes to it
+ */
+interface FileSnapshot {
+    path: string;
+    /** Content before the write, or null if the file didn't exist */
+    content: string | null;
+}
+
+/**
+ * Groups writes to several files so they succeed or fail together
+ *
+ * Writes are staged first, then every new file content is rendered before
+ * anything touches the vault. If a write fails part way, files already
+ * written are restored to their previous content (or removed if the
+ * transaction created them) and the original error is rethrown.
+ */
+export class MonthTransaction {
+    private vault: Vault;
+    private staged: Map<string, ContentRenderer> = new Map();
+
+    constructor(vault: Vault) {
+        this.vault = vault;
+    }
+
+    /**
+     * Stage a write to a file. Staging the same path again replaces the earlier write.
+     * The renderer receives the current content ('' if the file doesn't exist yet).
+     */
+    stage(path: string, render: ContentRenderer): void {
+        this.staged.set(path, render);
+    }
+
+    /**
+     * Render and apply all staged writes, rolling back on failure
+     */
+    async commit(): Promise<void> {
+        // Render everything up front so a bad renderer aborts before any write
+        const snapshots: FileSnapshot[] = [];
+        const rendered = new Map<string, string>();
+        for (const [path, render] of this.staged) {
+            const file = this.getFile(path);
+            const content = file ? await this.vault.read(file) : null;
+            snapshots.push({ path, content });
+            rendered.set(path, render(content ?? ''));
+        }
+
+        const applied: FileSnapshot[] = [];
+        for (const snapshot of snapshots) {
+            const content = rendered.get(snapshot.path) ?? '';
+            try {
+                if (snapshot.content === null) {
+                    await this.vault.create(snapshot.path, content);
+                } else if (content !== snapshot.content) {
+                    const file = this.getFile(snapshot.path);
+                    if (!file) throw new Error(`"${snapshot.path}" was removed during the write`);
+                    await this.vault.modify(file, content);
+                }
+                applied.push(snapshot);
+            } catch (error) {
+                Logger.error('MonthTransaction: Write failed for', snapshot.path, error);
+                await this.rollback(applied);
+                throw error;
+            }
+        }
+
+        this.staged.clear();
+    }
+
+    /**
+     * Restore files written so far, newest first
+     */
+    private async rollback(applied: FileSnapshot[]): Promise<void> {
+        for (const snapshot of [...applied].reverse()) {
+            try {
+                const file = this.getFile(snapshot.path);
+                if (!file) continue;
+                if (snapshot.content === null) {
+                    // eslint-disable-next-line obsidianmd/prefer-file-manager-trash-file -- undoing our own create, not a user deletion
+                    await this.vault.delete(file);
+                } else {
+                    await this.vault.modify(file, snapshot.content);
+                }
+            } catch (error) {
+                // Keep going - restoring the other files still matters
+                Logger.error('MonthTransaction: Rollback failed for', snapshot.path, error);
+            }
+        }
+    }
+
+    /**
+     * Get a file by path, ignoring folders
+     */
+    private getFile(path: string): TFile | null {
+        const file = this.vault.getAbstractFileByPath(path);
+        return file instanceof TFile ? file : null;
+    }
+}
@@ -0,0 +1,96 @@
+import type { EntryChange } from '../types';
+import type { TaxonomySettings } from './Taxonomy';
+
+/**
+ * One undoable user action (may touch several entries)
+ */
+export interface JournalRecord {
+    /** Short description shown in notices, e.g. "Move entry" */
+    label: string;
+    /** Changes applied by the action, in order */
+    changes: EntryChange[];
+    /** Clients, projects and activities before and after the action (renames and merges only) */
+    settings?: { before: TaxonomySettings; after: TaxonomySettings };
+}
+
+/**
+ * Undo/redo history of entry mutations
+ *
+ * Lives on DataManager so it outlasts individual views; it is not persisted,
+ * so history lasts for the current session only.
+ */
+export class OperationJournal {
+    /** Oldest records are dropped past this size */
+    private static readonly MAX_RECORDS = 100;
+
+    private undoStack: JournalRecord[] = [];
+    private redoStack: JournalRecord[] = [];
+
+    /**
+     * Record a new action. Clears the redo history.
+     */
+    record(record: JournalRecord): void {
+        if (record.changes.length === 0 && !record.settings) return;
+        this.undoStack.push(record);
+        if (this.undoStack.length > OperationJournal.MAX_RECORDS) {
+            this.undoStack.shift();
+        }
+        this.redoStack = [];
+    }
+
+    canUndo(): boolean {
+        return this.undoStack.length > 0;
+    }
+
+    canRedo(): boolean {
+        return this.redoStack.length > 0;
+    }
+
+    /**
+     * The action the next undo would revert
+     */
+    peekUndo(): JournalRecord | undefined {
+        return this.undoStack[this.undoStack.length - 1];
+    }
+
+    /**
+     * The action the next redo would re-apply
+     */
+    peekRedo(): JournalRecord | undefined {
+        return this.redoStack[this.redoStack.length - 1];
+    }
+
+    /**
+     * Move the latest action to the redo stack (call after it was reverted)
+     */
+    markUndone(): void {
+        const record = this.undoStack.pop();
+        if (record) this.redoStack.push(record);
+    }
+
+    /**
+     * Move the latest undone action back to the undo stack (call after it was re-applied)
+     */
+    markRedone(): void {
+        const record = this.redoStack.pop();
+        if (record) this.undoStack.push(record);
+    }
+
+    /**
+     * Forget all history (e.g. after the data folder moves)
+     */
+    clear(): void {
+        this.undoStack = [];
+        this.redoStack = [];
+    }
+
+    /**
+     * Changes that revert a record: swap before/after and apply in reverse order
+     */
+    static invert(changes: EntryChange[]): EntryChange[] {
+        return [...changes].reverse().map(change => ({
+            before: change.after,
+            after: change.before,
+        }));
+    }
+}
@@ -0,0 +1,110 @@
+import type { TimeEntry, TimeTrackerSettings } from '../types';
+import { CustomFields } from './CustomFields';
+import { TableParser } from '../core/TableParser';
+import { Billing } from '../core/Billing';
+
+/** Label for entries without a value */
+export const NO_VALUE = '(None)';
+
+/**
+ * Something entries can be grouped or filtered by
+ */
+export interface ReportDimension {
+    /** 'client', 'project', 'activity', 'tag', 'billable' or 'field:<custom field id>' */
+    id: string;
+    /** Display name */
+    label: string;
+    /** Values of an entry for this dimension ([NO_VALUE] if empty) - only tags have more than one */
+    valuesOf: (entry: TimeEntry) => string[];
+    /** Whether an entry can have several values, so groups overlap */
+    multiValue?: boolean;
+}
+
+/**
+ * One group of entries sharing a dimension value
+ */
+export interface DimensionGroup {
+    value: string;
+    totalMinutes: number;
+    entryCount: number;
+}
+
+/**
+ * Group-by and filter dimensions for reports: the built-in fields plus custom fields
+ */
+export class ReportDimensions {
+    /**
+     * All dimensions available with the current settings
+     */
+    static forSettings(settings: TimeTrackerSettings): ReportDimension[] {
+        const dimensions: ReportDimension[] = [
+            {
+                id: 'client',
+                label: 'Client',
+                valuesOf: entry => [settings.clients.find(c => c.id === entry.client)?.name ?? entry.client],
+            },
+            { id: 'project', label: 'Project', valuesOf: entry => [entry.project || NO_VALUE] },
+            { id: 'activity', label: 'Activity', valuesOf: entry => [entry.activity || NO_VALUE] },
+            {
+                id: 'tag',
+                label: 'Tag',
+                valuesOf: entry => entry.tags?.length ? entry.tags.map(tag => TableParser.formatTags([tag])) : [NO_VALUE],
+                multiValue: true,
+            },
+            {
+                id: 'billable',
+                label: 'Billable',
+                valuesOf: entry => [Billing.isBillable(entry, settings) ? 'Billable' : 'Non-billable'],
+            },
+        ];
+
+        for (const field of settings.customFields) {
+            dimensions.push({
+                id: `field:${field.id}`,
+                label: field.name,
+                valuesOf: entry => {
+                    const value = CustomFields.getValue(entry, field);
+                    // Unchecked booleans count as "No", not as missing
+                    if (field.type === 'boolean') return [CustomFields.formatValue(field, value)];
+                    return [value || NO_VALUE];
+                },
+            });
+        }
+
+        return dimensions;
+    }
+
+    /**
+     * Distinct values of a dimension, sorted
+     */
+    static distinctValues(entries: TimeEntry[], dimension: ReportDimension): string[] {
+        return [...new Set(entries.flatMap(dimension.valuesOf))].sort((a, b) => a.localeCompare(b));
+    }
+
+    /**
+     * Whether an entry has a value for a dimension
+     */
+    static matches(entry: TimeEntry, dimension: ReportDimension, value: string): boolean {
+        return dimension.valuesOf(entry).includes(value);
+    }
+
+    /**
+     * Total time per dimension value, largest first
+     * An entry with several values (tags) counts towards each of them.
+     * @param minutesOf - Duration to count for an entry (e.g. clipped to the report range)
+     */
+    static group(entries: TimeEntry[], dimension: ReportDimension, minutesOf: (entry: TimeEntry) => number): DimensionGroup[] {
+        const groups = new Map<string, DimensionGroup>();
+        for (const entry of entries) {
+            const minutes = minutesOf(entry);
+            if (minutes <= 0) continue;
+            for (const value of dimension.valuesOf(entry)) {
+                const group = groups.get(value) ?? { value, totalMinutes: 0, entryCount: 0 };
+                group.totalMinutes += minutes;
+                group.entryCount++;
+                groups.set(value, group);
+            }
+        }
+        return [...groups.values()].sort((a, b) => b.totalMinutes - a.totalMinutes);
+    }
+}
@@ -0,0 +1,216 @@
+import type { EntryChange, TimeEntry, TimeTrackerSettings } from '../types';
+import { Billing } from '../core/Billing';
+
+export type TaxonomyKind = 'client' | 'project' | 'activity';
+
+/**
+ * A rename or merge of a configured client, project or activity
+ * - rename: give a project or activity a new name (clients are stored by ID, so renaming one needs no rewrite)
+ * - merge: fold one item into another of the same kind, then remove it
+ */
+export type TaxonomyOperation =
+    | { type: 'rename'; kind: 'project' | 'activity'; id: string; name: string }
+    | { type: 'merge'; kind: TaxonomyKind; id: string; intoId: string };
+
+/**
+ * The parts of the settings a rename or merge changes
+ */
+export type TaxonomySettings = Pick<TimeTrackerSettings,
+    'clients' | 'projects' | 'activities' | 'customFields' | 'defaultProject' | 'defaultActivity'>;
+
+/**
+ * Everything a rename or merge does, worked out before anything is written
+ */
+export interface TaxonomyPlan {
+    /** Name for the undo history and notices */
+    label: string;
+    /** Rows to rewrite */
+    changes: EntryChange[];
+    /** Settings before the operation */
+    before: TaxonomySettings;
+    /** Settings after the operation */
+    after: TaxonomySettings;
+}
+
+interface NamedItem {
+    id: string;
+    name: string;
+    clientId?: string;
+}
+
+/**
+ * Renames and merges of clients, projects and activities, applied to both the
+ * settings and the entries that use them
+ *
+ * Entries store clients by ID and projects and activities by name (older rows
+ * may hold a project or activity ID), so every form of the old value is
+ * matched and rewritten to the current name.
+ */
+export class Taxonomy {
+    /**
+     * Work out the settings and entry changes for an operation
+     */
+    static plan(entries: TimeEntry[], operation: TaxonomyOperation, settings: TimeTrackerSettings): TaxonomyPlan {
+        const before = Taxonomy.snapshot(settings);
+        const after = Taxonomy.applyToSettings(Taxonomy.snapshot(settings), operation);
+        const settingsAfter = { ...settings, ...after };
+
+        const changes: EntryChange[] = [];
+        for (const entry of entries) {
+            const updated = Taxonomy.applyToEntry(entry, operation, settings);
+            if (!updated) continue;
+            // Keep billed time billed: pin the flag if the entry's activity default would change
+            const billable = Billing.isBillable(entry, settings);
+            if (updated.billable === undefined && Billing.isBillable(updated, settingsAfter) !== billable) {
+                updated.billable = billable;
+            }
+            changes.push({ before: entry, after: updated });
+        }
+
+        return { label: Taxonomy.describe(operation, settings), changes, before, after };
+    }
+
+    /**
+     * Name of an operation, e.g. 'Merge project "Web" into "Website"'
+     */
+    static describe(operation: TaxonomyOperation, settings: TimeTrackerSettings): string {
+        const item = Taxonomy.find(settings, operation.kind, operation.id);
+        if (operation.type === 'rename') {
+            return `Rename ${operation.kind} "${item.name}" to "${operation.name.trim()}"`;
+        }
+        const into = Taxonomy.find(settings, operation.kind, operation.intoId);
+        return `Merge ${operation.kind} "${item.name}" into "${into.name}"`;
+    }
+
+    /**
+     * Copy of the settings lists, safe to change
+     */
+    static snapshot(settings: TaxonomySettings): TaxonomySettings {
+        return {
+            clients: settings.clients.map(c => ({ ...c })),
+            projects: settings.projects.map(p => ({ ...p })),
+            activities: settings.activities.map(a => ({ ...a })),
+            customFields: settings.customFields.map(f => ({ ...f })),
+            defaultProject: settings.defaultProject,
+            defaultActivity: settings.defaultActivity,
+        };
+    }
+
+    /**
+     * Apply an operation to a snapshot of the settings (changes it in place)
+     */
+    private static applyToSettings(settings: TaxonomySettings, operation: TaxonomyOperation): TaxonomySettings {
+        if (operation.type === 'rename') {
+            const name = operation.name.trim();
+            const item = Taxonomy.find(settings, operation.kind, operation.id);
+            if (!name) {
+                throw new Error(`The ${operation.kind} needs a name`);
+            }
+            if (name === item.name) {
+                throw new Error(`The ${operation.kind} is already called "${name}"`);
+            }
+            if (Taxonomy.list(settings, operation.kind).some(i => i !== item && i.clientId === item.clientId && i.name === name)) {
+                throw new Error(`There is already a ${operation.kind} called "${name}" - merge them instead`);
+            }
+
+            if (operation.kind === 'project' && Taxonomy.matches(settings.defaultProject, item)) {
+                settings.defaultProject = name;
+            }
+            if (operation.kind === 'activity' && Taxonomy.matches(settings.defaultActivity, item)) {
+                settings.defaultActivity = name;
+            }
+            item.name = name;
+            return settings;
+        }
+
+        const item = Taxonomy.find(settings, operation.kind, operation.id);
+        const into = Taxonomy.find(settings, operation.kind, operation.intoId);
+        if (item === into) {
+            throw new Error(`Can't merge a ${operation.kind} into itself`);
+        }
+
+        switch (operation.kind) {
+            case 'client':
+                // Projects, activities and fields move over; ones the target already has by name are folded in
+                settings.projects = settings.projects.filter(p =>
+                    p.clientId !== item.id || !settings.projects.some(o => o.clientId === into.id && o.name === p.name)
+                );
+                settings.activities = settings.activities.filter(a =>
+                    a.clientId !== item.id || !settings.activities.some(o => o.clientId === into.id && o.name === a.name)
+                );
+                for (const child of [...settings.projects, ...settings.activities, ...settings.customFields]) {
+                    if (child.clientId === item.id) child.clientId = into.id;
+                }
+                settings.clients = settings.clients.filter(c => c !== item);
+                break;
+            case 'project':
+                if (item.clientId !== into.clientId) {
+                    throw new Error('Projects can only be merged with projects of the same client');
+                }
+                if (Taxonomy.matches(settings.defaultProject, item)) settings.defaultProject = into.name;
+                settings.projects = settings.projects.filter(p => p !== item);
+                break;
+            case 'activity':
+                if (item.clientId !== into.clientId) {
+                    throw new Error('Activities can only be merged with activities of the same client');
+                }
+                if (Taxonomy.matches(settings.defaultActivity, item)) settings.defaultActivity = into.name;
+                settings.activities = settings.activities.filter(a => a !== item);
+                break;
+        }
+        return settings;
+    }
+
+    /**
+     * An entry after an operation, or null if the operation doesn't touch it
+     */
+    private static applyToEntry(entry: TimeEntry, operation: TaxonomyOperation, settings: TimeTrackerSettings): TimeEntry | null {
+        const item = Taxonomy.find(settings, operation.kind, operation.id);
+
+        if (operation.kind === 'client') {
+            if (operation.type !== 'merge' || !Taxonomy.matches(entry.client, item)) return null;
+            // Store the client's projects and activities by name, as they may lose their IDs
+            const project = settings.projects.find(p => p.clientId === item.id && Taxonomy.matches(entry.project, p));
+            const activity = settings.activities.find(a => a.clientId === item.id && Taxonomy.matches(entry.activity, a));
+            return {
+                ...entry,
+                client: operation.intoId,
+                project: project?.name ?? entry.project,
+                activity: activity?.name ?? entry.activity,
+            };
+        }
+
+        const field = operation.kind;
+        if (entry.client !== item.clientId || !Taxonomy.matches(entry[field], item)) return null;
+        const name = operation.type === 'rename'
+            ? operation.name.trim()
+            : Taxonomy.find(settings, operation.kind, operation.intoId).name;
+        return entry[field] === name ? null : { ...entry, [field]: name };
+    }
+
+    private static list(settings: TaxonomySettings, kind: TaxonomyKind): NamedItem[] {
+        switch (kind) {
+            case 'client':
+                return settings.clients;
+            case 'project':
+                return settings.projects;
+            case 'activity':
+                return settings.activities;
+        }
+    }
+
+    private static find(settings: TaxonomySettings, kind: TaxonomyKind, id: string): NamedItem {
+        const item = Taxonomy.list(settings, kind).find(i => i.id === id);
+        if (!item) {
+            throw new Error(`Unknown ${kind} "${id}"`);
+        }
+        return item;
+    }
+
+    /**
+     * Whether a stored value refers to an item (by ID or name)
+     */
+    private static matches(value: string | undefined, item: NamedItem): boolean {
+        return !!value && (value === item.id || value === item.name);
+    }
+}
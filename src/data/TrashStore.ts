@@ -0,0 +1,76 @@
+import { TFile, Vault } from 'obsidian';
+import type { TimeEntry, TimeTrackerSettings } from '../types';
+import { TableParser } from '../core/TableParser';
+import { Trash } from '../core/Trash';
+import type { MonthTransaction } from './MonthTransaction';
+
+/**
+ * An entry in the trash, with the time it was deleted
+ */
+export interface TrashedEntry {
+    entry: TimeEntry;
+    /** When the entry was deleted (null if the Deleted cell was edited into something unreadable) */
+    deletedAt: Date | null;
+}
+
+/**
+ * Keeps deleted entries in the trash file (see Trash) through the vault
+ */
+export class TrashStore {
+    private vault: Vault;
+    private settings: TimeTrackerSettings;
+
+    constructor(vault: Vault, settings: TimeTrackerSettings) {
+        this.vault = vault;
+        this.settings = settings;
+    }
+
+    /**
+     * Update settings reference (called when settings change)
+     */
+    updateSettings(settings: TimeTrackerSettings): void {
+        this.settings = settings;
+    }
+
+    /**
+     * Path of the trash file
+     */
+    getFilePath(): string {
+        return Trash.filePath(this.settings.timeTrackingFolder);
+    }
+
+    /**
+     * Load all trashed entries, most recently deleted first
+     */
+    async load(): Promise<TrashedEntry[]> {
+        const file = this.vault.getAbstractFileByPath(this.getFilePath());
+        if (!(file instanceof TFile)) return [];
+
+        const content = await this.vault.read(file);
+        return Trash.parse(content, this.getFilePath())
+            .map(entry => {
+                const { [Trash.DELETED_COLUMN]: deleted, ...rest } = entry.extraFields ?? {};
+                return {
+                    entry: { ...entry, extraFields: Object.keys(rest).length > 0 ? rest : undefined },
+                    deletedAt: deleted ? TableParser.parseDateTime(deleted) : null,
+                };
+            })
+            .sort((a, b) => (b.deletedAt?.getTime() ?? 0) - (a.deletedAt?.getTime() ?? 0));
+    }
+
+    /**
+     * Stage a trash update in a transaction
+     * @param added - Entries that were just deleted
+     * @param removedIds - Entries leaving the trash (restored, recreated by undo, or purged)
+     * @param deletedAt - Deletion time recorded for the added entries
+     */
+    stage(transaction: MonthTransaction, added: TimeEntry[], removedIds: Set<string>, deletedAt: Date): void {
+        const exists = this.vault.getAbstractFileByPath(this.getFilePath()) instanceof TFile;
+        if (!exists && added.length === 0) return;
+
+        const path = this.getFilePath();
+        transaction.stage(path, content =>
+            Trash.render(content, path, added, removedIds, deletedAt, this.settings.hideTablesInPreview)
+        );
+    }
+}
@@ -2,6 +2,7 @@ import { App, TFolder } from 'obsidian';
 import { TimeEntry, TimeTrackerSettings, Client, BillFrom } from '../types';
 import { InvoiceModalResult } from '../modals/InvoiceModal';
 import { DataManager } from '../data/DataManager';
+import { Billing } from '../core/Billing';
 import { Logger } from '../utils/Logger';
 
 /**
@@ -61,8 +62,9 @@ export class InvoiceGenerator {
         const projectHours = new Map<string, number>();
 
         for (const entry of entries) {
-            // Only include entries for this client
+            // Only include billable entries for this client
             if (entry.client !== client.id) continue;
+            if (!Billing.isBillable(entry, this.settings)) continue;
 
             // Calculate effective duration within range
             const effectiveMinutes = this.dataManager.getEffectiveDuration(entry, rangeStart, rangeEnd);
@@ -0,0 +1,314 @@
+import { App, Modal, Notice, Setting } from 'obsidian';
+import type { EntryChange, TimeEntry, TimeTrackerSettings } from '../types';
+import { DataManager } from '../data/DataManager';
+import { BulkEdit, BulkOperation } from '../data/BulkEdit';
+import type { SearchQuery } from '../data/EntrySearch';
+import { Logger } from '../utils/Logger';
+
+type OperationType = 'reassign' | 'project' | 'activity' | 'billable' | 'shift' | 'delete';
+
+const OPERATION_NAMES: Record<OperationType, string> = {
+    'reassign': 'Move to another client',
+    'project': 'Set project',
+    'activity': 'Set activity',
+    'billable': 'Set billable',
+    'shift': 'Shift times',
+    'delete': 'Delete',
+};
+
+/** Stop listing previewed changes after this many (all of them are applied) */
+const MAX_PREVIEW_ROWS = 200;
+
+/**
+ * Applies one change to every entry matching a search, after showing what will change
+ */
+export class BulkEditModal extends Modal {
+    private settings: TimeTrackerSettings;
+    private dataManager: DataManager;
+    private query: SearchQuery;
+    private onApplied: () => void;
+
+    // Form state
+    private operationType: OperationType = 'reassign';
+    private clientValue = '';
+    private projectValue = '';
+    private activityValue = '';
+    private billableValue = 'yes';
+    private shiftValue = '';
+
+    private changes: EntryChange[] = [];
+    /** Ignores previews overtaken by a newer one */
+    private previewRequestId = 0;
+
+    private optionsEl: HTMLElement;
+    private previewEl: HTMLElement;
+    private applyBtn: HTMLButtonElement;
+
+    constructor(
+        app: App,
+        settings: TimeTrackerSettings,
+        dataManager: DataManager,
+        query: SearchQuery,
+        onApplied: () => void
+    ) {
+        super(app);
+        this.settings = settings;
+        this.dataManager = dataManager;
+        this.query = query;
+        this.onApplied = onApplied;
+        this.clientValue = settings.clients.find(c => !c.archived)?.id ?? '';
+    }
+
+    onOpen(): void {
+        const { contentEl } = this;
+        contentEl.empty();
+        contentEl.addClass('time-tracker-bulk-edit');
+
+        contentEl.createEl('h2', { text: 'Edit matching entries' });
+
+        new Setting(contentEl)
+            .setName('Change')
+            .addDropdown(dropdown => {
+                for (const [value, name] of Object.entries(OPERATION_NAMES)) {
+                    dropdown.addOption(value, name);
+                }
+                dropdown.setValue(this.operationType);
+                dropdown.onChange(value => {
+                    this.operationType = value as OperationType;
+                    this.renderOptions();
+                    void this.updatePreview();
+                });
+            });
+
+        this.optionsEl = contentEl.createDiv('bulk-edit-options');
+        this.previewEl = contentEl.createDiv('bulk-edit-preview');
+
+        const buttonContainer = contentEl.createDiv('relocate-button-container');
+        const cancelBtn = buttonContainer.createEl('button', { text: 'Cancel' });
+        cancelBtn.addEventListener('click', () => this.close());
+        this.applyBtn = buttonContainer.createEl('button', { text: 'Apply', cls: 'mod-cta' });
+        this.applyBtn.addEventListener('click', () => {
+            void this.apply();
+        });
+
+        this.renderOptions();
+        void this.updatePreview();
+    }
+
+    onClose(): void {
+        this.contentEl.empty();
+    }
+
+    /**
+     * Inputs for the selected operation
+     */
+    private renderOptions(): void {
+        this.optionsEl.empty();
+        const onChange = () => {
+            void this.updatePreview();
+        };
+
+        switch (this.operationType) {
+            case 'reassign':
+                new Setting(this.optionsEl)
+                    .setName('Client')
+                    .addDropdown(dropdown => {
+                        for (const client of this.settings.clients.filter(c => !c.archived)) {
+                            dropdown.addOption(client.id, client.name);
+                        }
+                        dropdown.setValue(this.clientValue);
+                        dropdown.onChange(value => {
+                            this.clientValue = value;
+                            this.projectValue = '';
+                            this.renderOptions();
+                            onChange();
+                        });
+                    });
+                this.renderProjectSetting(this.clientValue, 'Keep if the client has it', onChange);
+                break;
+            case 'project':
+                this.renderProjectSetting(null, 'No project', onChange);
+                break;
+            case 'activity':
+                new Setting(this.optionsEl)
+                    .setName('Activity')
+                    .addDropdown(dropdown => {
+                        dropdown.addOption('', 'No activity');
+                        for (const name of new Set(this.settings.activities.map(a => a.name))) {
+                            dropdown.addOption(name, name);
+                        }
+                        dropdown.setValue(this.activityValue);
+                        dropdown.onChange(value => {
+                            this.activityValue = value;
+                            onChange();
+                        });
+                    });
+                break;
+            case 'billable':
+                new Setting(this.optionsEl)
+                    .setName('Billable')
+                    .addDropdown(dropdown => {
+                        dropdown.addOption('yes', 'Billable');
+                        dropdown.addOption('no', 'Not billable');
+                        dropdown.addOption('', 'Activity default');
+                        dropdown.setValue(this.billableValue);
+                        dropdown.onChange(value => {
+                            this.billableValue = value;
+                            onChange();
+                        });
+                    });
+                break;
+            case 'shift':
+                new Setting(this.optionsEl)
+                    .setName('Shift by')
+                    .setDesc('For example +1h, -30m or +1h 15m')
+                    .addText(text => {
+                        text.setValue(this.shiftValue);
+                        text.setPlaceholder('+1h');
+                        text.onChange(value => {
+                            this.shiftValue = value;
+                            onChange();
+                        });
+                    });
+                break;
+            case 'delete':
+                this.optionsEl.createEl('p', {
+                    text: 'Matching entries move to the trash.',
+                    cls: 'setting-item-description',
+                });
+                break;
+        }
+    }
+
+    /**
+     * Project dropdown, limited to one client's projects when given
+     */
+    private renderProjectSetting(clientId: string | null, emptyLabel: string, onChange: () => void): void {
+        new Setting(this.optionsEl)
+            .setName('Project')
+            .addDropdown(dropdown => {
+                dropdown.addOption('', emptyLabel);
+                const projects = this.settings.projects.filter(p => !p.archived && (clientId === null || p.clientId === clientId));
+                for (const name of new Set(projects.map(p => p.name))) {
+                    dropdown.addOption(name, name);
+                }
+                dropdown.setValue(this.projectValue);
+                dropdown.onChange(value => {
+                    this.projectValue = value;
+                    onChange();
+                });
+            });
+    }
+
+    /**
+     * The operation described by the form, or null while it's incomplete
+     */
+    private getOperation(): BulkOperation | null {
+        switch (this.operationType) {
+            case 'reassign':
+                return this.clientValue
+                    ? { type: 'reassign', client: this.clientValue, project: this.projectValue || undefined }
+                    : null;
+            case 'project':
+                return { type: 'update', changes: { project: this.projectValue || undefined } };
+            case 'activity':
+                return { type: 'update', changes: { activity: this.activityValue || undefined } };
+            case 'billable':
+                return { type: 'update', changes: { billable: this.billableValue === '' ? undefined : this.billableValue === 'yes' } };
+            case 'shift': {
+                const minutes = BulkEdit.parseShift(this.shiftValue);
+                return minutes ? { type: 'shift', minutes } : null;
+            }
+            case 'delete':
+                return { type: 'delete' };
+        }
+    }
+
+    /**
+     * Work out the changes and list them
+     */
+    private async updatePreview(): Promise<void> {
+        const requestId = ++this.previewRequestId;
+        const operation = this.getOperation();
+        this.changes = [];
+        this.applyBtn.disabled = true;
+        this.previewEl.empty();
+
+        if (!operation) {
+            this.previewEl.createDiv({ text: 'Fill in the change to see which entries it affects.', cls: 'reports-empty' });
+            return;
+        }
+
+        let changes: EntryChange[];
+        try {
+            changes = await this.dataManager.previewBulkEdit(this.query, operation);
+        } catch (err) {
+            if (requestId !== this.previewRequestId) return;
+            this.previewEl.createDiv({ text: err instanceof Error ? err.message : String(err), cls: 'reports-empty' });
+            return;
+        }
+        if (requestId !== this.previewRequestId) return;
+
+        this.changes = changes;
+        this.applyBtn.disabled = changes.length === 0;
+        this.applyBtn.setText(BulkEdit.describe(operation, changes.length));
+
+        if (changes.length === 0) {
+            this.previewEl.createDiv({ text: 'No matching entries would change.', cls: 'reports-empty' });
+            return;
+        }
+
+        for (const change of changes.slice(0, MAX_PREVIEW_ROWS)) {
+            this.renderChange(change);
+        }
+        if (changes.length > MAX_PREVIEW_ROWS) {
+            this.previewEl.createDiv({
+                text: `…and ${changes.length - MAX_PREVIEW_ROWS} more`,
+                cls: 'reports-problems-hint',
+            });
+        }
+    }
+
+    /**
+     * One previewed entry: what it is now and what it becomes
+     */
+    private renderChange(change: EntryChange): void {
+        const row = this.previewEl.createDiv('bulk-edit-row');
+        const before = change.before ?? change.after;
+        row.createDiv({ text: this.describeEntry(before), cls: 'bulk-edit-before' });
+        row.createDiv({
+            text: change.after ? `→ ${this.describeEntry(change.after)}` : '→ Trash',
+            cls: 'bulk-edit-after',
+        });
+    }
+
+    private describeEntry(entry: TimeEntry): string {
+        const client = this.settings.clients.find(c => c.id === entry.client)?.name ?? entry.client;
+        return [
+            `${entry.date} ${entry.start}–${entry.end}`,
+            entry.description,
+            client,
+            entry.project,
+            entry.activity,
+            entry.billable === undefined ? '' : entry.billable ? 'billable' : 'not billable',
+        ].filter(Boolean).join(' · ');
+    }
+
+    private async apply(): Promise<void> {
+        const operation = this.getOperation();
+        if (!operation || this.changes.length === 0) return;
+
+        this.applyBtn.disabled = true;
+        try {
+            await this.dataManager.applyBulkEdit(this.changes, BulkEdit.describe(operation, this.changes.length));
+            const entries = `${this.changes.length} ${this.changes.length === 1 ? 'entry' : 'entries'}`;
+            new Notice(operation.type === 'delete' ? `Moved ${entries} to the trash` : `Updated ${entries}`);
+            this.onApplied();
+            this.close();
+        } catch (err) {
+            Logger.error('BulkEditModal: Failed to apply:', err);
+            new Notice(`Could not apply: ${err instanceof Error ? err.message : String(err)}`, 8000);
+            this.applyBtn.disabled = false;
+        }
+    }
+}
@@ -0,0 +1,407 @@
+import { App, Modal, Notice, Setting } from 'obsidian';
+import type { CsvColumnMapping, ImportDateFormat, TimeTrackerSettings } from '../types';
+import type { DataManager } from '../data/DataManager';
+import { CsvImport, CsvImportPlan, DATE_FORMATS, ImportRowStatus, MAPPING_FIELDS } from '../data/CsvImport';
+import { TableParser } from '../core/TableParser';
+import { Logger } from '../utils/Logger';
+
+const SKIPPED_NAMES: Record<Exclude<ImportRowStatus, 'new'>, string> = {
+    'duplicate': 'already imported',
+    'overlap': 'overlapping',
+    'invalid': 'unreadable',
+};
+
+/** Where to find the export in each time tracker */
+const PROFILE_HINTS: Record<string, string> = {
+    'toggl': 'In Toggl Track, open reports, choose detailed and export as CSV.',
+    'clockify': 'In Clockify, open reports, choose detailed and export as CSV.',
+    'harvest': 'In Harvest, open reports, choose detailed time and export as CSV.',
+};
+
+/** Dropdown value for mapping the columns by hand */
+const CUSTOM = 'custom';
+
+/** Stop listing skipped rows after this many */
+const MAX_PREVIEW_ROWS = 200;
+
+/**
+ * Wizard for importing CSV exports from Toggl Track, Clockify, Harvest or any
+ * other time tracker
+ *
+ * Pick the file and its format (or map its columns by hand and save the
+ * mapping for next time), check what will be added and skipped, then import.
+ */
+export class CsvImportModal extends Modal {
+    private settings: TimeTrackerSettings;
+    private dataManager: DataManager;
+    private saveSettings: () => Promise<void>;
+    private onImported: () => void;
+
+    // Form state
+    private csv = '';
+    private headers: string[] = [];
+    /** Built-in profile id, saved mapping id or CUSTOM */
+    private profile = 'toggl';
+    /** Mapping being edited for custom and saved mappings */
+    private draft: CsvColumnMapping = CsvImportModal.emptyMapping();
+    private fallbackClient = 'No client';
+    private timeZone = '';
+    private dayStart = '09:00';
+
+    private plan: CsvImportPlan | null = null;
+    /** Ignores previews overtaken by a newer one */
+    private previewRequestId = 0;
+
+    private mappingEl: HTMLElement;
+    private previewEl: HTMLElement;
+    private importBtn: HTMLButtonElement;
+
+    constructor(
+        app: App,
+        settings: TimeTrackerSettings,
+        dataManager: DataManager,
+        saveSettings: () => Promise<void>,
+        onImported: () => void
+    ) {
+        super(app);
+        this.settings = settings;
+        this.dataManager = dataManager;
+        this.saveSettings = saveSettings;
+        this.onImported = onImported;
+    }
+
+    onOpen(): void {
+        const { contentEl } = this;
+        contentEl.empty();
+        contentEl.addClass('time-tracker-csv-import');
+
+        contentEl.createEl('h2', { text: 'Import time entries' });
+
+        const fileSetting = new Setting(contentEl).setName('Export file');
+        const fileInput = fileSetting.controlEl.createEl('input', { type: 'file', attr: { accept: '.csv' } });
+        fileInput.addEventListener('change', () => {
+            const file = fileInput.files?.[0];
+            if (!file) return;
+            void file.text().then(text => {
+                this.csv = text;
+                this.headers = CsvImport.readHeaders(text);
+                this.renderMapping();
+                void this.updatePreview();
+            });
+        });
+
+        this.mappingEl = contentEl.createDiv('csv-import-mapping');
+
+        new Setting(contentEl)
+            .setName('Client for entries without one')
+            .setDesc('Added if it does not exist yet.')
+            .addText(text => {
+                text.setValue(this.fallbackClient);
+                text.onChange(value => {
+                    this.fallbackClient = value;
+                    void this.updatePreview();
+                });
+            });
+
+        new Setting(contentEl)
+            .setName('Time zone of the export')
+            .setDesc('The time zone set in the other time tracker, e.g. Europe/Berlin. Leave empty for this device\'s time zone.')
+            .addText(text => {
+                text.onChange(value => {
+                    this.timeZone = value.trim();
+                    void this.updatePreview();
+                });
+            });
+
+        new Setting(contentEl)
+            .setName('Start of the day')
+            .setDesc('For exports with durations but no start times, entries of a day are placed one after another from this time, e.g. 09:00.')
+            .addText(text => {
+                text.setValue(this.dayStart);
+                text.onChange(value => {
+                    this.dayStart = value.trim();
+                    void this.updatePreview();
+                });
+            });
+
+        this.previewEl = contentEl.createDiv('csv-import-preview');
+
+        const buttonContainer = contentEl.createDiv('relocate-button-container');
+        const cancelBtn = buttonContainer.createEl('button', { text: 'Cancel' });
+        cancelBtn.addEventListener('click', () => this.close());
+        this.importBtn = buttonContainer.createEl('button', { text: 'Import', cls: 'mod-cta' });
+        this.importBtn.addEventListener('click', () => {
+            void this.import();
+        });
+
+        this.renderMapping();
+        void this.updatePreview();
+    }
+
+    onClose(): void {
+        this.contentEl.empty();
+    }
+
+    /**
+     * Format dropdown, and the column inputs for custom and saved mappings
+     */
+    private renderMapping(): void {
+        this.mappingEl.empty();
+
+        new Setting(this.mappingEl)
+            .setName('Format')
+            .addDropdown(dropdown => {
+                for (const profile of CsvImport.PROFILES) {
+                    dropdown.addOption(profile.id, profile.name);
+                }
+                for (const mapping of this.settings.importMappings) {
+                    dropdown.addOption(mapping.id, mapping.name);
+                }
+                dropdown.addOption(CUSTOM, 'Map your own columns…');
+                dropdown.setValue(this.profile);
+                dropdown.onChange(value => {
+                    this.selectProfile(value);
+                    this.renderMapping();
+                    void this.updatePreview();
+                });
+            });
+
+        const hint = PROFILE_HINTS[this.profile];
+        if (hint) {
+            this.mappingEl.createEl('p', { text: hint, cls: 'setting-item-description' });
+            return;
+        }
+
+        if (this.headers.length === 0) {
+            this.mappingEl.createEl('p', {
+                text: 'Choose an export file to pick its columns.',
+                cls: 'setting-item-description',
+            });
+        }
+
+        new Setting(this.mappingEl)
+            .setName('Date format')
+            .addDropdown(dropdown => {
+                for (const format of DATE_FORMATS) {
+                    dropdown.addOption(format, format);
+                }
+                dropdown.setValue(this.draft.dateFormat);
+                dropdown.onChange(value => {
+                    this.draft.dateFormat = value as ImportDateFormat;
+                    void this.updatePreview();
+                });
+            });
+
+        for (const field of MAPPING_FIELDS) {
+            new Setting(this.mappingEl)
+                .setName(field.name)
+                .addDropdown(dropdown => {
+                    dropdown.addOption('', '(none)');
+                    const current = this.draft[field.key];
+                    for (const header of current && !this.headers.includes(current) ? [...this.headers, current] : this.headers) {
+                        dropdown.addOption(header, header);
+                    }
+                    dropdown.setValue(current ?? '');
+                    dropdown.onChange(value => {
+                        this.draft[field.key] = value || undefined;
+                        void this.updatePreview();
+                    });
+                });
+        }
+
+        const saved = this.settings.importMappings.find(m => m.id === this.profile);
+        new Setting(this.mappingEl)
+            .setName('Save mapping as')
+            .setDesc('Saved mappings are listed under format.')
+            .addText(text => {
+                text.setValue(this.draft.name);
+                text.onChange(value => {
+                    this.draft.name = value;
+                });
+            })
+            .addButton(button => button
+                .setButtonText('Save')
+                .onClick(() => {
+                    void this.saveMapping();
+                }))
+            .addButton(button => {
+                button.setButtonText('Delete').setWarning().onClick(() => {
+                    void this.deleteMapping();
+                });
+                button.buttonEl.toggle(!!saved);
+            });
+    }
+
+    /**
+     * Switch format; a saved mapping is copied so edits stay unsaved until saved again
+     */
+    private selectProfile(id: string): void {
+        this.profile = id;
+        const saved = this.settings.importMappings.find(m => m.id === id);
+        if (saved) {
+            this.draft = { ...saved };
+        } else if (id === CUSTOM) {
+            this.draft = CsvImportModal.emptyMapping();
+            // Columns named like our fields are a good first guess
+            for (const field of MAPPING_FIELDS) {
+                const header = this.headers.find(h => h.toLowerCase() === field.name.toLowerCase());
+                if (header) this.draft[field.key] = header;
+            }
+        }
+    }
+
+    /**
+     * The mapping the import uses
+     */
+    private currentMapping(): CsvColumnMapping {
+        const profile = CsvImport.PROFILES.find(p => p.id === this.profile);
+        if (profile) return profile;
+        return { ...this.draft, name: this.draft.name.trim() || 'CSV' };
+    }
+
+    /**
+     * Save the mapping being edited, replacing a saved mapping of the same name
+     */
+    private async saveMapping(): Promise<void> {
+        const name = this.draft.name.trim();
+        if (!name) {
+            new Notice('Enter a name for the mapping');
+            return;
+        }
+        if (CsvImport.PROFILES.some(p => p.name.toLowerCase() === name.toLowerCase())) {
+            new Notice(`"${name}" is a built-in format; choose another name`);
+            return;
+        }
+
+        const mappings = this.settings.importMappings;
+        const existing = mappings.find(m => m.id === this.profile) ??
+            mappings.find(m => m.name.toLowerCase() === name.toLowerCase());
+        const mapping = { ...this.draft, name, id: existing?.id ?? TableParser.generateId() };
+        if (existing) {
+            mappings.splice(mappings.indexOf(existing), 1, mapping);
+        } else {
+            mappings.push(mapping);
+        }
+        await this.saveSettings();
+        new Notice(`Saved mapping "${name}"`);
+
+        this.profile = mapping.id;
+        this.draft = { ...mapping };
+        this.renderMapping();
+        void this.updatePreview();
+    }
+
+    private async deleteMapping(): Promise<void> {
+        const mappings = this.settings.importMappings;
+        const index = mappings.findIndex(m => m.id === this.profile);
+        if (index === -1) return;
+        mappings.splice(index, 1);
+        await this.saveSettings();
+
+        // Keep the columns on screen, so deleting by mistake is easy to undo by saving again
+        this.profile = CUSTOM;
+        this.renderMapping();
+        void this.updatePreview();
+    }
+
+    /**
+     * Read the export and show what the import would do
+     */
+    private async updatePreview(): Promise<void> {
+        const requestId = ++this.previewRequestId;
+        this.plan = null;
+        this.importBtn.disabled = true;
+        this.importBtn.setText('Import');
+        this.previewEl.empty();
+
+        const mapping = this.currentMapping();
+        if (!this.csv) {
+            this.previewEl.createDiv({ text: 'Choose an export file to see what will be imported.', cls: 'reports-empty' });
+            return;
+        }
+        if (!mapping.startDate) {
+            this.previewEl.createDiv({ text: 'Choose the column with the start date.', cls: 'reports-empty' });
+            return;
+        }
+        if (!this.fallbackClient.trim()) {
+            this.previewEl.createDiv({ text: 'Enter a client for entries without one.', cls: 'reports-empty' });
+            return;
+        }
+
+        this.previewEl.createDiv({ text: 'Reading export…', cls: 'reports-empty' });
+        let plan: CsvImportPlan;
+        try {
+            plan = await this.dataManager.previewCsvImport(this.csv, mapping, {
+                fallbackClient: this.fallbackClient,
+                timeZone: this.timeZone || undefined,
+                dayStart: this.dayStart || undefined,
+            });
+        } catch (err) {
+            if (requestId !== this.previewRequestId) return;
+            this.previewEl.empty();
+            this.previewEl.createDiv({ text: err instanceof Error ? err.message : String(err), cls: 'csv-import-error' });
+            return;
+        }
+        if (requestId !== this.previewRequestId) return;
+
+        this.plan = plan;
+        this.importBtn.disabled = plan.changes.length === 0;
+        this.importBtn.setText(plan.label);
+        this.previewEl.empty();
+
+        const count = plan.changes.length;
+        const skipped = (Object.keys(SKIPPED_NAMES) as (keyof typeof SKIPPED_NAMES)[])
+            .map(status => [status, plan.rows.filter(r => r.status === status).length] as const)
+            .filter(([, n]) => n > 0)
+            .map(([status, n]) => `${n} ${SKIPPED_NAMES[status]}`);
+        this.previewEl.createEl('p', {
+            text: `${count} ${count === 1 ? 'entry' : 'entries'} to import` +
+                (skipped.length > 0 ? `, skipping ${skipped.join(', ')}.` : '.'),
+        });
+
+        for (const [kind, names] of [['clients', plan.created.clients], ['projects', plan.created.projects], ['activities', plan.created.activities]] as const) {
+            if (names.length === 0) continue;
+            this.previewEl.createEl('p', { text: `New ${kind}: ${names.join(', ')}`, cls: 'csv-import-created' });
+        }
+        if (plan.created.clients.length > 0 && !mapping.rate) {
+            this.previewEl.createEl('p', {
+                text: 'New clients start with a rate of 0; set their rates in settings.',
+                cls: 'setting-item-description',
+            });
+        }
+
+        const skippedRows = plan.rows.filter(r => r.status !== 'new');
+        for (const row of skippedRows.slice(0, MAX_PREVIEW_ROWS)) {
+            const item = this.previewEl.createDiv('bulk-edit-row');
+            item.createSpan({ text: `Row ${row.line}`, cls: 'reports-problem-location' });
+            item.createSpan({ text: row.reason ?? '', cls: 'reports-problem-reason' });
+        }
+        if (skippedRows.length > MAX_PREVIEW_ROWS) {
+            this.previewEl.createDiv({
+                text: `…and ${skippedRows.length - MAX_PREVIEW_ROWS} more`,
+                cls: 'reports-problems-hint',
+            });
+        }
+    }
+
+    private async import(): Promise<void> {
+        if (!this.plan || this.plan.changes.length === 0) return;
+
+        this.importBtn.disabled = true;
+        try {
+            await this.dataManager.applyCsvImport(this.plan);
+            const count = this.plan.changes.length;
+            new Notice(`Imported ${count} ${count === 1 ? 'entry' : 'entries'} from ${this.currentMapping().name}`);
+            this.onImported();
+            this.close();
+        } catch (err) {
+            Logger.error('CsvImportModal: Failed to import:', err);
+            new Notice(`Could not import: ${err instanceof Error ? err.message : String(err)}`, 8000);
+            this.importBtn.disabled = false;
+        }
+    }
+
+    private static emptyMapping(): CsvColumnMapping {
+        return { id: '', name: '', dateFormat: 'YYYY-MM-DD', startDate: '' };
+    }
+}
@@ -0,0 +1,190 @@
+import { App, Modal, Setting, Notice } from 'obsidian';
+import { Client, CustomField, CustomFieldType } from '../types';
+import { CustomFields } from '../data/CustomFields';
+
+/**
+ * Data passed when opening the modal
+ */
+export interface CustomFieldModalData {
+    mode: 'create' | 'edit';
+    /** For edit mode: the existing field to edit */
+    field?: CustomField;
+    /** Clients a field can be limited to */
+    clients: Client[];
+    /** All configured fields (for name checks) */
+    fields: CustomField[];
+}
+
+/**
+ * Modal for creating or editing a custom field
+ */
+export class CustomFieldModal extends Modal {
+    private data: CustomFieldModalData;
+    private onSave: (field: CustomField) => void;
+    private onDelete?: () => void;
+
+    // Form values
+    private nameValue: string;
+    private typeValue: CustomFieldType;
+    private optionsValue: string;
+    private clientValue: string;
+
+    constructor(
+        app: App,
+        data: CustomFieldModalData,
+        onSave: (field: CustomField) => void,
+        onDelete?: () => void
+    ) {
+        super(app);
+        this.data = data;
+        this.onSave = onSave;
+        this.onDelete = onDelete;
+
+        this.nameValue = data.field?.name ?? '';
+        this.typeValue = data.field?.type ?? 'text';
+        this.optionsValue = (data.field?.options ?? []).join(', ');
+        this.clientValue = data.field?.clientId ?? '';
+    }
+
+    onOpen(): void {
+        const { contentEl } = this;
+        contentEl.empty();
+        contentEl.addClass('custom-field-modal');
+
+        contentEl.createEl('h2', {
+            text: this.data.mode === 'edit' ? 'Edit Field' : 'Add Field',
+        });
+
+        // The name is the column header in data files, so it's fixed once created
+        new Setting(contentEl)
+            .setName('Field name')
+            .setDesc(this.data.mode === 'edit'
+                ? 'Used as the column header in your data files, so it can\'t be changed'
+                : 'Also used as the column header in your data files')
+            .addText(text => {
+                text.setPlaceholder('Cost center')
+                    .setValue(this.nameValue)
+                    .onChange(value => {
+                        this.nameValue = value;
+                    });
+                text.setDisabled(this.data.mode === 'edit');
+            });
+
+        let optionsSetting: Setting;
+        new Setting(contentEl)
+            .setName('Type')
+            .addDropdown(dropdown => dropdown
+                .addOption('text', 'Text')
+                .addOption('number', 'Number')
+                .addOption('select', 'Select')
+                .addOption('boolean', 'Yes/no')
+                .setValue(this.typeValue)
+                .onChange((value: CustomFieldType) => {
+                    this.typeValue = value;
+                    optionsSetting.settingEl.toggleClass('is-hidden', value !== 'select');
+                }));
+
+        optionsSetting = new Setting(contentEl)
+            .setName('Options')
+            .setDesc('Comma-separated values to choose from')
+            .addText(text => text
+                .setPlaceholder('Option a, option b')
+                .setValue(this.optionsValue)
+                .onChange(value => {
+                    this.optionsValue = value;
+                }));
+        optionsSetting.settingEl.toggleClass('is-hidden', this.typeValue !== 'select');
+
+        new Setting(contentEl)
+            .setName('Client')
+            .setDesc('Show this field only for one client')
+            .addDropdown(dropdown => {
+                dropdown.addOption('', 'All clients');
+                for (const client of this.data.clients) {
+                    dropdown.addOption(client.id, client.name);
+                }
+                dropdown.setValue(this.clientValue);
+                dropdown.onChange(value => {
+                    this.clientValue = value;
+                });
+            });
+
+        // Button row
+        const buttonRow = contentEl.createDiv('modal-button-row');
+
+        if (this.data.mode === 'edit' && this.onDelete) {
+            const deleteBtn = buttonRow.createEl('button', {
+                text: 'Delete',
+                cls: 'mod-warning',
+            });
+            deleteBtn.addEventListener('click', () => {
+                this.onDelete();
+                this.close();
+            });
+        }
+
+        buttonRow.createDiv('button-spacer');
+
+        const cancelBtn = buttonRow.createEl('button', { text: 'Cancel' });
+        cancelBtn.addEventListener('click', () => this.close());
+
+        const saveBtn = buttonRow.createEl('button', {
+            text: 'Save',
+            cls: 'mod-cta',
+        });
+        saveBtn.addEventListener('click', () => this.handleSave());
+    }
+
+    onClose(): void {
+        const { contentEl } = this;
+        contentEl.empty();
+    }
+
+    private handleSave(): void {
+        const existing = this.data.field;
+        if (!existing) {
+            const problem = CustomFields.validateName(this.nameValue, this.data.fields);
+            if (problem) {
+                new Notice(problem);
+                return;
+            }
+        }
+
+        const options = this.optionsValue
+            .split(',')
+            .map(option => option.trim())
+            .filter(Boolean);
+        if (this.typeValue === 'select' && options.length === 0) {
+            new Notice('Add at least one option');
+            return;
+        }
+
+        const name = existing?.name ?? this.nameValue.trim();
+        this.onSave({
+            id: existing?.id ?? this.uniqueId(this.slugify(name) || 'field'),
+            name,
+            type: this.typeValue,
+            options: this.typeValue === 'select' ? options : undefined,
+            clientId: this.clientValue || undefined,
+        });
+        this.close();
+    }
+
+    /**
+     * Make an ID unique among the configured fields
+     */
+    private uniqueId(base: string): string {
+        let id = base;
+        for (let i = 2; this.data.fields.some(f => f.id === id); i++) {
+            id = `${base}-${i}`;
+        }
+        return id;
+    }
+
+    private slugify(text: string): string {
+        return text
+            .toLowerCase()
+            .replace(/[^a-z0-9]+/g, '-')
+            .replace(/(^-|-$)/g, '');
+    }
+}
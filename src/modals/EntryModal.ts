@@ -1,8 +1,11 @@
-import { App, Modal, Setting, DropdownComponent, TextComponent, Notice, FuzzySuggestModal, TFile } from 'obsidian';
+import { App, Modal, Setting, DropdownComponent, TextComponent, Notice, FuzzySuggestModal, AbstractInputSuggest, TFile } from 'obsidian';
 import { TimeEntry, TimeTrackerSettings } from '../types';
+import { CustomFields } from '../data/CustomFields';
 import { DataManager } from '../data/DataManager';
-import { TableParser } from '../data/TableParser';
+import { TableParser } from '../core/TableParser';
+import { Billing } from '../core/Billing';
 import { Logger } from '../utils/Logger';
+import { TimeZones } from '../utils/TimeZones';
 
 /**
  * Simple confirmation modal to replace browser confirm()
@@ -79,10 +82,20 @@ export class EntryModal extends Modal {
     private projectValue: string;
     private activityValue: string;
     private linkedNoteValue: string;
+    private tagsValue: string[];
+    /** Billable override; undefined follows the activity's default */
+    private billableValue: boolean | undefined;
+    /** Extra columns including custom field values (raw cells, keyed by header) */
+    private extraFieldsValue: Record<string, string> | undefined;
 
     // Dropdown references for cascading updates
     private projectDropdown: DropdownComponent | null = null;
     private activityDropdown: DropdownComponent | null = null;
+    private billableDropdown: DropdownComponent | null = null;
+    private customFieldsContainer: HTMLElement | null = null;
+    private tagChipsContainer: HTMLElement | null = null;
+    /** Tags used on recent entries, for autocomplete */
+    private knownTags: string[] = [];
 
     // Cleanup handlers
     private cleanupHandlers: (() => void)[] = [];
@@ -139,6 +152,9 @@ export class EntryModal extends Modal {
             this.projectValue = this.resolveProjectName(data.entry.project);
             this.activityValue = this.resolveActivityName(data.entry.activity);
             this.linkedNoteValue = data.entry.linkedNote || '';
+            this.tagsValue = [...(data.entry.tags ?? [])];
+            this.billableValue = data.entry.billable;
+            this.extraFieldsValue = data.entry.extraFields;
         } else {
             // Create mode defaults
             const date = data.date || new Date();
@@ -173,6 +189,9 @@ export class EntryModal extends Modal {
             this.projectValue = this.resolveProjectName(this.settings.defaultProject);
             this.activityValue = this.resolveActivityName(this.settings.defaultActivity);
             this.linkedNoteValue = '';
+            this.tagsValue = [];
+            this.billableValue = undefined;
+            this.extraFieldsValue = undefined;
         }
     }
 
@@ -278,6 +297,16 @@ export class EntryModal extends Modal {
             this.snapEndToNext();
         });
 
+        // Entries recorded in another zone are edited in ours; show the original times too
+        const entry = this.data.mode === 'edit' ? this.data.entry : undefined;
+        if (entry?.timeZone && TimeZones.differsFromLocal(entry.timeZone, entry.startDateTime)) {
+            contentEl.createDiv({
+                text: `Recorded as ${TableParser.formatDateTime(entry.startDateTime, entry.timeZone)} – ` +
+                    `${TableParser.formatDateTime(entry.endDateTime, entry.timeZone)}. Times above are in your time zone.`,
+                cls: 'entry-time-zone-hint',
+            });
+        }
+
         // Overlap warning banner (hidden by default)
         this.warningBanner = contentEl.createDiv('overlap-warning-banner');
         this.warningBanner.addClass('is-hidden');
@@ -296,6 +325,8 @@ export class EntryModal extends Modal {
                     this.clientValue = value;
                     this.updateProjectDropdown();
                     this.updateActivityDropdown();
+                    this.updateBillableDropdown();
+                    this.renderCustomFields();
                 });
             });
 
@@ -320,9 +351,52 @@ export class EntryModal extends Modal {
                 dropdown.setValue(this.activityValue);
                 dropdown.onChange((value) => {
                     this.activityValue = value;
+                    this.updateBillableDropdown();
+                });
+            });
+
+        // Billable override (the default comes from the activity)
+        new Setting(contentEl)
+            .setName('Billable')
+            .addDropdown((dropdown) => {
+                this.billableDropdown = dropdown;
+                this.updateBillableDropdown();
+                dropdown.onChange((value) => {
+                    this.billableValue = TableParser.parseBillable(value);
                 });
             });
 
+        // Tags (several allowed, unlike activities)
+        const tagsSetting = new Setting(contentEl)
+            .setName('Tags');
+        this.tagChipsContainer = tagsSetting.controlEl.createDiv('entry-tag-chips');
+        tagsSetting.addText((text) => {
+            text.setPlaceholder('Add tag');
+            // Space and comma finish a tag; Enter picks from the suggestions
+            text.inputEl.addEventListener('keydown', (e) => {
+                if ((e.key === ' ' || e.key === ',') && text.getValue().trim()) {
+                    e.preventDefault();
+                    this.addTag(text.getValue());
+                    text.setValue('');
+                } else if (e.key === 'Backspace' && !text.getValue() && this.tagsValue.length > 0) {
+                    this.tagsValue.pop();
+                    this.renderTagChips();
+                }
+            });
+            new TagSuggest(this.app, text.inputEl, (query) => this.suggestTags(query), (tag) => {
+                this.addTag(tag);
+                text.setValue('');
+            });
+        });
+        this.renderTagChips();
+        void this.dataManager.getAllTags().then(tags => {
+            this.knownTags = tags;
+        });
+
+        // Custom fields for the selected client
+        this.customFieldsContainer = contentEl.createDiv('entry-custom-fields');
+        this.renderCustomFields();
+
         // Description with character counter in label
         const maxLen = this.settings.descriptionMaxLength;
         const descSetting = new Setting(contentEl);
@@ -468,6 +542,15 @@ export class EntryModal extends Modal {
             return;
         }
 
+        // Validate custom fields that apply to the selected client
+        for (const field of CustomFields.forClient(this.settings, this.clientValue)) {
+            const problem = CustomFields.validate(field, CustomFields.getValue({ extraFields: this.extraFieldsValue }, field));
+            if (problem) {
+                new Notice(problem);
+                return;
+            }
+        }
+
         // Format start and end with explicit date+time: "YYYY-MM-DD HH:mm"
         const startForStorage = `${this.startDateValue} ${this.startTimeValue}`;
         const endForStorage = `${this.endDateValue} ${this.endTimeValue}`;
@@ -489,7 +572,10 @@ export class EntryModal extends Modal {
                     client: this.clientValue,
                     project: this.projectValue || undefined,
                     activity: this.activityValue || undefined,
+                    tags: this.tagsValue.length > 0 ? [...this.tagsValue] : undefined,
+                    billable: this.billableValue,
                     linkedNote: this.linkedNoteValue || undefined,
+                    extraFields: this.extraFieldsValue,
                 });
             } else {
                 // Create new entry
@@ -497,11 +583,15 @@ export class EntryModal extends Modal {
                     date: this.startDateValue,
                     start: startForStorage,
                     end: endForStorage,
+                    timeZone: this.settings.recordTimeZone ? TimeZones.local() : undefined,
                     description: this.descriptionValue,
                     client: this.clientValue,
                     project: this.projectValue || undefined,
                     activity: this.activityValue || undefined,
+                    tags: this.tagsValue.length > 0 ? [...this.tagsValue] : undefined,
+                    billable: this.billableValue,
                     linkedNote: this.linkedNoteValue || undefined,
+                    extraFields: this.extraFieldsValue,
                 });
             }
 
@@ -824,6 +914,91 @@ export class EntryModal extends Modal {
         return '';
     }
 
+    /**
+     * Add a tag (ignored if empty or already set)
+     */
+    private addTag(text: string): void {
+        const tag = TableParser.normalizeTag(text);
+        if (!tag || this.tagsValue.some(t => t.toLowerCase() === tag.toLowerCase())) return;
+        this.tagsValue.push(tag);
+        this.renderTagChips();
+    }
+
+    /**
+     * Render the selected tags as removable chips
+     */
+    private renderTagChips(): void {
+        if (this.tagChipsContainer === null) return;
+        this.tagChipsContainer.empty();
+
+        for (const tag of this.tagsValue) {
+            const chip = this.tagChipsContainer.createSpan({ text: `#${tag}`, cls: 'entry-tag-chip' });
+            const removeBtn = chip.createSpan({ text: '×', cls: 'entry-tag-chip-remove' });
+            removeBtn.setAttribute('aria-label', `Remove #${tag}`);
+            removeBtn.addEventListener('click', () => {
+                this.tagsValue = this.tagsValue.filter(t => t !== tag);
+                this.renderTagChips();
+            });
+        }
+    }
+
+    /**
+     * Known tags matching what's typed, with the typed text first if it's new
+     */
+    private suggestTags(query: string): string[] {
+        const typed = TableParser.normalizeTag(query);
+        if (!typed) return [];
+        const lower = typed.toLowerCase();
+        const unused = this.knownTags.filter(tag => !this.tagsValue.some(t => t.toLowerCase() === tag.toLowerCase()));
+        const matches = unused.filter(tag => tag.toLowerCase().includes(lower));
+        return matches.some(tag => tag.toLowerCase() === lower) ? matches : [typed, ...matches];
+    }
+
+    /**
+     * Render inputs for the custom fields of the selected client
+     * Values of fields that don't apply to the client are kept as they are
+     */
+    private renderCustomFields(): void {
+        if (this.customFieldsContainer === null) return;
+        this.customFieldsContainer.empty();
+
+        for (const field of CustomFields.forClient(this.settings, this.clientValue)) {
+            const value = CustomFields.getValue({ extraFields: this.extraFieldsValue }, field);
+            const setValue = (newValue: string) => {
+                this.extraFieldsValue = CustomFields.setValue(this.extraFieldsValue, field, newValue);
+            };
+            const setting = new Setting(this.customFieldsContainer).setName(field.name);
+
+            switch (field.type) {
+                case 'boolean':
+                    setting.addToggle(toggle => toggle
+                        .setValue(value === CustomFields.TRUE_VALUE)
+                        .onChange(checked => setValue(checked ? CustomFields.TRUE_VALUE : '')));
+                    break;
+                case 'select':
+                    setting.addDropdown(dropdown => {
+                        dropdown.addOption('', 'None');
+                        for (const option of field.options ?? []) {
+                            dropdown.addOption(option, option);
+                        }
+                        // Keep a value that's no longer an option visible rather than dropping it
+                        if (value && !(field.options ?? []).includes(value)) {
+                            dropdown.addOption(value, value);
+                        }
+                        dropdown.setValue(value);
+                        dropdown.onChange(setValue);
+                    });
+                    break;
+                default:
+                    setting.addText(text => {
+                        if (field.type === 'number') text.inputEl.type = 'number';
+                        text.setValue(value);
+                        text.onChange(setValue);
+                    });
+            }
+        }
+    }
+
     /**
      * Populate project dropdown with projects for the selected client
      */
@@ -896,6 +1071,20 @@ export class EntryModal extends Modal {
         this.activityDropdown.setValue(this.activityValue);
     }
 
+    /**
+     * Refill the billable dropdown so the default option names the current activity's default
+     */
+    private updateBillableDropdown(): void {
+        if (this.billableDropdown === null) return;
+
+        const billableByDefault = Billing.activityDefault(this.settings, this.clientValue, this.activityValue);
+        this.billableDropdown.selectEl.empty();
+        this.billableDropdown.addOption('', billableByDefault ? 'Default (billable)' : 'Default (not billable)');
+        this.billableDropdown.addOption(TableParser.formatBillable(true), 'Billable');
+        this.billableDropdown.addOption(TableParser.formatBillable(false), 'Not billable');
+        this.billableDropdown.setValue(TableParser.formatBillable(this.billableValue));
+    }
+
     /**
      * Validate overlap with existing entries and update UI
      * Uses request ID to prevent race conditions from concurrent async calls
@@ -1092,11 +1281,7 @@ export class EntryModal extends Modal {
      * Check if two entries are same (helper for filtering)
      */
     private isSameEntry(a: TimeEntry, b: TimeEntry): boolean {
-        return (
-            a.startDateTime.getTime() === b.startDateTime.getTime() &&
-            a.endDateTime.getTime() === b.endDateTime.getTime() &&
-            a.description === b.description
-        );
+        return a.id === b.id;
     }
 
     /**
@@ -1195,6 +1380,33 @@ export class EntryModal extends Modal {
     }
 }
 
+/**
+ * Autocomplete for the tag input
+ */
+class TagSuggest extends AbstractInputSuggest<string> {
+    private getTags: (query: string) => string[];
+    private onPick: (tag: string) => void;
+
+    constructor(app: App, inputEl: HTMLInputElement, getTags: (query: string) => string[], onPick: (tag: string) => void) {
+        super(app, inputEl);
+        this.getTags = getTags;
+        this.onPick = onPick;
+    }
+
+    getSuggestions(query: string): string[] {
+        return this.getTags(query);
+    }
+
+    renderSuggestion(tag: string, el: HTMLElement): void {
+        el.setText(`#${tag}`);
+    }
+
+    selectSuggestion(tag: string): void {
+        this.onPick(tag);
+        this.close();
+    }
+}
+
 /**
  * Modal for selecting an existing note via fuzzy search
  */
@@ -0,0 +1,111 @@
+import { App, Modal } from 'obsidian';
+import type { TimeEntry } from '../types';
+import type { IntegrityFinding, IntegrityFix, IntegrityProblem } from '../data/IntegrityChecker';
+import { TableParser } from '../core/TableParser';
+
+/** Section headings, in display order */
+const PROBLEM_TITLES: Record<IntegrityProblem, string> = {
+    'overlap': 'Overlapping entries',
+    'non-positive-duration': 'Zero-length or negative entries',
+    'long-entry': 'Unusually long entries',
+    'unknown-client': 'Unknown clients',
+    'unknown-project': 'Unknown projects',
+    'project-wrong-client': 'Projects on the wrong client',
+    'unknown-activity': 'Unknown activities',
+    'broken-link': 'Broken linked notes',
+};
+
+/**
+ * Results of "Check time tracking data", with a fix or a jump for each finding
+ */
+export class IntegrityModal extends Modal {
+    private check: () => Promise<IntegrityFinding[]>;
+    private applyFix: (fix: IntegrityFix) => Promise<boolean>;
+    private showEntry: (entry: TimeEntry) => void;
+    /** Set while a fix is being saved, so buttons can't be clicked twice */
+    private busy = false;
+
+    constructor(
+        app: App,
+        check: () => Promise<IntegrityFinding[]>,
+        applyFix: (fix: IntegrityFix) => Promise<boolean>,
+        showEntry: (entry: TimeEntry) => void
+    ) {
+        super(app);
+        this.check = check;
+        this.applyFix = applyFix;
+        this.showEntry = showEntry;
+    }
+
+    onOpen(): void {
+        this.contentEl.addClass('time-tracker-integrity');
+        void this.refresh();
+    }
+
+    onClose(): void {
+        this.contentEl.empty();
+    }
+
+    /**
+     * Run the check again and render the findings
+     */
+    private async refresh(): Promise<void> {
+        const { contentEl } = this;
+        contentEl.empty();
+        contentEl.createEl('h2', { text: 'Time tracking data check' });
+        const status = contentEl.createEl('p', { text: 'Checking all data files…' });
+
+        const findings = await this.check();
+        status.setText(findings.length === 0
+            ? 'No problems found.'
+            : `Found ${findings.length} ${findings.length === 1 ? 'problem' : 'problems'}.`);
+
+        for (const problem of Object.keys(PROBLEM_TITLES) as IntegrityProblem[]) {
+            const group = findings.filter(f => f.problem === problem);
+            if (group.length === 0) continue;
+
+            contentEl.createEl('h3', { text: `${PROBLEM_TITLES[problem]} (${group.length})` });
+            const list = contentEl.createDiv('integrity-list');
+            for (const finding of group) {
+                this.renderFinding(list, finding);
+            }
+        }
+    }
+
+    /**
+     * Render one finding with its buttons
+     */
+    private renderFinding(container: HTMLElement, finding: IntegrityFinding): void {
+        const { entry } = finding;
+        const row = container.createDiv('integrity-item');
+
+        const info = row.createDiv('integrity-item-info');
+        info.createDiv({
+            text: `${TableParser.formatDateTime(entry.startDateTime)} – ${TableParser.formatDateTime(entry.endDateTime)}` +
+                (entry.description ? ` · ${entry.description}` : ''),
+            cls: 'integrity-item-entry',
+        });
+        info.createDiv({ text: finding.message, cls: 'integrity-item-message' });
+
+        const actions = row.createDiv('integrity-item-actions');
+        const showBtn = actions.createEl('button', { text: 'Show' });
+        showBtn.addEventListener('click', () => {
+            this.showEntry(entry);
+            this.close();
+        });
+
+        const { fix } = finding;
+        if (fix) {
+            const fixBtn = actions.createEl('button', { text: fix.label, cls: 'mod-cta' });
+            fixBtn.addEventListener('click', () => {
+                if (this.busy) return;
+                this.busy = true;
+                void this.applyFix(fix)
+                    .then(fixed => fixed ? this.refresh() : undefined)
+                    .finally(() => {
+                        this.busy = false;
+                    });
+            });
+        }
+    }
+}
@@ -0,0 +1,66 @@
+import { App, Modal } from 'obsidian';
+import type { NormalizedFile } from '../data/FileNormalizer';
+import { LineDiff } from '../utils/LineDiff';
+
+/**
+ * Dry run of "Normalize time tracking files": shows what would change in each file
+ */
+export class NormalizeModal extends Modal {
+    private files: NormalizedFile[];
+    /** Writes the files; resolves to false if that failed */
+    private onApply: () => Promise<boolean>;
+
+    constructor(app: App, files: NormalizedFile[], onApply: () => Promise<boolean>) {
+        super(app);
+        this.files = files;
+        this.onApply = onApply;
+    }
+
+    onOpen(): void {
+        const { contentEl } = this;
+        contentEl.empty();
+        contentEl.addClass('time-tracker-normalize');
+
+        contentEl.createEl('h2', { text: 'Normalize time tracking files' });
+        contentEl.createEl('p', {
+            text: `${this.files.length} ${this.files.length === 1 ? 'file' : 'files'} will be rewritten. ` +
+                'Review the changes below; nothing is written until you confirm.',
+        });
+
+        for (const file of this.files) {
+            contentEl.createEl('h3', { text: file.path, cls: 'normalize-file-path' });
+            const diffEl = contentEl.createDiv('normalize-diff');
+            for (const line of LineDiff.withContext(LineDiff.diff(file.before, file.after))) {
+                if (!line) {
+                    diffEl.createDiv({ text: '…', cls: 'normalize-diff-line is-skipped' });
+                    continue;
+                }
+                const prefix = line.type === 'added' ? '+ ' : line.type === 'removed' ? '- ' : '  ';
+                diffEl.createDiv({ text: prefix + line.text, cls: `normalize-diff-line is-${line.type}` });
+            }
+        }
+
+        const buttonContainer = contentEl.createDiv('relocate-button-container');
+        const cancelBtn = buttonContainer.createEl('button', { text: 'Cancel' });
+        cancelBtn.addEventListener('click', () => this.close());
+
+        const applyBtn = buttonContainer.createEl('button', {
+            text: `Rewrite ${this.files.length} ${this.files.length === 1 ? 'file' : 'files'}`,
+            cls: 'mod-cta',
+        });
+        applyBtn.addEventListener('click', () => {
+            applyBtn.disabled = true;
+            void this.onApply().then(written => {
+                if (written) {
+                    this.close();
+                } else {
+                    applyBtn.disabled = false;
+                }
+            });
+        });
+    }
+
+    onClose(): void {
+        this.contentEl.empty();
+    }
+}
@@ -0,0 +1,91 @@
+import { App, Modal } from 'obsidian';
+import type { RelocationPlan } from '../data/FolderRelocation';
+
+/** Collisions listed before the rest are summarised */
+const MAX_LISTED_COLLISIONS = 10;
+
+/**
+ * Confirmation for changing the time tracking folder
+ *
+ * Shows what a move would do and lets the user move the data, just point the
+ * plugin at the new folder, or cancel.
+ */
+export class RelocateFolderModal extends Modal {
+    private plan: RelocationPlan;
+    private onMove: () => void;
+    private onSwitchOnly: () => void;
+
+    constructor(app: App, plan: RelocationPlan, onMove: () => void, onSwitchOnly: () => void) {
+        super(app);
+        this.plan = plan;
+        this.onMove = onMove;
+        this.onSwitchOnly = onSwitchOnly;
+    }
+
+    onOpen(): void {
+        const { contentEl } = this;
+        const { plan } = this;
+        contentEl.empty();
+        contentEl.addClass('time-tracker-relocate');
+
+        contentEl.createEl('h2', { text: 'Change time tracking folder' });
+
+        if (plan.moves.length === 0) {
+            contentEl.createEl('p', { text: `There is nothing in "${plan.from}" to move. Time entries will be stored in "${plan.to}".` });
+        } else {
+            const count = plan.moves.length;
+            contentEl.createEl('p', {
+                text: `Move ${count} ${count === 1 ? 'file' : 'files'} from "${plan.from}" to "${plan.to}"? This includes time entries, linked notes and the trash. Links to linked notes are updated.`,
+            });
+            if (plan.invoiceFolder.startsWith(`${plan.to}/`)) {
+                contentEl.createEl('p', { text: `Invoices move along to "${plan.invoiceFolder}".` });
+            }
+        }
+
+        if (plan.collisions.length > 0) {
+            contentEl.createEl('p', {
+                text: 'These files already exist in the new folder. Move or rename them first:',
+                cls: 'relocate-collisions-title',
+            });
+            const list = contentEl.createEl('ul', { cls: 'relocate-collisions' });
+            for (const path of plan.collisions.slice(0, MAX_LISTED_COLLISIONS)) {
+                list.createEl('li', { text: path });
+            }
+            if (plan.collisions.length > MAX_LISTED_COLLISIONS) {
+                list.createEl('li', { text: `…and ${plan.collisions.length - MAX_LISTED_COLLISIONS} more` });
+            }
+        }
+
+        const buttonContainer = contentEl.createDiv('relocate-button-container');
+
+        const cancelBtn = buttonContainer.createEl('button', { text: 'Cancel' });
+        cancelBtn.addEventListener('click', () => this.close());
+
+        if (plan.moves.length > 0) {
+            const switchBtn = buttonContainer.createEl('button', { text: 'Switch without moving' });
+            switchBtn.addEventListener('click', () => {
+                this.onSwitchOnly();
+                this.close();
+            });
+        }
+
+        const moveBtn = buttonContainer.createEl('button', {
+            text: plan.moves.length > 0 ? 'Move files' : 'Use new folder',
+            cls: 'mod-cta',
+        });
+        moveBtn.disabled = plan.collisions.length > 0;
+        moveBtn.addEventListener('click', () => {
+            if (plan.moves.length > 0) {
+                this.onMove();
+            } else {
+                this.onSwitchOnly();
+            }
+            this.close();
+        });
+    }
+
+    onClose(): void {
+        const { contentEl } = this;
+        contentEl.empty();
+    }
+}
@@ -0,0 +1,143 @@
+import { App, Modal, Notice, Setting } from 'obsidian';
+import type { DataManager } from '../data/DataManager';
+import type { TaxonomyOperation, TaxonomyPlan } from '../data/Taxonomy';
+import { Logger } from '../utils/Logger';
+
+/**
+ * One way to carry out a rename or merge (e.g. one merge target)
+ */
+export interface TaxonomyChoice {
+    /** Shown in the target dropdown */
+    name: string;
+    operation: TaxonomyOperation;
+}
+
+/**
+ * Confirmation for renaming or merging a client, project or activity
+ *
+ * Shows how many entries would be rewritten before anything changes.
+ */
+export class TaxonomyModal extends Modal {
+    private dataManager: DataManager;
+    private title: string;
+    private choices: TaxonomyChoice[];
+    private onClosed: () => void;
+
+    private plan: TaxonomyPlan | null = null;
+    /** Ignores previews overtaken by a newer one */
+    private previewRequestId = 0;
+
+    private previewEl: HTMLElement;
+    private applyBtn: HTMLButtonElement;
+
+    /**
+     * @param choices - Operations to pick from (one for a rename, one per target for a merge)
+     * @param onClosed - Called when the modal closes, whether or not anything changed
+     */
+    constructor(app: App, dataManager: DataManager, title: string, choices: TaxonomyChoice[], onClosed: () => void) {
+        super(app);
+        this.dataManager = dataManager;
+        this.title = title;
+        this.choices = choices;
+        this.onClosed = onClosed;
+    }
+
+    onOpen(): void {
+        const { contentEl } = this;
+        contentEl.empty();
+        contentEl.addClass('time-tracker-taxonomy');
+
+        contentEl.createEl('h2', { text: this.title });
+
+        if (this.choices.length > 1) {
+            new Setting(contentEl)
+                .setName('Merge into')
+                .addDropdown(dropdown => {
+                    this.choices.forEach((choice, index) => {
+                        dropdown.addOption(String(index), choice.name);
+                    });
+                    dropdown.onChange(value => {
+                        void this.updatePreview(this.choices[Number(value)].operation);
+                    });
+                });
+        }
+
+        this.previewEl = contentEl.createDiv('taxonomy-preview');
+
+        const buttonContainer = contentEl.createDiv('relocate-button-container');
+        const cancelBtn = buttonContainer.createEl('button', { text: 'Cancel' });
+        cancelBtn.addEventListener('click', () => this.close());
+        this.applyBtn = buttonContainer.createEl('button', {
+            text: this.choices[0]?.operation.type === 'merge' ? 'Merge' : 'Rename',
+            cls: 'mod-cta',
+        });
+        this.applyBtn.addEventListener('click', () => {
+            void this.apply();
+        });
+
+        if (this.choices.length > 0) {
+            void this.updatePreview(this.choices[0].operation);
+        } else {
+            this.applyBtn.disabled = true;
+            this.previewEl.createEl('p', { text: 'There is nothing to merge into.' });
+        }
+    }
+
+    onClose(): void {
+        this.contentEl.empty();
+        this.onClosed();
+    }
+
+    /**
+     * Work out the plan for an operation and say what it will rewrite
+     */
+    private async updatePreview(operation: TaxonomyOperation): Promise<void> {
+        const requestId = ++this.previewRequestId;
+        this.plan = null;
+        this.applyBtn.disabled = true;
+        this.previewEl.empty();
+        this.previewEl.createEl('p', { text: 'Counting entries…', cls: 'setting-item-description' });
+
+        let plan: TaxonomyPlan;
+        try {
+            plan = await this.dataManager.previewTaxonomyChange(operation);
+        } catch (err) {
+            if (requestId !== this.previewRequestId) return;
+            this.previewEl.empty();
+            this.previewEl.createEl('p', { text: err instanceof Error ? err.message : String(err), cls: 'taxonomy-error' });
+            return;
+        }
+        if (requestId !== this.previewRequestId) return;
+
+        this.plan = plan;
+        this.applyBtn.disabled = false;
+        this.previewEl.empty();
+
+        const count = plan.changes.length;
+        const months = new Set(plan.changes.map(c => c.before?.date.slice(0, 7))).size;
+        this.previewEl.createEl('p', {
+            text: count === 0
+                ? 'No entries use it, so only the settings change.'
+                : `${count} ${count === 1 ? 'entry' : 'entries'} across ${months} ${months === 1 ? 'month' : 'months'} will be rewritten.`,
+        });
+        this.previewEl.createEl('p', {
+            text: 'You can undo this with the undo time entry change command.',
+            cls: 'setting-item-description',
+        });
+    }
+
+    private async apply(): Promise<void> {
+        if (!this.plan) return;
+
+        this.applyBtn.disabled = true;
+        try {
+            await this.dataManager.applyTaxonomyChange(this.plan);
+            new Notice(this.plan.label);
+            this.close();
+        } catch (err) {
+            Logger.error('TaxonomyModal: Failed to apply:', err);
+            new Notice(`Could not apply: ${err instanceof Error ? err.message : String(err)}`, 8000);
+            this.applyBtn.disabled = false;
+        }
+    }
+}
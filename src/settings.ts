@@ -1,7 +1,14 @@
-import { App, PluginSettingTab, Setting } from 'obsidian';
-import type { Project, Activity } from './types';
+import { App, PluginSettingTab, Setting, Notice } from 'obsidian';
+import type { Project, Activity, Client, PartitionStrategy, CustomFieldType } from './types';
+import { PARTITION_STRATEGY_NAMES } from './core/Partitioning';
 import type WhereDidTheTimeGoPlugin from '../main';
 import { ClientModal } from './modals/ClientModal';
+import { RelocateFolderModal } from './modals/RelocateFolderModal';
+import { CustomFieldModal } from './modals/CustomFieldModal';
+import { TaxonomyModal } from './modals/TaxonomyModal';
+import type { TaxonomyKind } from './data/Taxonomy';
+import { FolderRelocation, RelocationPlan } from './data/FolderRelocation';
+import { TimeZones } from './utils/TimeZones';
 
 export class TimeTrackerSettingTab extends PluginSettingTab {
     plugin: WhereDidTheTimeGoPlugin;
@@ -24,16 +31,19 @@ export class TimeTrackerSettingTab extends PluginSettingTab {
         // Storage Settings
         new Setting(containerEl).setName("Storage").setHeading();
 
+        let folderValue = this.plugin.settings.timeTrackingFolder;
         new Setting(containerEl)
             .setName('Time tracking folder')
-            .setDesc('Folder where time entries will be stored (relative to vault root)')
+            .setDesc('Folder where time entries will be stored (relative to vault root). Click change to move existing data there.')
             .addText(text => text
                 .setPlaceholder('Enter folder name')
-                .setValue(this.plugin.settings.timeTrackingFolder)
-                .onChange(async (value) => {
-                    this.plugin.settings.timeTrackingFolder = value || 'TimeTracking';
-                    await this.plugin.saveSettings();
-                }));
+                .setValue(folderValue)
+                .onChange((value) => {
+                    folderValue = value;
+                }))
+            .addButton(button => button
+                .setButtonText('Change…')
+                .onClick(() => this.changeDataFolder(folderValue || 'TimeTracking')));
 
         new Setting(containerEl)
             .setName('Auto-create folder')
@@ -55,6 +65,36 @@ export class TimeTrackerSettingTab extends PluginSettingTab {
                     await this.plugin.saveSettings();
                 }));
 
+        new Setting(containerEl)
+            .setName('Record time zone')
+            .setDesc(`Save the time zone new entries are created in (${TimeZones.local()}), so they show at the right time on devices in other zones. Entries without one are read in each device's own zone.`)
+            .addToggle(toggle => toggle
+                .setValue(this.plugin.settings.recordTimeZone)
+                .onChange(async (value) => {
+                    this.plugin.settings.recordTimeZone = value;
+                    await this.plugin.saveSettings();
+                }));
+
+        new Setting(containerEl)
+            .setName('File layout')
+            .setDesc('How entries are split into files. After changing this, move existing entries so they show up again.')
+            .addDropdown(dropdown => {
+                for (const [value, name] of Object.entries(PARTITION_STRATEGY_NAMES)) {
+                    dropdown.addOption(value, name);
+                }
+                dropdown.setValue(this.plugin.settings.partitioning);
+                dropdown.onChange(async (value) => {
+                    this.plugin.settings.partitioning = value as PartitionStrategy;
+                    await this.plugin.saveSettings();
+                    new Notice('File layout changed. Move existing entries to see data saved in the old layout.');
+                });
+            })
+            .addButton(button => button
+                .setButtonText('Move existing entries')
+                .onClick(() => {
+                    void this.plugin.repartitionEntries();
+                }));
+
         // Timeline Display Settings
         new Setting(containerEl).setName("Timeline display").setHeading();
 
@@ -202,6 +242,32 @@ export class TimeTrackerSettingTab extends PluginSettingTab {
                     modal.open();
                 }));
 
+        // Custom Fields Section
+        new Setting(containerEl).setName("Custom fields").setHeading();
+        containerEl.createEl('p', {
+            text: 'Extra details to record on entries, such as a purchase order number or cost center. Each field is stored as its own table column.',
+            cls: 'setting-item-description'
+        });
+
+        const fieldsContainer = containerEl.createDiv('custom-fields-container');
+        this.renderCustomFieldsList(fieldsContainer);
+
+        new Setting(containerEl)
+            .addButton(button => button
+                .setButtonText('Add field')
+                .onClick(() => {
+                    new CustomFieldModal(
+                        this.app,
+                        { mode: 'create', clients: this.plugin.settings.clients, fields: this.plugin.settings.customFields },
+                        (field) => {
+                            this.plugin.settings.customFields.push(field);
+                            void this.plugin.saveSettings().then(() => {
+                                this.renderCustomFieldsList(fieldsContainer);
+                            });
+                        }
+                    ).open();
+                }));
+
         // Developer Settings
         new Setting(containerEl).setName("Developer").setHeading();
 
@@ -291,6 +357,16 @@ export class TimeTrackerSettingTab extends PluginSettingTab {
                 modal.open();
             });
 
+            // Merge button (stops propagation)
+            const others = this.plugin.settings.clients.filter(c => c !== client);
+            if (others.length > 0) {
+                const mergeBtn = clientHeader.createEl('button', { text: 'Merge', cls: 'client-edit-btn' });
+                mergeBtn.addEventListener('click', (e) => {
+                    e.stopPropagation();
+                    this.mergeItem('client', client, others, container);
+                });
+            }
+
             // Expanded content: Projects and Activities
             if (isExpanded) {
                 const expandedContent = clientCard.createDiv('client-expanded');
@@ -380,11 +456,19 @@ export class TimeTrackerSettingTab extends PluginSettingTab {
         const nameInput = item.createEl('input', { type: 'text', cls: 'client-item-name' });
         nameInput.value = project.name;
         nameInput.addEventListener('change', () => {
-            project.name = nameInput.value;
-            project.id = this.slugify(nameInput.value);
-            void this.plugin.saveSettings();
+            this.renameItem('project', project, nameInput.value, parentContainer);
         });
 
+        // Merge into another project of the same client
+        const siblings = this.plugin.settings.projects.filter(p => p !== project && p.clientId === project.clientId);
+        if (siblings.length > 0) {
+            const mergeBtn = item.createEl('button', { text: '🔀', cls: 'client-item-btn' });
+            mergeBtn.title = 'Merge into another project';
+            mergeBtn.addEventListener('click', () => {
+                this.mergeItem('project', project, siblings, parentContainer);
+            });
+        }
+
         // Archive toggle
         const archiveBtn = item.createEl('button', {
             text: project.archived ? '↩' : '📦',
@@ -427,10 +511,32 @@ export class TimeTrackerSettingTab extends PluginSettingTab {
         const nameInput = item.createEl('input', { type: 'text', cls: 'client-item-name' });
         nameInput.value = activity.name;
         nameInput.addEventListener('change', () => {
-            activity.name = nameInput.value;
-            activity.id = this.slugify(nameInput.value);
-            void this.plugin.saveSettings();
+            this.renameItem('activity', activity, nameInput.value, parentContainer);
+        });
+
+        // Billable toggle (entries can still override it)
+        const billable = activity.billable !== false;
+        const billableBtn = item.createEl('button', {
+            text: billable ? '💰' : '🚫',
+            cls: 'client-item-btn',
         });
+        billableBtn.title = billable ? 'Billable by default - click to make non-billable' : 'Not billable by default - click to make billable';
+        billableBtn.addEventListener('click', () => {
+            activity.billable = !billable;
+            void this.plugin.saveSettings().then(() => {
+                this.renderClientsList(parentContainer);
+            });
+        });
+
+        // Merge into another activity of the same client
+        const siblings = this.plugin.settings.activities.filter(a => a !== activity && a.clientId === activity.clientId);
+        if (siblings.length > 0) {
+            const mergeBtn = item.createEl('button', { text: '🔀', cls: 'client-item-btn' });
+            mergeBtn.title = 'Merge into another activity';
+            mergeBtn.addEventListener('click', () => {
+                this.mergeItem('activity', activity, siblings, parentContainer);
+            });
+        }
 
         // Delete button
         const deleteBtn = item.createEl('button', { text: '🗑', cls: 'client-item-btn' });
@@ -443,11 +549,113 @@ export class TimeTrackerSettingTab extends PluginSettingTab {
         });
     }
 
-    private slugify(text: string): string {
-        return text
-            .toLowerCase()
-            .replace(/[^a-z0-9]+/g, '-')
-            .replace(/(^-|-$)/g, '');
+    /**
+     * Rename a project or activity after confirming, rewriting the entries that use it
+     */
+    private renameItem(kind: 'project' | 'activity', item: Project | Activity, value: string, parentContainer: HTMLElement): void {
+        const name = value.trim();
+        if (!name || name === item.name) {
+            this.renderClientsList(parentContainer);
+            return;
+        }
+        new TaxonomyModal(
+            this.app,
+            this.plugin.dataManager,
+            `Rename ${kind} "${item.name}" to "${name}"`,
+            [{ name, operation: { type: 'rename', kind, id: item.id, name } }],
+            () => this.renderClientsList(parentContainer)
+        ).open();
+    }
+
+    /**
+     * Merge a client, project or activity into one of the targets after confirming
+     */
+    private mergeItem(kind: TaxonomyKind, item: Client | Project | Activity, targets: (Client | Project | Activity)[], parentContainer: HTMLElement): void {
+        new TaxonomyModal(
+            this.app,
+            this.plugin.dataManager,
+            `Merge ${kind} "${item.name}"`,
+            targets.map(target => ({ name: target.name, operation: { type: 'merge', kind, id: item.id, intoId: target.id } })),
+            () => this.renderClientsList(parentContainer)
+        ).open();
+    }
+
+    private renderCustomFieldsList(container: HTMLElement): void {
+        container.empty();
+        const { customFields, clients } = this.plugin.settings;
+
+        if (customFields.length === 0) {
+            container.createEl('p', {
+                text: 'No custom fields defined yet.',
+                cls: 'setting-item-description'
+            });
+            return;
+        }
+
+        const typeNames: Record<CustomFieldType, string> = {
+            text: 'Text',
+            number: 'Number',
+            select: 'Select',
+            boolean: 'Yes/no',
+        };
+
+        customFields.forEach((field, index) => {
+            const client = clients.find(c => c.id === field.clientId);
+            const scope = field.clientId ? client?.name ?? field.clientId : 'All clients';
+            const options = field.type === 'select' ? ` (${(field.options ?? []).join(', ')})` : '';
+
+            new Setting(container)
+                .setName(field.name)
+                .setDesc(`${typeNames[field.type]}${options} · ${scope}`)
+                .addExtraButton(button => button
+                    .setIcon('pencil')
+                    .setTooltip('Edit')
+                    .onClick(() => {
+                        new CustomFieldModal(
+                            this.app,
+                            { mode: 'edit', field, clients, fields: customFields },
+                            (updated) => {
+                                customFields[index] = updated;
+                                void this.plugin.saveSettings().then(() => {
+                                    this.renderCustomFieldsList(container);
+                                });
+                            },
+                            () => {
+                                customFields.splice(index, 1);
+                                void this.plugin.saveSettings().then(() => {
+                                    this.renderCustomFieldsList(container);
+                                });
+                            }
+                        ).open();
+                    }));
+        });
+    }
+
+    /**
+     * Show what changing the data folder would do, then move or just switch
+     */
+    private changeDataFolder(value: string): void {
+        const { settings } = this.plugin;
+        let plan: RelocationPlan;
+        try {
+            plan = new FolderRelocation(this.app).plan(settings.timeTrackingFolder, value, settings.invoiceFolder);
+        } catch (err) {
+            new Notice(err instanceof Error ? err.message : String(err));
+            return;
+        }
+
+        new RelocateFolderModal(
+            this.app,
+            plan,
+            () => {
+                void this.plugin.relocateDataFolder(plan).then(() => this.display());
+            },
+            () => {
+                settings.timeTrackingFolder = plan.to;
+                this.plugin.dataManager.reset();
+                void this.plugin.saveSettings().then(() => this.display());
+            }
+        ).open();
     }
 
     private getRandomColor(): string {
@@ -6,6 +6,8 @@
  * A time entry representing a block of tracked time
  */
 export interface TimeEntry {
+    /** Stable unique identifier, persisted in the ID column */
+    id: string;
     /** YYYY-MM-DD date from parent heading */
     date: string;
     /** Start time in HH:mm format */
@@ -18,10 +20,21 @@ export interface TimeEntry {
     project?: string;
     /** Optional activity type (feat, fix, meeting, etc.) */
     activity?: string;
+    /** Optional labels that can stack (e.g. oncall, overtime), stored without the leading # */
+    tags?: string[];
+    /** Billable override; when not set, the activity's default applies */
+    billable?: boolean;
     /** Client for billing (required) */
     client: string;
     /** Optional wikilink path to linked note */
     linkedNote?: string;
+    /**
+     * Time zone the entry was recorded in (IANA name or offset like +02:00).
+     * Times are written in this zone; without one they're this device's local time.
+     */
+    timeZone?: string;
+    /** Values of columns the plugin doesn't manage, keyed by header (raw markdown) */
+    extraFields?: Record<string, string>;
 
     // Computed at parse time:
     /** Full start datetime */
@@ -34,6 +47,27 @@ export interface TimeEntry {
     durationMinutes: number;
 }
 
+/**
+ * Fields supplied when creating an entry (computed fields are derived on save)
+ * The id is optional - a new one is generated if missing
+ */
+export type NewTimeEntry = Omit<TimeEntry, 'id' | 'lineNumber' | 'durationMinutes' | 'startDateTime' | 'endDateTime'> & {
+    id?: string;
+};
+
+/**
+ * A single change to the stored entries
+ * - create: only `after` is set
+ * - delete: only `before` is set
+ * - update/move: both are set (same id)
+ */
+export interface EntryChange {
+    /** Entry as stored before the change */
+    before?: TimeEntry;
+    /** Entry as it should be stored after the change */
+    after?: TimeEntry;
+}
+
 /**
  * A project for categorizing time entries
  * Projects belong to a client
@@ -67,6 +101,8 @@ export interface Activity {
     color: string;
     /** Client ID this activity belongs to (required) */
     clientId: string;
+    /** Whether time on this activity is billable by default (true if not set) */
+    billable?: boolean;
 }
 
 /**
@@ -114,6 +150,74 @@ export interface BillFrom {
     address: string;
 }
 
+/**
+ * Value type of a custom field
+ */
+export type CustomFieldType = 'text' | 'number' | 'select' | 'boolean';
+
+/**
+ * A user-defined field stored as an extra table column
+ */
+export interface CustomField {
+    /** Unique identifier (slug) */
+    id: string;
+    /** Display name, also used as the table column header */
+    name: string;
+    /** Value type - decides the input in the entry modal */
+    type: CustomFieldType;
+    /** Allowed values (select fields only) */
+    options?: string[];
+    /** Client ID this field applies to (all clients if not set) */
+    clientId?: string;
+}
+
+/**
+ * How dates are written in an imported CSV file
+ */
+export type ImportDateFormat = 'YYYY-MM-DD' | 'MM/DD/YYYY' | 'DD/MM/YYYY' | 'DD.MM.YYYY';
+
+/**
+ * Which CSV column holds each entry field, by header name
+ *
+ * Columns that aren't set (or missing from a file) are left out. Times need a
+ * start date plus an end time or a duration; rows without a start time are
+ * placed one after another from the import's day start. When activity and tags
+ * name the same column, its first value is the activity and the rest are tags.
+ */
+export interface CsvColumnMapping {
+    /** Unique identifier (slug) */
+    id: string;
+    /** Display name */
+    name: string;
+    dateFormat: ImportDateFormat;
+    startDate: string;
+    startTime?: string;
+    /** End date (the start date if not set) */
+    endDate?: string;
+    endTime?: string;
+    /** Decimal hours (1.5) or h:mm[:ss] (1:30) */
+    duration?: string;
+    description?: string;
+    client?: string;
+    project?: string;
+    activity?: string;
+    tags?: string;
+    billable?: string;
+    /** Hourly rate, used for clients and projects the import adds */
+    rate?: string;
+    /** Currency code; also read from a rate header like "Billable Rate (USD)" */
+    currency?: string;
+}
+
+/**
+ * How entries are split into files inside the time tracking folder
+ * - monthly: YYYY-MM.md
+ * - weekly: YYYY-Www.md (ISO weeks, Monday start)
+ * - yearly: YYYY.md
+ * - client-monthly: <client>/YYYY-MM.md
+ */
+export type PartitionStrategy = 'monthly' | 'weekly' | 'yearly' | 'client-monthly';
+
 /**
  * Plugin settings stored in Obsidian's data.json
  */
@@ -152,6 +256,14 @@ export interface TimeTrackerSettings {
     debugMode: boolean;
     /** Hide data tables in reading view using %% comment markers */
     hideTablesInPreview: boolean;
+    /** Store this device's time zone with new entries */
+    recordTimeZone: boolean;
+    /** How entries are split into files */
+    partitioning: PartitionStrategy;
+    /** User-defined fields stored as extra table columns */
+    customFields: CustomField[];
+    /** Column mappings saved in the CSV import wizard */
+    importMappings: CsvColumnMapping[];
 }
 
 /**
@@ -190,8 +302,28 @@ export const DEFAULT_SETTINGS: TimeTrackerSettings = {
     defaultActivity: '',
     debugMode: false,
     hideTablesInPreview: true,
+    recordTimeZone: false,
+    partitioning: 'monthly',
+    customFields: [],
+    importMappings: [],
 };
 
+/**
+ * A table row that could not be read as a time entry
+ */
+export interface ParseWarning {
+    /** Vault path of the file containing the row */
+    file: string;
+    /** Data row index within its table (1 = first row after the header) */
+    row: number;
+    /** Header of the offending column, if the problem is in a single cell */
+    column?: string;
+    /** Human readable explanation */
+    reason: string;
+    /** 1-based line number in the file */
+    line: number;
+}
+
 /**
  * Result of parsing a monthly file
  */
@@ -202,6 +334,10 @@ export interface ParsedMonth {
     entries: TimeEntry[];
     /** Map of date string to entries for that date */
     entriesByDate: Map<string, TimeEntry[]>;
+    /** Rows that were skipped because they couldn't be parsed */
+    warnings: ParseWarning[];
+    /** Hash of the file content that was parsed, to detect changes before writing */
+    contentHash: string;
 }
 
 /**
@@ -214,6 +350,16 @@ export const VIEW_TYPE_TIMELINE = 'where-did-the-time-go-timeline';
  */
 export const VIEW_TYPE_REPORTS = 'where-did-the-time-go-reports';
 
+/**
+ * View type identifier for the trash view
+ */
+export const VIEW_TYPE_TRASH = 'where-did-the-time-go-trash';
+
+/**
+ * View type identifier for the search view
+ */
+export const VIEW_TYPE_SEARCH = 'where-did-the-time-go-search';
+
 /**
  * Time range preset options for reports
  */
@@ -229,6 +375,8 @@ export interface ProjectReport {
     color: string;
     /** Total minutes for this project */
     totalMinutes: number;
+    /** Minutes that count as billable */
+    billableMinutes: number;
     /** Percentage of total time */
     percentage: number;
     /** Breakdown by activity within this project */
@@ -281,7 +429,11 @@ export interface ClientReport {
     currency: string;
     /** Total minutes for this client */
     totalMinutes: number;
-    /** Calculated billable amount (rate * hours or days) */
+    /** Minutes that count as billable */
+    billableMinutes: number;
+    /** Minutes that are not billable (internal meetings etc.) */
+    nonBillableMinutes: number;
+    /** Calculated billable amount (rate * billable hours) */
     billableAmount: number;
     /** Percentage of total time */
     percentage: number;
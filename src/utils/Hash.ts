@@ -0,0 +1,17 @@
+/**
+ * Small non-cryptographic hashing helpers
+ * Used for change detection and deriving stable identifiers, never for security
+ */
+export class Hash {
+    /**
+     * 32-bit FNV-1a hash of a string, returned as 8 hex characters
+     */
+    static fnv1a(text: string): string {
+        let hash = 0x811c9dc5;
+        for (let i = 0; i < text.length; i++) {
+            hash ^= text.charCodeAt(i);
+            hash = Math.imul(hash, 0x01000193);
+        }
+        return (hash >>> 0).toString(16).padStart(8, '0');
+    }
+}
@@ -0,0 +1,85 @@
+/**
+ * One line of a diff
+ */
+export interface DiffLine {
+    type: 'same' | 'added' | 'removed';
+    text: string;
+}
+
+/**
+ * Line-based diff for previewing file rewrites
+ */
+export class LineDiff {
+    /**
+     * Lines of before and after, marked as kept, removed or added (longest common subsequence)
+     */
+    static diff(before: string, after: string): DiffLine[] {
+        const a = before.split('\n');
+        const b = after.split('\n');
+
+        // Skip the common prefix and suffix, so the table below only covers the changed middle
+        let start = 0;
+        while (start < a.length && start < b.length && a[start] === b[start]) start++;
+        let endA = a.length;
+        let endB = b.length;
+        while (endA > start && endB > start && a[endA - 1] === b[endB - 1]) {
+            endA--;
+            endB--;
+        }
+
+        const rows = endA - start;
+        const cols = endB - start;
+        // lcs[i * (cols + 1) + j] = common lines of a[start + i..endA) and b[start + j..endB)
+        const lcs = new Uint32Array((rows + 1) * (cols + 1));
+        for (let i = rows - 1; i >= 0; i--) {
+            for (let j = cols - 1; j >= 0; j--) {
+                lcs[i * (cols + 1) + j] = a[start + i] === b[start + j]
+                    ? lcs[(i + 1) * (cols + 1) + j + 1] + 1
+                    : Math.max(lcs[(i + 1) * (cols + 1) + j], lcs[i * (cols + 1) + j + 1]);
+            }
+        }
+
+        const lines: DiffLine[] = a.slice(0, start).map(text => ({ type: 'same', text }));
+        let i = 0;
+        let j = 0;
+        while (i < rows || j < cols) {
+            if (i < rows && j < cols && a[start + i] === b[start + j]) {
+                lines.push({ type: 'same', text: a[start + i] });
+                i++;
+                j++;
+            } else if (i < rows && (j === cols || lcs[(i + 1) * (cols + 1) + j] >= lcs[i * (cols + 1) + j + 1])) {
+                // Removals first, so a changed line reads as - old / + new
+                lines.push({ type: 'removed', text: a[start + i] });
+                i++;
+            } else {
+                lines.push({ type: 'added', text: b[start + j] });
+                j++;
+            }
+        }
+        lines.push(...a.slice(endA).map(text => ({ type: 'same' as const, text })));
+        return lines;
+    }
+
+    /**
+     * Changed lines with a few unchanged lines around them; null marks skipped lines
+     */
+    static withContext(lines: DiffLine[], context: number = 2): (DiffLine | null)[] {
+        const keep = lines.map(() => false);
+        lines.forEach((line, index) => {
+            if (line.type === 'same') return;
+            for (let k = Math.max(0, index - context); k <= Math.min(lines.length - 1, index + context); k++) {
+                keep[k] = true;
+            }
+        });
+
+        const result: (DiffLine | null)[] = [];
+        lines.forEach((line, index) => {
+            if (keep[index]) {
+                result.push(line);
+            } else if (result.length === 0 || result[result.length - 1] !== null) {
+                result.push(null);
+            }
+        });
+        return result;
+    }
+}
@@ -0,0 +1,64 @@
+/**
+ * Map with a size limit that evicts the least recently used key
+ * Relies on Map keeping insertion order: every read re-inserts the key at the end.
+ */
+export class LruCache<K, V> {
+    private readonly maxSize: number;
+    private readonly items: Map<K, V> = new Map();
+
+    constructor(maxSize: number) {
+        this.maxSize = maxSize;
+    }
+
+    /**
+     * Number of cached items
+     */
+    get size(): number {
+        return this.items.size;
+    }
+
+    /**
+     * Whether a key is cached (doesn't count as a use)
+     */
+    has(key: K): boolean {
+        return this.items.has(key);
+    }
+
+    /**
+     * Cached value for a key, marking it as most recently used
+     */
+    get(key: K): V | undefined {
+        if (!this.items.has(key)) return undefined;
+        const value = this.items.get(key);
+        this.items.delete(key);
+        this.items.set(key, value);
+        return value;
+    }
+
+    /**
+     * Cache a value, evicting the least recently used key if over the limit
+     */
+    set(key: K, value: V): void {
+        this.items.delete(key);
+        this.items.set(key, value);
+        while (this.items.size > this.maxSize) {
+            const oldest = this.items.keys().next() as IteratorResult<K, undefined>;
+            if (oldest.done) break;
+            this.items.delete(oldest.value);
+        }
+    }
+
+    /**
+     * Remove a key
+     */
+    delete(key: K): void {
+        this.items.delete(key);
+    }
+
+    /**
+     * Remove everything
+     */
+    clear(): void {
+        this.items.clear();
+    }
+}
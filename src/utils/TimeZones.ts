@@ -0,0 +1,132 @@
+/**
+ * Wall-clock date and time fields (month is 1-12)
+ */
+export interface WallClock {
+    year: number;
+    month: number;
+    day: number;
+    hours: number;
+    minutes: number;
+}
+
+/**
+ * Conversions between instants and wall-clock times in a time zone
+ *
+ * A zone is an IANA name ("Europe/Berlin"), a fixed offset ("+02:00", "-05:30")
+ * or "Z"/"UTC". Offsets of IANA zones come from Intl, so DST is handled.
+ */
+export class TimeZones {
+    private static readonly OFFSET_PATTERN = /^([+-])(\d{2}):(\d{2})$/;
+    private static formatters = new Map<string, Intl.DateTimeFormat>();
+
+    /**
+     * Zone of this device
+     */
+    static local(): string {
+        return Intl.DateTimeFormat().resolvedOptions().timeZone || TimeZones.formatOffset(-new Date().getTimezoneOffset());
+    }
+
+    /**
+     * Whether a zone name or offset is understood
+     */
+    static isValid(zone: string): boolean {
+        if (zone === 'Z' || zone === 'UTC' || TimeZones.OFFSET_PATTERN.test(zone)) return true;
+        try {
+            TimeZones.formatter(zone);
+            return true;
+        } catch {
+            return false;
+        }
+    }
+
+    /**
+     * Minutes a zone is ahead of UTC at an instant
+     */
+    static offsetMinutes(zone: string, instant: Date): number {
+        if (zone === 'Z' || zone === 'UTC') return 0;
+        const match = zone.match(TimeZones.OFFSET_PATTERN);
+        if (match) {
+            const minutes = Number(match[2]) * 60 + Number(match[3]);
+            return match[1] === '-' ? -minutes : minutes;
+        }
+
+        const parts: Record<string, number> = {};
+        for (const part of TimeZones.formatter(zone).formatToParts(instant)) {
+            parts[part.type] = Number(part.value);
+        }
+        const asUtc = Date.UTC(parts.year, parts.month - 1, parts.day, parts.hour, parts.minute);
+        const minuteStart = Math.floor(instant.getTime() / 60000) * 60000;
+        return Math.round((asUtc - minuteStart) / 60000);
+    }
+
+    /**
+     * Instant of a wall-clock time in a zone
+     * (times skipped by a DST change come out an hour off)
+     */
+    static toInstant(wall: WallClock, zone: string): Date {
+        const asUtc = Date.UTC(wall.year, wall.month - 1, wall.day, wall.hours, wall.minutes);
+        const guess = asUtc - TimeZones.offsetMinutes(zone, new Date(asUtc)) * 60000;
+        // The offset at the guess can differ near a DST change, so check once more
+        const offset = TimeZones.offsetMinutes(zone, new Date(guess));
+        return new Date(asUtc - offset * 60000);
+    }
+
+    /**
+     * Wall-clock time of an instant in a zone (this device's zone if none given)
+     */
+    static toWallClock(instant: Date, zone?: string): WallClock {
+        if (!zone) {
+            return {
+                year: instant.getFullYear(),
+                month: instant.getMonth() + 1,
+                day: instant.getDate(),
+                hours: instant.getHours(),
+                minutes: instant.getMinutes(),
+            };
+        }
+        const shifted = new Date(instant.getTime() + TimeZones.offsetMinutes(zone, instant) * 60000);
+        return {
+            year: shifted.getUTCFullYear(),
+            month: shifted.getUTCMonth() + 1,
+            day: shifted.getUTCDate(),
+            hours: shifted.getUTCHours(),
+            minutes: shifted.getUTCMinutes(),
+        };
+    }
+
+    /**
+     * Whether a zone shows a different time than this device at an instant
+     */
+    static differsFromLocal(zone: string | undefined, instant: Date): boolean {
+        return !!zone && TimeZones.offsetMinutes(zone, instant) !== -instant.getTimezoneOffset();
+    }
+
+    /**
+     * Format minutes ahead of UTC as "+HH:MM"
+     */
+    static formatOffset(minutes: number): string {
+        const sign = minutes < 0 ? '-' : '+';
+        const abs = Math.abs(minutes);
+        return `${sign}${Math.floor(abs / 60).toString().padStart(2, '0')}:${(abs % 60).toString().padStart(2, '0')}`;
+    }
+
+    /**
+     * Cached formatter for reading wall-clock fields in an IANA zone (throws for unknown zones)
+     */
+    private static formatter(zone: string): Intl.DateTimeFormat {
+        let formatter = TimeZones.formatters.get(zone);
+        if (!formatter) {
+            formatter = new Intl.DateTimeFormat('en-US', {
+                timeZone: zone,
+                hourCycle: 'h23',
+                year: 'numeric',
+                month: 'numeric',
+                day: 'numeric',
+                hour: 'numeric',
+                minute: 'numeric',
+            });
+            TimeZones.formatters.set(zone, formatter);
+        }
+        return formatter;
+    }
+}
@@ -1,10 +1,14 @@
-import { ItemView, WorkspaceLeaf, Notice } from 'obsidian';
-import { VIEW_TYPE_REPORTS, TimeEntry, TimeTrackerSettings, TimeRangePreset, ProjectReport, ProjectActivityBreakdown, ActivityReport, ClientReport, Client } from '../types';
+import { ItemView, WorkspaceLeaf, Notice, TFile } from 'obsidian';
+import { VIEW_TYPE_REPORTS, TimeEntry, TimeTrackerSettings, TimeRangePreset, ProjectReport, ProjectActivityBreakdown, ActivityReport, ClientReport, Client, ParseWarning } from '../types';
 import { DataManager } from '../data/DataManager';
-import { TableParser } from '../data/TableParser';
+import { TableParser } from '../core/TableParser';
 import { Logger } from '../utils/Logger';
 import { InvoiceModal, InvoiceModalData } from '../modals/InvoiceModal';
+import { ReportDimensions, ReportDimension } from '../data/ReportDimensions';
+import { CustomFields } from '../data/CustomFields';
 import { InvoiceGenerator } from '../invoice/InvoiceGenerator';
+import { Billing } from '../core/Billing';
+import { Reports } from '../core/Reports';
 
 /** Maximum days allowed for report range to prevent performance issues */
 const MAX_REPORT_DAYS = 90;
@@ -24,6 +28,14 @@ export class ReportsView extends ItemView {
     private activityReports: ActivityReport[] = [];
     private clientReports: ClientReport[] = [];
     private totalMinutes: number = 0;
+    private billableMinutes: number = 0;
+
+    // Group-by and filter (dimension IDs from ReportDimensions)
+    private groupBy: string = 'client';
+    private filterDimension: string = '';
+    private filterValue: string = '';
+    /** Entries in the range before filtering (for the filter value list) */
+    private rangeEntries: TimeEntry[] = [];
 
     // Store current entries and date range for invoice generation
     private currentEntries: TimeEntry[] = [];
@@ -34,10 +46,12 @@ export class ReportsView extends ItemView {
     private contentContainer: HTMLElement;
     private rangeSelector: HTMLElement;
     private customDateInputs: HTMLElement;
+    private dimensionControls: HTMLElement;
     private summaryContainer: HTMLElement;
     private reportsContainer: HTMLElement;
     private activityContainer: HTMLElement;
     private clientContainer: HTMLElement;
+    private problemsContainer: HTMLElement;
 
     // Expanded clients (for project breakdown)
     private expandedClients: Set<string> = new Set();
@@ -107,9 +121,15 @@ export class ReportsView extends ItemView {
         this.customDateInputs.addClass('is-hidden');
         this.renderCustomDateInputs();
 
+        // Group-by and filter controls
+        this.dimensionControls = this.contentContainer.createDiv('reports-dimension-controls');
+
         // Summary section
         this.summaryContainer = this.contentContainer.createDiv('reports-summary');
 
+        // Rows that couldn't be parsed (hidden when there are none)
+        this.problemsContainer = this.contentContainer.createDiv('reports-problems');
+
         // Reports table (By Project)
         this.reportsContainer = this.contentContainer.createDiv('reports-table-container');
 
@@ -327,11 +347,13 @@ export class ReportsView extends ItemView {
         Logger.log('ReportsView: Loading report for', start.toDateString(), 'to', end.toDateString());
 
         // Load entries for the date range (includes overlapping entries)
-        const entries = await this.dataManager.loadDateRange(start, end);
+        let entries = await this.dataManager.loadDateRange(start, end);
 
         Logger.log('ReportsView: Found', entries.length, 'entries');
 
-        // Store for invoice generation
+        // Store for invoice generation (filtered, so invoices match what's shown)
+        this.rangeEntries = entries;
+        entries = this.applyFilter(entries);
         this.currentEntries = entries;
         this.currentRangeStart = start;
         this.currentRangeEnd = end;
@@ -343,7 +365,149 @@ export class ReportsView extends ItemView {
 
         // Render the results
         this.renderSummary(start, end);
-        this.renderClientTable();
+        this.renderProblems(await this.dataManager.loadWarningsForRange(start, end));
+        this.renderDimensionControls();
+        this.renderBreakdown();
+    }
+
+    /**
+     * Render the group-by and filter selects
+     */
+    private renderDimensionControls(): void {
+        this.dimensionControls.empty();
+        const dimensions = ReportDimensions.forSettings(this.settings);
+
+        // Drop choices that no longer exist (e.g. a deleted custom field)
+        if (!dimensions.some(d => d.id === this.groupBy)) this.groupBy = 'client';
+        if (this.filterDimension && !dimensions.some(d => d.id === this.filterDimension)) {
+            this.filterDimension = '';
+            this.filterValue = '';
+        }
+
+        const groupLabel = this.dimensionControls.createEl('label', { text: 'Group by ' });
+        const groupSelect = groupLabel.createEl('select', { cls: 'dropdown' });
+        for (const dimension of dimensions) {
+            groupSelect.createEl('option', {
+                text: dimension.id === 'client' ? 'Client / project / activity' : dimension.label,
+                value: dimension.id,
+            });
+        }
+        groupSelect.value = this.groupBy;
+        groupSelect.addEventListener('change', () => {
+            this.groupBy = groupSelect.value;
+            this.renderBreakdown();
+        });
+
+        const filterLabel = this.dimensionControls.createEl('label', { text: 'Filter ' });
+        const filterSelect = filterLabel.createEl('select', { cls: 'dropdown' });
+        filterSelect.createEl('option', { text: 'All entries', value: '' });
+        for (const dimension of dimensions) {
+            filterSelect.createEl('option', { text: dimension.label, value: dimension.id });
+        }
+        filterSelect.value = this.filterDimension;
+        filterSelect.addEventListener('change', () => {
+            this.filterDimension = filterSelect.value;
+            this.filterValue = '';
+            void this.loadReport();
+        });
+
+        const filterDim = dimensions.find(d => d.id === this.filterDimension);
+        if (filterDim) {
+            const valueSelect = filterLabel.createEl('select', { cls: 'dropdown' });
+            const values = ReportDimensions.distinctValues(this.rangeEntries, filterDim);
+            if (this.filterValue && !values.includes(this.filterValue)) values.unshift(this.filterValue);
+            valueSelect.createEl('option', { text: 'Any value', value: '' });
+            for (const value of values) {
+                valueSelect.createEl('option', { text: value, value });
+            }
+            valueSelect.value = this.filterValue;
+            valueSelect.addEventListener('change', () => {
+                this.filterValue = valueSelect.value;
+                void this.loadReport();
+            });
+        }
+    }
+
+    /**
+     * Entries matching the current filter
+     */
+    private applyFilter(entries: TimeEntry[]): TimeEntry[] {
+        const dimension = this.getDimension(this.filterDimension);
+        if (!dimension || !this.filterValue) return entries;
+        return entries.filter(entry => ReportDimensions.matches(entry, dimension, this.filterValue));
+    }
+
+    private getDimension(id: string): ReportDimension | undefined {
+        return ReportDimensions.forSettings(this.settings).find(d => d.id === id);
+    }
+
+    /**
+     * Render the breakdown for the current group-by choice
+     */
+    private renderBreakdown(): void {
+        const dimension = this.getDimension(this.groupBy);
+        if (!dimension || dimension.id === 'client') {
+            this.renderClientTable();
+        } else {
+            this.renderGroupTable(dimension);
+        }
+    }
+
+    /**
+     * Render a flat table of time per value of a dimension
+     */
+    private renderGroupTable(dimension: ReportDimension): void {
+        this.clientContainer.empty();
+
+        const rangeStart = this.currentRangeStart;
+        const rangeEnd = this.currentRangeEnd;
+        if (!rangeStart || !rangeEnd) return;
+
+        const minutesOf = (entry: TimeEntry) => this.dataManager.getEffectiveDuration(entry, rangeStart, rangeEnd);
+        const groups = ReportDimensions.group(this.currentEntries, dimension, minutesOf);
+        if (groups.length === 0) {
+            this.clientContainer.createDiv({
+                text: 'No time entries found for this period.',
+                cls: 'reports-empty',
+            });
+            return;
+        }
+
+        if (dimension.multiValue) {
+            this.clientContainer.createDiv({
+                text: 'Entries with several values count towards each, so the rows can add up to more than the total.',
+                cls: 'reports-problems-hint',
+            });
+        }
+
+        const table = this.clientContainer.createEl('table', { cls: 'reports-table' });
+        const headerRow = table.createEl('thead').createEl('tr');
+        headerRow.createEl('th', { text: dimension.label });
+        headerRow.createEl('th', { text: 'Hours', cls: 'reports-col-hours' });
+        headerRow.createEl('th', { text: 'Entries', cls: 'reports-col-billable' });
+        headerRow.createEl('th', { text: '%', cls: 'reports-col-percent' });
+        headerRow.createEl('th', { text: '', cls: 'reports-col-bar' });
+
+        const tbody = table.createEl('tbody');
+        // Percentages are of all time shown, so overlapping groups (tags) stay comparable
+        const total = this.currentEntries.reduce((sum, entry) => sum + Math.max(0, minutesOf(entry)), 0);
+        for (const group of groups) {
+            const percentage = total > 0 ? (group.totalMinutes / total) * 100 : 0;
+            const row = tbody.createEl('tr', { cls: 'reports-client-row' });
+            row.createEl('td', { text: group.value, cls: 'reports-client-name' });
+            row.createEl('td', { text: this.formatDuration(group.totalMinutes), cls: 'reports-col-hours' });
+            row.createEl('td', { text: String(group.entryCount), cls: 'reports-col-billable' });
+            row.createEl('td', { text: `${percentage.toFixed(1)}%`, cls: 'reports-col-percent' });
+            const bar = row.createEl('td', { cls: 'reports-col-bar' }).createDiv('reports-bar');
+            bar.style.width = `${percentage}%`;
+        }
+
+        const totalRow = tbody.createEl('tr', { cls: 'reports-total-row' });
+        totalRow.createEl('td', { text: 'Total', cls: 'reports-total-label' });
+        totalRow.createEl('td', { text: this.formatDuration(total), cls: 'reports-col-hours' });
+        totalRow.createEl('td', { text: '', cls: 'reports-col-billable' });
+        totalRow.createEl('td', { text: '', cls: 'reports-col-percent' });
+        totalRow.createEl('td', { text: '', cls: 'reports-col-bar' });
     }
 
     /**
@@ -352,9 +516,10 @@ export class ReportsView extends ItemView {
      */
     private calculateReports(entries: TimeEntry[], rangeStart: Date, rangeEnd: Date): void {
         // Group by project, with activity breakdown within each project
-        const projectMap = new Map<string, { minutes: number; activityMap: Map<string, number> }>();
+        const projectMap = new Map<string, { minutes: number; billableMinutes: number; activityMap: Map<string, number> }>();
 
         this.totalMinutes = 0;
+        this.billableMinutes = 0;
 
         for (const entry of entries) {
             // Calculate effective duration within the query range
@@ -366,12 +531,16 @@ export class ReportsView extends ItemView {
             const projectName = entry.project || '(No Project)';
 
             if (!projectMap.has(projectName)) {
-                projectMap.set(projectName, { minutes: 0, activityMap: new Map() });
+                projectMap.set(projectName, { minutes: 0, billableMinutes: 0, activityMap: new Map() });
             }
 
             const projectData = projectMap.get(projectName);
             projectData.minutes += effectiveMinutes;
             this.totalMinutes += effectiveMinutes;
+            if (Billing.isBillable(entry, this.settings)) {
+                projectData.billableMinutes += effectiveMinutes;
+                this.billableMinutes += effectiveMinutes;
+            }
 
             // Track activity within this project (mutually exclusive - each entry has 0 or 1 activity)
             const activityName = entry.activity || '(No Activity)';
@@ -409,6 +578,7 @@ export class ReportsView extends ItemView {
                 project: projectName,
                 color: projectColor,
                 totalMinutes: data.minutes,
+                billableMinutes: data.billableMinutes,
                 percentage,
                 activityBreakdown,
             });
@@ -474,6 +644,18 @@ export class ReportsView extends ItemView {
         totalCard.createDiv({ text: 'Total Time', cls: 'reports-total-label' });
         totalCard.createDiv({ text: this.formatDuration(this.totalMinutes), cls: 'reports-total-value' });
 
+        // Billable and non-billable time side by side
+        const billableCard = this.summaryContainer.createDiv('reports-summary-card');
+        billableCard.createDiv({ text: 'Billable', cls: 'reports-summary-label' });
+        billableCard.createDiv({ text: this.formatDuration(this.billableMinutes), cls: 'reports-summary-value' });
+
+        const nonBillableCard = this.summaryContainer.createDiv('reports-summary-card');
+        nonBillableCard.createDiv({ text: 'Non-billable', cls: 'reports-summary-label' });
+        nonBillableCard.createDiv({
+            text: this.formatDuration(this.totalMinutes - this.billableMinutes),
+            cls: 'reports-summary-value',
+        });
+
         // Project count
         const projectCard = this.summaryContainer.createDiv('reports-summary-card');
         projectCard.createDiv({ text: 'Projects', cls: 'reports-summary-label' });
@@ -486,110 +668,49 @@ export class ReportsView extends ItemView {
     }
 
     /**
-     * Calculate client reports from entries
-     * Groups time by client (using entry.client directly)
+     * Render the "Data problems" panel listing rows that were skipped while parsing
      */
-    private calculateClientReports(entries: TimeEntry[], rangeStart: Date, rangeEnd: Date): void {
-        // Only calculate if there are clients defined
-        if (this.settings.clients.length === 0) {
-            this.clientReports = [];
-            return;
-        }
-
-        // Map: clientId -> { minutes, projects: Map<projectName, { minutes, activities: Map<activityName, minutes> }> }
-        type ProjectData = { minutes: number; activities: Map<string, number> };
-        type ClientData = { minutes: number; projects: Map<string, ProjectData> };
-        const clientMap = new Map<string, ClientData>();
-
-        for (const entry of entries) {
-            const effectiveMinutes = this.dataManager.getEffectiveDuration(entry, rangeStart, rangeEnd);
-            if (effectiveMinutes <= 0) continue;
-
-            const projectName = entry.project || '(No Project)';
-            const activityName = entry.activity || '(No Activity)';
-            const clientId = entry.client;
-
-            if (!clientMap.has(clientId)) {
-                clientMap.set(clientId, { minutes: 0, projects: new Map() });
-            }
-
-            const clientData = clientMap.get(clientId);
-            clientData.minutes += effectiveMinutes;
-
-            if (!clientData.projects.has(projectName)) {
-                clientData.projects.set(projectName, { minutes: 0, activities: new Map() });
-            }
-
-            const projectData = clientData.projects.get(projectName);
-            projectData.minutes += effectiveMinutes;
-
-            const currentActivityMinutes = projectData.activities.get(activityName) || 0;
-            projectData.activities.set(activityName, currentActivityMinutes + effectiveMinutes);
-        }
-
-        // Convert to ClientReport array
-        this.clientReports = [];
+    private renderProblems(warnings: ParseWarning[]): void {
+        this.problemsContainer.empty();
+        this.problemsContainer.toggleClass('is-hidden', warnings.length === 0);
+        if (warnings.length === 0) return;
+
+        const header = this.problemsContainer.createDiv('reports-problems-header');
+        header.createEl('h3', { text: `Data problems (${warnings.length})` });
+        header.createDiv({
+            text: 'These rows were skipped and are not counted in this report. Click one to fix it.',
+            cls: 'reports-problems-hint',
+        });
 
-        let totalClientMinutes = 0;
-        for (const [, data] of clientMap) {
-            totalClientMinutes += data.minutes;
+        const list = this.problemsContainer.createEl('ul', { cls: 'reports-problems-list' });
+        for (const warning of warnings) {
+            const item = list.createEl('li', { cls: 'reports-problem' });
+            item.createSpan({ text: `${warning.file}:${warning.line}`, cls: 'reports-problem-location' });
+            item.createSpan({ text: warning.reason, cls: 'reports-problem-reason' });
+            item.addEventListener('click', () => void this.openProblem(warning));
         }
+    }
 
-        for (const [clientId, data] of clientMap) {
-            const client = this.settings.clients.find(c => c.id === clientId);
-            if (!client) continue;
-
-            const percentage = totalClientMinutes > 0
-                ? (data.minutes / totalClientMinutes) * 100
-                : 0;
-
-            // Calculate billable amount (hourly rate * hours)
-            const billableAmount = client.rate * (data.minutes / 60);
-
-            // Build project breakdown with activity breakdown
-            const projectBreakdown: ProjectReport[] = [];
-            for (const [projectName, projectData] of data.projects) {
-                const projectColor = this.getProjectColor(projectName);
-
-                // Build activity breakdown for this project
-                const activityBreakdown: ProjectActivityBreakdown[] = [];
-                for (const [activityName, activityMinutes] of projectData.activities) {
-                    activityBreakdown.push({
-                        activity: activityName,
-                        color: this.getActivityColor(activityName),
-                        totalMinutes: activityMinutes,
-                        percentageOfProject: projectData.minutes > 0
-                            ? (activityMinutes / projectData.minutes) * 100
-                            : 0,
-                    });
-                }
-                activityBreakdown.sort((a, b) => b.totalMinutes - a.totalMinutes);
-
-                projectBreakdown.push({
-                    project: projectName,
-                    color: projectColor,
-                    totalMinutes: projectData.minutes,
-                    percentage: data.minutes > 0 ? (projectData.minutes / data.minutes) * 100 : 0,
-                    activityBreakdown,
-                });
-            }
-            projectBreakdown.sort((a, b) => b.totalMinutes - a.totalMinutes);
-
-            this.clientReports.push({
-                clientId,
-                name: client.name,
-                color: client.color,
-                rate: client.rate,
-                currency: client.currency,
-                totalMinutes: data.minutes,
-                billableAmount,
-                percentage,
-                projectBreakdown,
-            });
+    /**
+     * Open the file containing a parse warning with the cursor on the offending line
+     */
+    private async openProblem(warning: ParseWarning): Promise<void> {
+        const file = this.app.vault.getAbstractFileByPath(warning.file);
+        if (!(file instanceof TFile)) {
+            new Notice(`File not found: ${warning.file}`);
+            return;
         }
+        await this.app.workspace.getLeaf().openFile(file, {
+            eState: { line: Math.max(0, warning.line - 1) },
+        });
+    }
 
-        // Sort clients by time descending
-        this.clientReports.sort((a, b) => b.totalMinutes - a.totalMinutes);
+    /**
+     * Calculate client reports from entries
+     * Groups time by client (using entry.client directly)
+     */
+    private calculateClientReports(entries: TimeEntry[], rangeStart: Date, rangeEnd: Date): void {
+        this.clientReports = Reports.byClient(entries, this.settings, rangeStart, rangeEnd);
     }
 
     /**
@@ -614,7 +735,9 @@ export class ReportsView extends ItemView {
         const headerRow = thead.createEl('tr');
         headerRow.createEl('th', { text: 'Client / project / activity' });
         headerRow.createEl('th', { text: 'Hours', cls: 'reports-col-hours' });
-        headerRow.createEl('th', { text: 'Billable', cls: 'reports-col-billable' });
+        headerRow.createEl('th', { text: 'Billable hours', cls: 'reports-col-hours' });
+        headerRow.createEl('th', { text: 'Non-billable', cls: 'reports-col-hours' });
+        headerRow.createEl('th', { text: 'Amount', cls: 'reports-col-billable' });
         headerRow.createEl('th', { text: '%', cls: 'reports-col-percent' });
         headerRow.createEl('th', { text: '', cls: 'reports-col-bar' });
 
@@ -652,6 +775,16 @@ export class ReportsView extends ItemView {
                 cls: 'reports-col-hours',
             });
 
+            row.createEl('td', {
+                text: this.formatDuration(report.billableMinutes),
+                cls: 'reports-col-hours',
+            });
+
+            row.createEl('td', {
+                text: this.formatDuration(report.nonBillableMinutes),
+                cls: 'reports-col-hours',
+            });
+
             row.createEl('td', {
                 text: this.formatCurrency(report.billableAmount, report.currency),
                 cls: 'reports-col-billable',
@@ -698,6 +831,16 @@ export class ReportsView extends ItemView {
                         cls: 'reports-col-hours',
                     });
 
+                    projectRow.createEl('td', {
+                        text: this.formatDuration(projectReport.billableMinutes),
+                        cls: 'reports-col-hours',
+                    });
+
+                    projectRow.createEl('td', {
+                        text: this.formatDuration(projectReport.totalMinutes - projectReport.billableMinutes),
+                        cls: 'reports-col-hours',
+                    });
+
                     projectRow.createEl('td', { cls: 'reports-col-billable' });
 
                     projectRow.createEl('td', {
@@ -725,6 +868,9 @@ export class ReportsView extends ItemView {
                                 cls: 'reports-col-hours',
                             });
 
+                            activityRow.createEl('td', { cls: 'reports-col-hours' });
+                            activityRow.createEl('td', { cls: 'reports-col-hours' });
+
                             activityRow.createEl('td', { cls: 'reports-col-billable' });
 
                             activityRow.createEl('td', {
@@ -747,9 +893,11 @@ export class ReportsView extends ItemView {
         totalRow.createEl('td', { text: 'Total', cls: 'reports-total-label' });
 
         let totalMinutes = 0;
+        let totalBillableMinutes = 0;
         let totalBillable = 0;
         for (const report of this.clientReports) {
             totalMinutes += report.totalMinutes;
+            totalBillableMinutes += report.billableMinutes;
             totalBillable += report.billableAmount;
         }
 
@@ -758,6 +906,16 @@ export class ReportsView extends ItemView {
             cls: 'reports-col-hours',
         });
 
+        totalRow.createEl('td', {
+            text: this.formatDuration(totalBillableMinutes),
+            cls: 'reports-col-hours',
+        });
+
+        totalRow.createEl('td', {
+            text: this.formatDuration(totalMinutes - totalBillableMinutes),
+            cls: 'reports-col-hours',
+        });
+
         // Use first client's currency for total (could be mixed currencies)
         const currency = this.clientReports[0]?.currency || 'USD';
         totalRow.createEl('td', {
@@ -898,15 +1056,11 @@ export class ReportsView extends ItemView {
     }
 
     private getProjectColor(projectName: string): string {
-        if (projectName === '(No Project)') return '#666';
-        const project = this.settings.projects.find(p => p.name === projectName || p.id === projectName);
-        return project?.color || '#4f46e5';
+        return Reports.projectColor(this.settings, projectName);
     }
 
     private getActivityColor(activityName: string): string {
-        if (activityName === '(No Activity)') return '#666';
-        const activity = this.settings.activities.find(a => a.name === activityName || a.id === activityName);
-        return activity?.color || '#f59e0b';
+        return Reports.activityColor(this.settings, activityName);
     }
 
     /**
@@ -915,8 +1069,8 @@ export class ReportsView extends ItemView {
     private async exportToCSV(): Promise<void> {
         const { start, end } = this.getDateRange(this.selectedPreset);
 
-        // Load entries for the date range
-        const entries = await this.dataManager.loadDateRange(start, end);
+        // Load entries for the date range (with the current filter)
+        const entries = this.applyFilter(await this.dataManager.loadDateRange(start, end));
 
         if (entries.length === 0) {
             Logger.log('ReportsView: No entries to export');
@@ -940,7 +1094,8 @@ export class ReportsView extends ItemView {
      */
     private generateCSV(entries: TimeEntry[]): string {
         // CSV headers - Start/End include full datetime since entries can span days
-        const headers = ['Start', 'End', 'Duration', 'Description', 'Client', 'Project', 'Activity', 'Notes'];
+        const customFields = this.settings.customFields;
+        const headers = ['Start', 'End', 'Duration', 'Description', 'Client', 'Project', 'Activity', 'Tags', 'Billable', 'Notes', ...customFields.map(f => f.name)];
 
         // Sort entries by date/time
         const sorted = [...entries].sort((a, b) =>
@@ -963,7 +1118,10 @@ export class ReportsView extends ItemView {
                 clientName,
                 entry.project || '',
                 entry.activity || '',
+                TableParser.formatTags(entry.tags),
+                Billing.isBillable(entry, this.settings) ? 'Yes' : 'No',
                 entry.linkedNote || '',
+                ...customFields.map(field => CustomFields.formatValue(field, CustomFields.getValue(entry, field))),
             ];
             rows.push(row);
         }
@@ -1012,8 +1170,8 @@ export class ReportsView extends ItemView {
     private async exportToJSON(): Promise<void> {
         const { start, end } = this.getDateRange(this.selectedPreset);
 
-        // Load entries for the date range
-        const entries = await this.dataManager.loadDateRange(start, end);
+        // Load entries for the date range (with the current filter)
+        const entries = this.applyFilter(await this.dataManager.loadDateRange(start, end));
 
         if (entries.length === 0) {
             new Notice('No entries to export');
@@ -1057,13 +1215,32 @@ export class ReportsView extends ItemView {
                 client: entry.client,
                 project: entry.project || null,
                 activity: entry.activity || null,
+                tags: entry.tags ?? [],
+                billable: Billing.isBillable(entry, this.settings),
                 linkedNote: entry.linkedNote || null,
+                customFields: this.getCustomFieldValues(entry),
             })),
         };
 
         return JSON.stringify(exportData, null, 2);
     }
 
+    /**
+     * Custom field values of an entry for JSON export (numbers and booleans typed, unset fields left out)
+     */
+    private getCustomFieldValues(entry: TimeEntry): Record<string, string | number | boolean> {
+        const values: Record<string, string | number | boolean> = {};
+        for (const field of this.settings.customFields) {
+            const value = CustomFields.getValue(entry, field);
+            if (field.type === 'boolean') {
+                values[field.name] = value === CustomFields.TRUE_VALUE;
+            } else if (value) {
+                values[field.name] = field.type === 'number' && Number.isFinite(Number(value)) ? Number(value) : value;
+            }
+        }
+        return values;
+    }
+
     /**
      * Trigger browser download of JSON file
      */
@@ -0,0 +1,305 @@
+import { ItemView, WorkspaceLeaf, debounce } from 'obsidian';
+import { VIEW_TYPE_SEARCH, TimeEntry, TimeTrackerSettings } from '../types';
+import { DataManager } from '../data/DataManager';
+import { EntrySearch, SearchQuery } from '../data/EntrySearch';
+import { ReportDimensions } from '../data/ReportDimensions';
+import { TableParser } from '../core/TableParser';
+import { BulkEditModal } from '../modals/BulkEditModal';
+import { Logger } from '../utils/Logger';
+
+/** Stop rendering after this many results (the totals still count all of them) */
+const MAX_RESULTS_SHOWN = 500;
+
+/**
+ * Search view: finds entries across all data files and shows them by day
+ */
+export class SearchView extends ItemView {
+    private settings: TimeTrackerSettings;
+    private dataManager: DataManager;
+    /** Called when a result is clicked */
+    private onOpenEntry: (entry: TimeEntry) => void;
+    /** Called after a bulk edit changed entries */
+    private onEntriesChanged: () => void;
+
+    // Query state
+    private text = '';
+    private fromDate = '';
+    private toDate = '';
+    private filterDimension = '';
+    private filterValue = '';
+    /** Entries in the date bounds, kept while typing (also feeds the filter value list) */
+    private searchedEntries: TimeEntry[] = [];
+    /** Date bounds searchedEntries were loaded for, or null to reload */
+    private loadedBounds: string | null = null;
+    /** Ignores results of searches that were overtaken by a newer one */
+    private searchRequestId = 0;
+    /** Query behind the results shown, for bulk edits */
+    private lastQuery: SearchQuery | null = null;
+
+    private filterControls: HTMLElement;
+    private summaryEl: HTMLElement;
+    private resultsContainer: HTMLElement;
+
+    private debouncedSearch = debounce(() => {
+        void this.runSearch();
+    }, 300, true);
+
+    constructor(
+        leaf: WorkspaceLeaf,
+        settings: TimeTrackerSettings,
+        dataManager: DataManager,
+        onOpenEntry: (entry: TimeEntry) => void,
+        onEntriesChanged: () => void
+    ) {
+        super(leaf);
+        this.settings = settings;
+        this.dataManager = dataManager;
+        this.onOpenEntry = onOpenEntry;
+        this.onEntriesChanged = onEntriesChanged;
+    }
+
+    getViewType(): string {
+        return VIEW_TYPE_SEARCH;
+    }
+
+    getDisplayText(): string {
+        return 'Time entry search';
+    }
+
+    getIcon(): string {
+        return 'search';
+    }
+
+    async onOpen(): Promise<void> {
+        const container = this.containerEl.children[1] as HTMLElement;
+        container.empty();
+        container.addClass('time-tracker-reports');
+        container.addClass('time-tracker-search');
+
+        const header = container.createDiv('reports-header');
+        header.createDiv('reports-header-title').createEl('h2', { text: 'Search' });
+
+        const content = container.createDiv('reports-content');
+
+        const searchInput = content.createEl('input', {
+            type: 'search',
+            cls: 'search-view-input',
+            attr: { placeholder: 'Description, client, project, activity, tag or note' },
+        });
+        searchInput.value = this.text;
+        searchInput.addEventListener('input', () => {
+            this.text = searchInput.value;
+            this.debouncedSearch();
+        });
+
+        const dates = content.createDiv('reports-custom-dates');
+        const fromInput = dates.createEl('label', { text: 'From: ' }).createEl('input', { type: 'date' });
+        fromInput.value = this.fromDate;
+        fromInput.addEventListener('change', () => {
+            this.fromDate = fromInput.value;
+            void this.runSearch();
+        });
+        const toInput = dates.createEl('label', { text: 'To: ' }).createEl('input', { type: 'date' });
+        toInput.value = this.toDate;
+        toInput.addEventListener('change', () => {
+            this.toDate = toInput.value;
+            void this.runSearch();
+        });
+
+        this.filterControls = content.createDiv('reports-dimension-controls');
+        this.summaryEl = content.createDiv('search-view-summary');
+        this.resultsContainer = content.createDiv('search-view-results');
+
+        searchInput.focus();
+        await this.runSearch();
+    }
+
+    async onClose(): Promise<void> {
+        this.debouncedSearch.cancel();
+        await super.onClose();
+    }
+
+    updateSettings(settings: TimeTrackerSettings): void {
+        this.settings = settings;
+        // Also called after entries change, so load them again
+        this.loadedBounds = null;
+        void this.runSearch();
+    }
+
+    /**
+     * Load the entries in the date bounds, search them and render the results
+     */
+    private async runSearch(): Promise<void> {
+        if (!this.resultsContainer) return;
+        const requestId = ++this.searchRequestId;
+
+        const from = this.fromDate ? TableParser.parseDateTime(`${this.fromDate} 00:00`) : null;
+        const to = this.toDate ? TableParser.parseDateTime(`${this.toDate} 00:00`) : null;
+        // The "to" day is included
+        to?.setDate(to.getDate() + 1);
+
+        const bounds = `${this.fromDate}|${this.toDate}`;
+        if (bounds !== this.loadedBounds) {
+            // Bounded searches only read the files they need
+            const entries = from && to
+                ? await this.dataManager.loadDateRange(from, to)
+                : await this.dataManager.loadAllEntries();
+            if (requestId !== this.searchRequestId) return;
+            this.searchedEntries = entries;
+            this.loadedBounds = bounds;
+        }
+        const entries = this.searchedEntries;
+
+        const dimensions = ReportDimensions.forSettings(this.settings);
+        const query: SearchQuery = {
+            text: this.text,
+            from: from ?? undefined,
+            to: to ?? undefined,
+            dimension: dimensions.find(d => d.id === this.filterDimension),
+            value: this.filterValue,
+        };
+        const results = EntrySearch.search(entries, query, this.settings);
+        Logger.log('SearchView: Found', results.length, 'of', entries.length, 'entries');
+
+        this.renderFilterControls();
+        if (!this.text.trim() && !this.fromDate && !this.toDate && !this.filterValue) {
+            // Nothing asked yet - don't list every entry ever tracked
+            this.lastQuery = null;
+            this.summaryEl.setText('');
+            this.resultsContainer.empty();
+            this.resultsContainer.createDiv({ text: 'Type to search, or pick dates or a filter.', cls: 'reports-empty' });
+            return;
+        }
+        this.lastQuery = query;
+        this.renderResults(results);
+    }
+
+    /**
+     * Filter by one value of a report dimension, like the Reports view
+     */
+    private renderFilterControls(): void {
+        this.filterControls.empty();
+        const dimensions = ReportDimensions.forSettings(this.settings);
+        if (this.filterDimension && !dimensions.some(d => d.id === this.filterDimension)) {
+            this.filterDimension = '';
+            this.filterValue = '';
+        }
+
+        const filterLabel = this.filterControls.createEl('label', { text: 'Filter ' });
+        const filterSelect = filterLabel.createEl('select', { cls: 'dropdown' });
+        filterSelect.createEl('option', { text: 'All entries', value: '' });
+        for (const dimension of dimensions) {
+            filterSelect.createEl('option', { text: dimension.label, value: dimension.id });
+        }
+        filterSelect.value = this.filterDimension;
+        filterSelect.addEventListener('change', () => {
+            this.filterDimension = filterSelect.value;
+            this.filterValue = '';
+            void this.runSearch();
+        });
+
+        const filterDim = dimensions.find(d => d.id === this.filterDimension);
+        if (filterDim) {
+            const valueSelect = filterLabel.createEl('select', { cls: 'dropdown' });
+            const values = ReportDimensions.distinctValues(this.searchedEntries, filterDim);
+            if (this.filterValue && !values.includes(this.filterValue)) values.unshift(this.filterValue);
+            valueSelect.createEl('option', { text: 'Any value', value: '' });
+            for (const value of values) {
+                valueSelect.createEl('option', { text: value, value });
+            }
+            valueSelect.value = this.filterValue;
+            valueSelect.addEventListener('change', () => {
+                this.filterValue = valueSelect.value;
+                void this.runSearch();
+            });
+        }
+    }
+
+    /**
+     * Render results grouped by day, newest first, with day totals
+     */
+    private renderResults(results: TimeEntry[]): void {
+        this.resultsContainer.empty();
+
+        const totalMinutes = results.reduce((sum, entry) => sum + entry.durationMinutes, 0);
+        this.summaryEl.empty();
+
+        if (results.length === 0) {
+            this.resultsContainer.createDiv({ text: 'No matching entries.', cls: 'reports-empty' });
+            return;
+        }
+
+        this.summaryEl.createSpan({
+            text: `${results.length} ${results.length === 1 ? 'entry' : 'entries'} · ${this.formatDuration(totalMinutes)}`,
+        });
+        const query = this.lastQuery;
+        if (query) {
+            const editBtn = this.summaryEl.createEl('button', { text: 'Edit all…', cls: 'search-view-edit-all' });
+            editBtn.addEventListener('click', () => {
+                new BulkEditModal(this.app, this.settings, this.dataManager, query, this.onEntriesChanged).open();
+            });
+        }
+
+        for (const day of EntrySearch.groupByDay(results.slice(0, MAX_RESULTS_SHOWN))) {
+            const dayEl = this.resultsContainer.createDiv('search-day');
+            const dayHeader = dayEl.createDiv('search-day-header');
+            dayHeader.createSpan({ text: this.formatDay(day.date), cls: 'search-day-date' });
+            dayHeader.createSpan({ text: this.formatDuration(day.totalMinutes), cls: 'search-day-total' });
+
+            for (const entry of day.entries) {
+                this.renderResult(dayEl, entry);
+            }
+        }
+
+        if (results.length > MAX_RESULTS_SHOWN) {
+            this.resultsContainer.createDiv({
+                text: `Showing the newest ${MAX_RESULTS_SHOWN} results. Narrow the search to see older ones.`,
+                cls: 'reports-problems-hint',
+            });
+        }
+    }
+
+    /**
+     * Render one result; clicking it shows the entry in the timeline
+     */
+    private renderResult(container: HTMLElement, entry: TimeEntry): void {
+        const row = container.createDiv('trash-item search-result');
+        const client = this.settings.clients.find(c => c.id === entry.client);
+        if (client) {
+            row.style.borderLeftColor = client.color;
+        }
+
+        const info = row.createDiv('trash-item-info');
+        info.createDiv({
+            text: `${entry.start} – ${entry.end} · ${this.formatDuration(entry.durationMinutes)}`,
+            cls: 'trash-item-time',
+        });
+        if (entry.description) {
+            info.createDiv({ text: entry.description, cls: 'trash-item-desc' });
+        }
+        const meta = [
+            client?.name ?? entry.client,
+            entry.project,
+            entry.activity,
+            TableParser.formatTags(entry.tags),
+            entry.linkedNote && `[[${entry.linkedNote}]]`,
+        ].filter(Boolean).join(' · ');
+        info.createDiv({ text: meta, cls: 'trash-item-meta' });
+
+        row.addEventListener('click', () => this.onOpenEntry(entry));
+    }
+
+    private formatDay(dateStr: string): string {
+        const date = TableParser.parseDateTime(`${dateStr} 00:00`);
+        if (!date) return dateStr;
+        return date.toLocaleDateString(undefined, { weekday: 'short', year: 'numeric', month: 'short', day: 'numeric' });
+    }
+
+    private formatDuration(minutes: number): string {
+        const hours = Math.floor(minutes / 60);
+        const mins = minutes % 60;
+        if (hours === 0) return `${mins}m`;
+        if (mins === 0) return `${hours}h`;
+        return `${hours}h ${mins}m`;
+    }
+}
@@ -1,9 +1,11 @@
-import { ItemView, WorkspaceLeaf, Modal, App, setIcon, Notice } from 'obsidian';
+import { ItemView, WorkspaceLeaf, Modal, App, Scope, setIcon, Notice } from 'obsidian';
 import { VIEW_TYPE_TIMELINE, TimeEntry, TimeTrackerSettings } from '../types';
 import { DataManager } from '../data/DataManager';
-import { TableParser } from '../data/TableParser';
+import { WriteConflictError } from '../core/WriteConflictError';
+import { TableParser } from '../core/TableParser';
 import { EntryModal, EntryModalData } from '../modals/EntryModal';
 import { Logger } from '../utils/Logger';
+import { TimeZones } from '../utils/TimeZones';
 
 /**
  * The main timeline view with infinite scrolling
@@ -15,7 +17,7 @@ export class TimelineView extends ItemView {
     // Scroll state
     private centerDate: Date = new Date();
     private visibleDaysBuffer: number = 1; // Days to render before/after visible area (prev day, today, next day)
-    private loadedMonths: Set<string> = new Set();
+    private loadedPartitions: Set<string> = new Set();
     private entriesByDate: Map<string, TimeEntry[]> = new Map();
 
     // DOM references
@@ -69,6 +71,7 @@ export class TimelineView extends ItemView {
     }
 
     async onOpen(): Promise<void> {
+        this.registerUndoKeys();
         this.dayHeight = 24 * this.settings.hourHeight;
         // Set center to today
         this.centerDate = new Date();
@@ -84,6 +87,21 @@ export class TimelineView extends ItemView {
         });
     }
 
+    /**
+     * Ctrl/Cmd+Z and Ctrl/Cmd+Shift+Z undo and redo entry changes while the timeline has focus
+     */
+    private registerUndoKeys(): void {
+        this.scope = new Scope(this.app.scope);
+        this.scope.register(['Mod'], 'z', () => {
+            void this.dataManager.undo().then(changed => changed && this.refresh());
+            return false;
+        });
+        this.scope.register(['Mod', 'Shift'], 'z', () => {
+            void this.dataManager.redo().then(changed => changed && this.refresh());
+            return false;
+        });
+    }
+
     async onClose(): Promise<void> {
         // Cleanup any active drag listeners (in case view closes mid-drag)
         activeDocument.removeEventListener('mousemove', this.handleEntryDragMove);
@@ -118,7 +136,7 @@ export class TimelineView extends ItemView {
         const savedScrollTop = this.timelineContainer?.scrollTop ?? 0;
 
         // Clear data caches but keep centerDate
-        this.loadedMonths.clear();
+        this.loadedPartitions.clear();
         this.entriesByDate.clear();
 
         // Re-render entries only (not full container rebuild)
@@ -391,38 +409,32 @@ export class TimelineView extends ItemView {
         Logger.log('loadVisibleRange: centerDate=', this.centerDate.toDateString(),
             'range=', startDate.toDateString(), 'to', endDate.toDateString());
 
-        // Determine which months need loading
-        // We need to include both the start month and end month
-        const months = new Set<string>();
-        const endMonth = TableParser.getMonthString(endDate);
+        // Determine which data files need loading (depends on the partitioning setting, and
+        // entries filed in a neighbouring file by the time in their own zone)
+        const keys = this.dataManager.getPartitionKeysForDisplay(startDate, endDate);
 
-        const current = new Date(startDate);
-        current.setDate(1); // Start from first of month to iterate cleanly
+        Logger.log('loadVisibleRange: files to check=', keys);
 
-        while (TableParser.getMonthString(current) <= endMonth) {
-            months.add(TableParser.getMonthString(current));
-            current.setMonth(current.getMonth() + 1);
-        }
-
-        Logger.log('loadVisibleRange: months to check=', Array.from(months));
-
-        // Load any months we haven't loaded yet
-        for (const month of months) {
-            if (!this.loadedMonths.has(month)) {
-                Logger.log('loadVisibleRange: loading month', month);
-                const parsed = await this.dataManager.loadMonth(month);
-                this.loadedMonths.add(month);
+        // Load any files we haven't loaded yet
+        for (const key of keys) {
+            if (!this.loadedPartitions.has(key)) {
+                Logger.log('loadVisibleRange: loading', key);
+                const parsed = await this.dataManager.loadPartition(key);
+                this.loadedPartitions.add(key);
 
-                Logger.log('loadVisibleRange: loaded', parsed.entries.length, 'entries for', month);
-                Logger.log('loadVisibleRange: entriesByDate keys=', Array.from(parsed.entriesByDate.keys()));
+                Logger.log('loadVisibleRange: loaded', parsed.entries.length, 'entries for', key);
 
-                // Merge entries into our map
+                // Merge entries into our map - with per-client files a day can span several files
                 for (const [dateStr, entries] of parsed.entriesByDate) {
-                    this.entriesByDate.set(dateStr, entries);
-                    Logger.log('loadVisibleRange: set', dateStr, 'with', entries.length, 'entries');
+                    const existing = (this.entriesByDate.get(dateStr) || [])
+                        .filter(e => !entries.some(n => n.id === e.id));
+                    const merged = [...existing, ...entries]
+                        .sort((a, b) => a.startDateTime.getTime() - b.startDateTime.getTime());
+                    this.entriesByDate.set(dateStr, merged);
+                    Logger.log('loadVisibleRange: set', dateStr, 'with', merged.length, 'entries');
                 }
             } else {
-                Logger.log('loadVisibleRange: month already loaded', month);
+                Logger.log('loadVisibleRange: already loaded', key);
             }
         }
     }
@@ -529,6 +541,7 @@ export class TimelineView extends ItemView {
         card.style.height = `${height}px`;
         card.dataset.entryDate = entry.date;
         card.dataset.entryLine = String(entry.lineNumber);
+        card.dataset.entryId = entry.id;
 
         // Client color for left bar and header gradient
         const clientColor = this.getClientColor(entry.client);
@@ -554,7 +567,14 @@ export class TimelineView extends ItemView {
         ];
         if (entry.project) tooltipParts.push(`Project: ${this.getProjectName(entry.project)}`);
         if (entry.activity) tooltipParts.push(`Activity: ${this.getActivityName(entry.activity)}`);
+        if (entry.tags?.length) tooltipParts.push(`Tags: ${TableParser.formatTags(entry.tags)}`);
         if (entry.linkedNote) tooltipParts.push(`Note: ${entry.linkedNote}`);
+        // Times are shown in our zone; entries recorded elsewhere also show the original
+        const recordedElsewhere = TimeZones.differsFromLocal(entry.timeZone, entry.startDateTime);
+        const recordedTimes = recordedElsewhere
+            ? `Recorded as ${TableParser.formatDateTime(entry.startDateTime, entry.timeZone)} – ${TableParser.formatDateTime(entry.endDateTime, entry.timeZone)}`
+            : '';
+        if (recordedTimes) tooltipParts.push(recordedTimes);
         card.setAttribute('title', tooltipParts.join('\n'));
 
         // === HEADER SECTION ===
@@ -598,6 +618,13 @@ export class TimelineView extends ItemView {
         // Icons (right side of header)
         const icons = header.createDiv('entry-header-icons');
 
+        // Globe icon for entries recorded in another time zone
+        if (recordedTimes) {
+            const zoneIcon = icons.createSpan('entry-icon');
+            setIcon(zoneIcon, 'globe');
+            zoneIcon.setAttribute('title', recordedTimes);
+        }
+
         // Linked note icon (paperclip)
         if (entry.linkedNote) {
             const noteIcon = icons.createSpan('entry-icon');
@@ -634,6 +661,14 @@ export class TimelineView extends ItemView {
             if (entry.description) {
                 desc.textContent = entry.description;
             }
+
+            // Tag chips
+            if (entry.tags?.length) {
+                const tags = body.createDiv('entry-card-tags');
+                for (const tag of entry.tags) {
+                    tags.createSpan({ text: `#${tag}`, cls: 'entry-tag-chip' });
+                }
+            }
         }
 
         // === FOOTER / POWERLINE (30m+ only) ===
@@ -867,7 +902,10 @@ export class TimelineView extends ItemView {
             await this.refresh();
         } catch (err) {
             Logger.error('Failed to update entry after drag:', err);
-            new Notice('Failed to move entry. It may overlap with another entry.');
+            // Conflicts with changes made elsewhere are already reported by the DataManager
+            if (!(err instanceof WriteConflictError)) {
+                new Notice('Failed to move entry. It may overlap with another entry.');
+            }
             // Revert visual position
             card.style.top = `${this.entryDragOriginalTop}px`;
             card.style.height = `${this.entryDragOriginalHeight}px`;
@@ -926,8 +964,9 @@ export class TimelineView extends ItemView {
 
     /**
      * Scroll to a specific date, positioning dayStartHour at the top
+     * @param entryId - Entry to scroll to and highlight instead (e.g. a search result)
      */
-    scrollToDate(date: Date): void {
+    scrollToDate(date: Date, entryId?: string): void {
         this.centerDate = new Date(date);
         this.centerDate.setHours(0, 0, 0, 0);
 
@@ -937,10 +976,25 @@ export class TimelineView extends ItemView {
             // Position the configured dayStartHour at the top of the viewport
             const targetOffset = this.visibleDaysBuffer * this.dayHeight + this.settings.dayStartHour * this.settings.hourHeight;
             this.timelineContainer.scrollTop = targetOffset;
+
+            const card = entryId ? this.findEntryCard(entryId) : null;
+            if (card) {
+                // Leave an hour of context above the entry
+                this.timelineContainer.scrollTop = Math.max(0, card.offsetTop - this.settings.hourHeight);
+                card.addClass('is-search-highlight');
+            }
             this.updateVisibleDateLabel();
         });
     }
 
+    /**
+     * Rendered card of an entry, if it's in the visible range
+     */
+    private findEntryCard(entryId: string): HTMLElement | null {
+        const cards = this.entriesContainer.querySelectorAll<HTMLElement>('.timeline-entry-card');
+        return Array.from(cards).find(card => card.dataset.entryId === entryId) ?? null;
+    }
+
     /**
      * Navigate by number of days
      */
@@ -1549,7 +1603,7 @@ class ConfirmDeleteModal extends Modal {
         }
 
         contentEl.createEl('p', {
-            text: 'Are you sure you want to delete this entry? This cannot be undone.',
+            text: 'Are you sure you want to delete this entry? It will be moved to the trash, and you can undo this with Ctrl/Cmd+Z in the timeline.',
             cls: 'delete-confirm-message',
         });
 
@@ -0,0 +1,206 @@
+import { ItemView, WorkspaceLeaf, Modal, App, Notice } from 'obsidian';
+import { VIEW_TYPE_TRASH, TimeTrackerSettings } from '../types';
+import { DataManager } from '../data/DataManager';
+import { TableParser } from '../core/TableParser';
+import type { TrashedEntry } from '../data/TrashStore';
+import { Logger } from '../utils/Logger';
+
+/**
+ * Trash view listing deleted entries, with restore and permanent delete
+ */
+export class TrashView extends ItemView {
+    private settings: TimeTrackerSettings;
+    private dataManager: DataManager;
+    private listContainer: HTMLElement;
+
+    constructor(
+        leaf: WorkspaceLeaf,
+        settings: TimeTrackerSettings,
+        dataManager: DataManager
+    ) {
+        super(leaf);
+        this.settings = settings;
+        this.dataManager = dataManager;
+    }
+
+    getViewType(): string {
+        return VIEW_TYPE_TRASH;
+    }
+
+    getDisplayText(): string {
+        return 'Time entry trash';
+    }
+
+    getIcon(): string {
+        return 'trash-2';
+    }
+
+    async onOpen(): Promise<void> {
+        const container = this.containerEl.children[1] as HTMLElement;
+        container.empty();
+        container.addClass('time-tracker-trash');
+
+        const header = container.createDiv('reports-header');
+        header.createDiv('reports-header-title').createEl('h2', { text: 'Trash' });
+
+        const controls = header.createDiv('reports-header-controls');
+        const emptyBtn = controls.createEl('button', { text: 'Empty trash', cls: 'reports-btn' });
+        emptyBtn.addEventListener('click', () => this.confirmEmptyTrash());
+
+        const refreshBtn = controls.createEl('button', { text: 'Refresh', cls: 'reports-btn' });
+        refreshBtn.addEventListener('click', () => { void this.refresh(); });
+
+        this.listContainer = container.createDiv('reports-content trash-list');
+        await this.refresh();
+    }
+
+    async onClose(): Promise<void> {
+        await super.onClose();
+    }
+
+    updateSettings(settings: TimeTrackerSettings): void {
+        this.settings = settings;
+        void this.refresh();
+    }
+
+    /**
+     * Reload and render the trashed entries
+     */
+    async refresh(): Promise<void> {
+        if (!this.listContainer) return;
+        const trashed = await this.dataManager.loadTrash();
+        this.listContainer.empty();
+
+        if (trashed.length === 0) {
+            this.listContainer.createDiv({ text: 'The trash is empty.', cls: 'reports-empty' });
+            return;
+        }
+
+        for (const item of trashed) {
+            this.renderItem(item);
+        }
+    }
+
+    /**
+     * Render one trashed entry with its actions
+     */
+    private renderItem(item: TrashedEntry): void {
+        const { entry } = item;
+        const row = this.listContainer.createDiv('trash-item');
+
+        const client = this.settings.clients.find(c => c.id === entry.client);
+        if (client) {
+            row.style.borderLeftColor = client.color;
+        }
+
+        const info = row.createDiv('trash-item-info');
+        info.createDiv({
+            text: `${TableParser.formatDateTime(entry.startDateTime)} – ${TableParser.formatDateTime(entry.endDateTime)}`,
+            cls: 'trash-item-time',
+        });
+        if (entry.description) {
+            info.createDiv({ text: entry.description, cls: 'trash-item-desc' });
+        }
+        const meta = [client?.name ?? entry.client, entry.project, entry.activity].filter(Boolean).join(' · ');
+        info.createDiv({ text: meta, cls: 'trash-item-meta' });
+        info.createDiv({
+            text: item.deletedAt ? `Deleted ${TableParser.formatDateTime(item.deletedAt)}` : 'Deleted (unknown time)',
+            cls: 'trash-item-deleted',
+        });
+
+        const actions = row.createDiv('trash-item-actions');
+        const restoreBtn = actions.createEl('button', { text: 'Restore', cls: 'mod-cta' });
+        restoreBtn.addEventListener('click', () => { void this.restore(item); });
+
+        const purgeBtn = actions.createEl('button', { text: 'Delete forever', cls: 'mod-warning' });
+        purgeBtn.addEventListener('click', () => {
+            new ConfirmPurgeModal(this.app, 'Permanently delete this entry? This cannot be undone.', () => {
+                void this.purge([entry.id]);
+            }).open();
+        });
+    }
+
+    /**
+     * Restore an entry to its month file (overlap checks apply)
+     */
+    private async restore(item: TrashedEntry): Promise<void> {
+        try {
+            await this.dataManager.restoreFromTrash([item.entry]);
+            await this.refresh();
+        } catch (err) {
+            Logger.error('Failed to restore entry:', err);
+            new Notice(`Could not restore: ${err instanceof Error ? err.message : String(err)}`);
+        }
+    }
+
+    /**
+     * Permanently delete entries from the trash
+     */
+    private async purge(ids: string[]): Promise<void> {
+        try {
+            await this.dataManager.purgeFromTrash(ids);
+            await this.refresh();
+        } catch (err) {
+            Logger.error('Failed to purge trash:', err);
+            new Notice(`Could not delete: ${err instanceof Error ? err.message : String(err)}`);
+        }
+    }
+
+    /**
+     * Ask before purging everything
+     */
+    private confirmEmptyTrash(): void {
+        void this.dataManager.loadTrash().then(trashed => {
+            if (trashed.length === 0) {
+                new Notice('The trash is already empty');
+                return;
+            }
+            const message = `Permanently delete ${trashed.length} ${trashed.length === 1 ? 'entry' : 'entries'}? This cannot be undone.`;
+            new ConfirmPurgeModal(this.app, message, () => {
+                void this.purge(trashed.map(t => t.entry.id));
+            }).open();
+        });
+    }
+}
+
+/**
+ * Confirmation before permanently deleting trashed entries
+ */
+class ConfirmPurgeModal extends Modal {
+    private message: string;
+    private onConfirm: () => void;
+
+    constructor(app: App, message: string, onConfirm: () => void) {
+        super(app);
+        this.message = message;
+        this.onConfirm = onConfirm;
+    }
+
+    onOpen(): void {
+        const { contentEl } = this;
+        contentEl.empty();
+        contentEl.addClass('time-tracker-confirm-delete');
+
+        contentEl.createEl('h2', { text: 'Delete forever' });
+        contentEl.createEl('p', { text: this.message, cls: 'delete-confirm-message' });
+
+        const buttonContainer = contentEl.createDiv('delete-button-container');
+
+        const cancelBtn = buttonContainer.createEl('button', { text: 'Cancel' });
+        cancelBtn.addEventListener('click', () => this.close());
+
+        const deleteBtn = buttonContainer.createEl('button', {
+            text: 'Delete forever',
+            cls: 'mod-warning',
+        });
+        deleteBtn.addEventListener('click', () => {
+            this.onConfirm();
+            this.close();
+        });
+    }
+
+    onClose(): void {
+        const { contentEl } = this;
+        contentEl.empty();
+    }
+}
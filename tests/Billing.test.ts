@@ -0,0 +1,75 @@
+import type { App } from 'obsidian';
+import { Billing } from '../src/core/Billing';
+import { InvoiceGenerator } from '../src/invoice/InvoiceGenerator';
+import { DataManager } from '../src/data/DataManager';
+import { TableParser } from '../src/core/TableParser';
+import { Client, DEFAULT_SETTINGS, TimeEntry, TimeTrackerSettings } from '../src/types';
+import { MemoryVault } from './helpers/MemoryVault';
+
+describe('Billing', () => {
+    const acme: Client = { id: 'acme', name: 'Acme', color: '#000000', archived: false, rate: 100, currency: 'USD' };
+    const settings: TimeTrackerSettings = {
+        ...DEFAULT_SETTINGS,
+        clients: [acme],
+        activities: [
+            { id: 'dev', name: 'dev', color: '#111111', clientId: 'acme' },
+            { id: 'internal-meeting', name: 'Internal meeting', color: '#222222', clientId: 'acme', billable: false },
+        ],
+    };
+
+    const createEntry = (start: number, end: number, overrides: Partial<TimeEntry> = {}): TimeEntry => ({
+        id: `e${start}`,
+        date: '2025-01-15',
+        start: `${start}:00`,
+        end: `${end}:00`,
+        description: 'Work',
+        client: 'acme',
+        project: 'Website',
+        startDateTime: new Date(2025, 0, 15, start, 0),
+        endDateTime: new Date(2025, 0, 15, end, 0),
+        durationMinutes: (end - start) * 60,
+        lineNumber: 0,
+        ...overrides,
+    });
+
+    it('should take the default from the activity and let entries override it', () => {
+        expect(Billing.isBillable(createEntry(9, 10), settings)).toBe(true);
+        expect(Billing.isBillable(createEntry(9, 10, { activity: 'dev' }), settings)).toBe(true);
+        expect(Billing.isBillable(createEntry(9, 10, { activity: 'Internal meeting' }), settings)).toBe(false);
+        expect(Billing.isBillable(createEntry(9, 10, { activity: 'internal-meeting', billable: true }), settings)).toBe(true);
+        expect(Billing.isBillable(createEntry(9, 10, { activity: 'dev', billable: false }), settings)).toBe(false);
+    });
+
+    it('should round-trip the override through the Billable column', () => {
+        const content = TableParser.generateMonthFile([
+            createEntry(9, 10, { billable: false }),
+            createEntry(10, 11, { billable: true }),
+            createEntry(11, 12),
+        ], '2025-01', false);
+
+        const entries = TableParser.parseMonthFile(content, '2025-01').entries;
+
+        expect(entries.map(e => e.billable)).toEqual([false, true, undefined]);
+    });
+
+    it('should invoice only billable time', () => {
+        const dataManager = new DataManager(new MemoryVault(), settings);
+        const generator = new InvoiceGenerator({} as App, settings, dataManager);
+        const entries = [
+            createEntry(9, 11, { activity: 'dev' }),
+            createEntry(11, 12, { activity: 'Internal meeting' }),
+            createEntry(13, 14, { activity: 'dev', billable: false }),
+        ];
+
+        const invoice = generator.generateInvoiceData(
+            entries,
+            acme,
+            { invoiceNumber: 'INV-1', issueDate: new Date(2025, 1, 1), paymentTerms: 'Net 30', dueDate: new Date(2025, 2, 3) },
+            new Date(2025, 0, 1),
+            new Date(2025, 0, 31, 23, 59, 59, 999)
+        );
+
+        expect(invoice.lineItems.map(item => [item.description, item.quantity])).toEqual([['Website', 2]]);
+        expect(invoice.total).toBe(200);
+    });
+});
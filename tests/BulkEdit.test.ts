@@ -0,0 +1,109 @@
+import { BulkEdit } from '../src/data/BulkEdit';
+import { DataManager } from '../src/data/DataManager';
+import { DEFAULT_SETTINGS, NewTimeEntry, TimeTrackerSettings } from '../src/types';
+import { MemoryVault } from './helpers/MemoryVault';
+
+describe('BulkEdit', () => {
+    const settings: TimeTrackerSettings = {
+        ...DEFAULT_SETTINGS,
+        clients: [
+            ...DEFAULT_SETTINGS.clients,
+            { id: 'acme', name: 'Acme', color: '#000000', archived: false, rate: 100, currency: 'USD' },
+            { id: 'globex', name: 'Globex', color: '#111111', archived: false, rate: 100, currency: 'USD' },
+        ],
+        projects: [
+            { id: 'website', name: 'Website', color: '#222222', archived: false, clientId: 'acme' },
+            { id: 'website-globex', name: 'Website', color: '#333333', archived: false, clientId: 'globex' },
+            { id: 'app', name: 'App', color: '#444444', archived: false, clientId: 'acme' },
+        ],
+    };
+
+    const newEntry = (start: string, end: string, description: string, overrides: Partial<NewTimeEntry> = {}): NewTimeEntry => ({
+        date: start.slice(0, 10),
+        start,
+        end,
+        description,
+        client: 'acme',
+        project: 'Website',
+        ...overrides,
+    });
+
+    let vault: MemoryVault;
+    let dataManager: DataManager;
+
+    beforeEach(async () => {
+        vault = new MemoryVault();
+        dataManager = new DataManager(vault, settings);
+        await dataManager.createEntry(newEntry('2025-01-30 09:00', '2025-01-30 10:00', 'Homepage copy'));
+        await dataManager.createEntry(newEntry('2025-01-31 09:00', '2025-01-31 10:00', 'Homepage layout', { project: 'App' }));
+        await dataManager.createEntry(newEntry('2025-02-03 09:00', '2025-02-03 10:00', 'Homepage review'));
+        await dataManager.createEntry(newEntry('2025-02-03 11:00', '2025-02-03 12:00', 'Invoices', { client: 'personal', project: undefined }));
+    });
+
+    it('should parse shifts', () => {
+        expect(BulkEdit.parseShift('+1h 30m')).toBe(90);
+        expect(BulkEdit.parseShift('-15m')).toBe(-15);
+        expect(BulkEdit.parseShift('2h')).toBe(120);
+        expect(BulkEdit.parseShift('soon')).toBeNull();
+    });
+
+    it('should reassign across files in one undo step, keeping projects the new client has', async () => {
+        const count = await dataManager.bulkReassign({ text: 'homepage' }, 'globex');
+        expect(count).toBe(3);
+
+        const entries = await dataManager.loadAllEntries();
+        expect(entries.filter(e => e.client === 'globex').map(e => [e.description, e.project])).toEqual([
+            ['Homepage copy', 'Website'],
+            ['Homepage layout', undefined],
+            ['Homepage review', 'Website'],
+        ]);
+
+        await dataManager.undo();
+        expect((await dataManager.loadAllEntries()).filter(e => e.client === 'acme')).toHaveLength(3);
+    });
+
+    it('should preview updates and skip entries that already match', async () => {
+        const changes = await dataManager.previewBulkEdit({ text: 'homepage' }, { type: 'update', changes: { project: 'App' } });
+
+        expect(changes.map(c => c.after?.description)).toEqual(['Homepage review', 'Homepage copy']);
+        await expect(dataManager.previewBulkEdit({ text: ' ' }, { type: 'delete' })).rejects.toThrow('need a filter');
+    });
+
+    it('should shift entries and refuse shifts that would overlap', async () => {
+        await expect(dataManager.bulkShift({ text: 'homepage review' }, 120)).rejects.toThrow('would overlap');
+
+        await dataManager.bulkShift({ text: 'homepage', from: new Date(2025, 0, 30), to: new Date(2025, 1, 1) }, -60);
+        const entries = await dataManager.loadAllEntries();
+        expect(entries.slice(0, 2).map(e => e.start)).toEqual(['08:00', '08:00']);
+    });
+
+    it('should leave overlaps already in the files to the integrity check', async () => {
+        await dataManager.createEntry(newEntry('2025-03-03 09:00', '2025-03-03 10:00', 'Kickoff'));
+        await dataManager.createEntry(newEntry('2025-03-03 10:00', '2025-03-03 12:00', 'Kickoff notes'));
+        await dataManager.createEntry(newEntry('2025-03-03 13:00', '2025-03-03 14:00', 'Follow-up'));
+        // Hand edit Kickoff to run into Kickoff notes
+        vault.files.set('TimeTracking/2025-03.md', vault.files.get('TimeTracking/2025-03.md')
+            .replace('2025-03-03 09:00 | 2025-03-03 10:00', '2025-03-03 09:00 | 2025-03-03 11:00'));
+        await dataManager.invalidatePath('TimeTracking/2025-03.md');
+
+        expect(await dataManager.bulkUpdate({ text: 'kickoff' }, { tags: ['planning'] })).toBe(2);
+        expect(await dataManager.bulkShift({ text: 'follow-up' }, 30)).toBe(1);
+        await expect(dataManager.bulkShift({ text: 'follow-up' }, -150)).rejects.toThrow(
+            'Entries would overlap (2025-03-03 10:00 - 2025-03-03 12:00 and 2025-03-03 11:00 - 2025-03-03 12:00)'
+        );
+
+        const entries = (await dataManager.loadAllEntries()).filter(e => e.date === '2025-03-03');
+        expect(entries.map(e => [e.description, e.start, e.tags])).toEqual([
+            ['Kickoff', '09:00', ['planning']],
+            ['Kickoff notes', '10:00', ['planning']],
+            ['Follow-up', '13:30', undefined],
+        ]);
+    });
+
+    it('should delete matching entries to the trash', async () => {
+        expect(await dataManager.bulkDelete({ text: 'homepage' })).toBe(3);
+
+        expect((await dataManager.loadAllEntries()).map(e => e.description)).toEqual(['Invoices']);
+        expect(vault.files.get(dataManager.getTrashFilePath())).toContain('Homepage review');
+    });
+});
@@ -0,0 +1,161 @@
+import { readFileSync, readdirSync } from 'fs';
+import { dirname, join, resolve } from 'path';
+import type { FileSystemAdapter } from '../src/core/FileSystemAdapter';
+import { Overlaps } from '../src/core/Overlaps';
+import { Reports } from '../src/core/Reports';
+import { TableParser } from '../src/core/TableParser';
+import { TimeTrackingFolder } from '../src/core/TimeTrackingFolder';
+import { Trash } from '../src/core/Trash';
+import { DEFAULT_SETTINGS, TimeEntry, TimeTrackerSettings } from '../src/types';
+
+/**
+ * File system backed by a Map, standing in for a vault directory on disk
+ */
+class MemoryFileSystem implements FileSystemAdapter {
+    files = new Map<string, string>();
+
+    async read(path: string): Promise<string | null> {
+        return this.files.get(path) ?? null;
+    }
+
+    async write(path: string, content: string): Promise<void> {
+        this.files.set(path, content);
+    }
+
+    async list(folder: string): Promise<string[]> {
+        return [...this.files.keys()].filter(path => path.startsWith(`${folder}/`));
+    }
+}
+
+describe('Core library', () => {
+    const settings: TimeTrackerSettings = {
+        ...DEFAULT_SETTINGS,
+        clients: [
+            { id: 'acme', name: 'Acme', color: '#000000', archived: false, rate: 120, currency: 'USD' },
+        ],
+        activities: [
+            { id: 'meeting', name: 'Meeting', color: '#111111', clientId: 'acme', billable: false },
+        ],
+    };
+
+    const entry = (start: string, end: string, description: string, activity?: string): TimeEntry => {
+        const startDateTime = TableParser.parseDateTime(start);
+        const endDateTime = TableParser.parseDateTime(end);
+        return {
+            id: TableParser.generateId(),
+            date: start.slice(0, 10),
+            start: start.slice(11),
+            end: end.slice(11),
+            description,
+            client: 'acme',
+            activity,
+            startDateTime,
+            endDateTime,
+            durationMinutes: (endDateTime.getTime() - startDateTime.getTime()) / 60000,
+            lineNumber: 0,
+        };
+    };
+
+    let fs: MemoryFileSystem;
+    let folder: TimeTrackingFolder;
+
+    beforeEach(() => {
+        fs = new MemoryFileSystem();
+        folder = new TimeTrackingFolder(fs, { folder: 'TimeTracking', partitioning: 'monthly' });
+    });
+
+    it('should write files the plugin reads and read them back by range', async () => {
+        await folder.applyChanges([
+            { after: entry('2025-01-31 23:00', '2025-02-01 01:00', 'Release') },
+            { after: entry('2025-02-03 09:00', '2025-02-03 10:00', 'Standup', 'Meeting') },
+        ]);
+
+        expect([...fs.files.keys()]).toEqual(['TimeTracking/2025-01.md', 'TimeTracking/2025-02.md']);
+        expect(TableParser.parseMonthFile(fs.files.get('TimeTracking/2025-02.md'), '2025-02').entries
+            .map(e => e.description)).toEqual(['Standup']);
+        expect(await folder.listKeys()).toEqual(['2025-01', '2025-02']);
+
+        // The late entry is filed in January but still shows up in February
+        const february = await folder.loadDateRange(new Date(2025, 1, 1), new Date(2025, 2, 1));
+        expect(february.map(e => e.description)).toEqual(['Release', 'Standup']);
+    });
+
+    it('should refuse overlapping entries and stale edits without writing', async () => {
+        const standup = entry('2025-02-03 09:00', '2025-02-03 10:00', 'Standup');
+        await folder.applyChanges([{ after: standup }]);
+        const before = new Map(fs.files);
+
+        await expect(folder.applyChanges([{ after: entry('2025-02-03 09:30', '2025-02-03 11:00', 'Review') }]))
+            .rejects.toThrow('Entries would overlap (2025-02-03 09:00 - 2025-02-03 10:00 and 2025-02-03 09:30 - 2025-02-03 11:00)');
+        await expect(folder.applyChanges([{ before: { ...standup, description: 'Changed elsewhere' } }]))
+            .rejects.toThrow('was changed elsewhere');
+        expect(fs.files).toEqual(before);
+    });
+
+    it('should move deleted entries to the trash like the plugin, and take them out when they come back', async () => {
+        const standup = entry('2025-02-03 09:00', '2025-02-03 10:00', 'Standup');
+        await folder.applyChanges([{ after: standup }]);
+        const [stored] = await folder.loadDateRange(new Date(2025, 1, 3), new Date(2025, 1, 4));
+
+        await folder.applyChanges([{ before: stored }]);
+        const trashed = Trash.parse(fs.files.get('TimeTracking/Trash.md'), 'TimeTracking/Trash.md');
+        expect(trashed.map(e => [e.id, e.description])).toEqual([[standup.id, 'Standup']]);
+        expect(trashed[0].extraFields?.[Trash.DELETED_COLUMN]).toMatch(/^\d{4}-\d{2}-\d{2} \d{2}:\d{2}$/);
+        expect(await folder.listKeys()).toEqual(['2025-02']);
+
+        await folder.applyChanges([{ after: stored }]);
+        expect(Trash.parse(fs.files.get('TimeTracking/Trash.md'), 'TimeTracking/Trash.md')).toEqual([]);
+    });
+
+    it('should put files back when a write fails part way', async () => {
+        await folder.applyChanges([{ after: entry('2025-01-20 09:00', '2025-01-20 10:00', 'Planning') }]);
+        const before = new Map(fs.files);
+
+        const write = fs.write.bind(fs);
+        fs.write = async (path, content) => {
+            if (path === 'TimeTracking/2025-02.md' && content) throw new Error('Disk full');
+            return write(path, content);
+        };
+        const planning = TableParser.parseMonthFile(fs.files.get('TimeTracking/2025-01.md'), '2025-01').entries[0];
+        await expect(folder.applyChanges([
+            { before: planning, after: { ...planning, description: 'Planning, moved' } },
+            { after: entry('2025-02-03 09:00', '2025-02-03 10:00', 'Standup') },
+        ])).rejects.toThrow('Disk full');
+
+        expect(fs.files).toEqual(before);
+    });
+
+    it('should classify overlaps and aggregate client reports without the plugin', () => {
+        const standup = entry('2025-02-03 09:00', '2025-02-03 10:00', 'Standup', 'Meeting');
+        const coding = entry('2025-02-03 10:00', '2025-02-03 12:30', 'Coding');
+
+        const matches = Overlaps.classify(new Date(2025, 1, 3, 9, 30), new Date(2025, 1, 3, 11, 0), [standup, coding]);
+        expect([matches.startOverlap, matches.endOverlap, matches.encompassedEntry]).toEqual([standup, coding, null]);
+
+        const [report] = Reports.byClient([standup, coding], settings, new Date(2025, 1, 3), new Date(2025, 1, 3, 12, 0));
+        expect(report.totalMinutes).toBe(180);
+        expect(report.billableMinutes).toBe(120);
+        expect(report.billableAmount).toBe(240);
+        expect(report.projectBreakdown[0].activityBreakdown.map(a => [a.activity, a.totalMinutes])).toEqual([
+            ['(No Activity)', 120],
+            ['Meeting', 60],
+        ]);
+    });
+
+    it('should not import obsidian anywhere in the core, even indirectly', () => {
+        const seen = new Set<string>();
+        const visit = (file: string) => {
+            if (seen.has(file)) return;
+            seen.add(file);
+            const source = readFileSync(file, 'utf8');
+            for (const [, specifier] of source.matchAll(/from '([^']+)'/g)) {
+                expect(`${file}: ${specifier}`).not.toMatch(/: obsidian$/);
+                if (specifier.startsWith('.')) visit(`${resolve(dirname(file), specifier)}.ts`);
+            }
+        };
+
+        const coreDir = join(process.cwd(), 'src', 'core');
+        for (const name of readdirSync(coreDir)) visit(join(coreDir, name));
+        expect(seen.size).toBeGreaterThan(readdirSync(coreDir).length);
+    });
+});
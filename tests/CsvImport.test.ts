@@ -0,0 +1,248 @@
+import { DataManager } from '../src/data/DataManager';
+import { CsvImport } from '../src/data/CsvImport';
+import { CsvColumnMapping, DEFAULT_SETTINGS, TimeTrackerSettings } from '../src/types';
+import { MemoryVault } from './helpers/MemoryVault';
+
+describe('CsvImport', () => {
+    const [toggl, clockify, harvest] = CsvImport.PROFILES;
+    const header = 'User,Email,Client,Project,Task,Description,Billable,Start date,Start time,End date,End time,Duration,Tags,Amount (USD)';
+    const row = (client: string, project: string, description: string, billable: string, start: string, end: string, tags = '', task = '') =>
+        `Jane,jane@example.com,${client},${project},${task},${description},${billable},${start.slice(0, 10)},${start.slice(11)}:00,${end.slice(0, 10)},${end.slice(11)}:00,,${tags},`;
+
+    let settings: TimeTrackerSettings;
+    let vault: MemoryVault;
+    let dataManager: DataManager;
+
+    beforeEach(() => {
+        settings = {
+            ...DEFAULT_SETTINGS,
+            clients: [
+                { id: 'acme', name: 'Acme', color: '#000000', archived: false, rate: 100, currency: 'EUR' },
+            ],
+            projects: [
+                { id: 'web', name: 'Website', color: '#111111', archived: false, clientId: 'acme' },
+            ],
+            activities: [
+                { id: 'meeting', name: 'Meeting', color: '#222222', clientId: 'acme', billable: false },
+            ],
+        };
+        vault = new MemoryVault();
+        dataManager = new DataManager(vault, settings);
+        dataManager.setSettingsSaver(() => Promise.resolve());
+    });
+
+    it('should map Toggl clients, projects, tasks and tags and add the missing ones', async () => {
+        const csv = [
+            header,
+            row('acme', 'Website', 'Homepage', 'Yes', '2025-01-31 23:00', '2025-02-01 00:30', '"Design, #front end"', 'Layout'),
+            row('Acme', 'Website', 'Weekly sync', 'Yes', '2025-02-03 09:00', '2025-02-03 10:00', 'team', 'meeting'),
+            row('Globex', 'App', '"Review, then ""ship"""', 'No', '2025-02-03 10:00', '2025-02-03 11:00'),
+            row('', '', 'Admin', 'Yes', '2025-02-04 09:00', '2025-02-04 09:30'),
+        ].join('\r\n');
+
+        const plan = await dataManager.previewCsvImport(csv, toggl, { fallbackClient: 'No client' });
+        expect(plan.label).toBe('Import 4 entries from Toggl Track');
+        expect(plan.created).toEqual({ clients: ['Globex', 'No client'], projects: ['App'], activities: ['Layout'] });
+
+        await dataManager.applyCsvImport(plan);
+        const entries = await dataManager.loadAllEntries();
+        expect(entries.map(e => [e.description, e.client, e.project, e.activity, e.tags, e.billable])).toEqual([
+            ['Homepage', 'acme', 'Website', 'Layout', ['Design', 'front-end'], undefined],
+            ['Weekly sync', 'acme', 'Website', 'Meeting', ['team'], true],
+            ['Review, then "ship"', 'globex', 'App', undefined, undefined, false],
+            ['Admin', 'no-client', undefined, undefined, undefined, undefined],
+        ]);
+        expect([...vault.files.keys()]).toEqual(
+            expect.arrayContaining(['TimeTracking/2025-01.md', 'TimeTracking/2025-02.md'])
+        );
+        expect(settings.clients.map(c => [c.id, c.rate, c.currency])).toEqual([
+            ['acme', 100, 'EUR'], ['globex', 0, 'EUR'], ['no-client', 0, 'EUR'],
+        ]);
+    });
+
+    it('should skip duplicates, overlaps and unreadable rows', async () => {
+        await dataManager.applyCsvImport(await dataManager.previewCsvImport(
+            [header, row('Acme', '', 'Standup', 'Yes', '2025-02-03 09:00', '2025-02-03 09:15')].join('\n'),
+            toggl,
+            { fallbackClient: 'Acme' }
+        ));
+
+        const plan = await dataManager.previewCsvImport([
+            header,
+            row('Acme', '', 'Standup', 'Yes', '2025-02-03 09:00', '2025-02-03 09:15'),
+            row('Acme', '', 'Planning', 'Yes', '2025-02-03 09:10', '2025-02-03 10:00'),
+            row('Acme', '', 'Coding', 'Yes', '2025-02-03 10:00', '2025-02-03 12:00'),
+            row('Acme', '', 'Code review', 'Yes', '2025-02-03 11:00', '2025-02-03 11:30'),
+            row('Acme', '', 'Typo', 'Yes', '03/02/2025 13:00', '2025-02-03 14:00'),
+        ].join('\n'), toggl, { fallbackClient: 'Acme' });
+
+        expect(plan.rows.map(r => [r.line, r.status, r.reason])).toEqual([
+            [2, 'duplicate', 'Already imported'],
+            [3, 'overlap', 'Overlaps 2025-02-03 09:00 - 2025-02-03 09:15 "Standup"'],
+            [4, 'new', undefined],
+            [5, 'overlap', 'Overlaps 2025-02-03 10:00 - 2025-02-03 12:00 "Coding"'],
+            [6, 'invalid', 'Invalid date "03/02/2025" (expected YYYY-MM-DD)'],
+        ]);
+        expect(plan.changes.map(c => c.after.description)).toEqual(['Coding']);
+    });
+
+    it('should only refuse long descriptions when a limit is set', async () => {
+        const csv = [header, row('Acme', '', 'Quarterly planning', 'Yes', '2025-02-03 09:00', '2025-02-03 10:00')].join('\n');
+
+        settings.descriptionMaxLength = 0;
+        const unlimited = await dataManager.previewCsvImport(csv, toggl, { fallbackClient: 'Acme' });
+        expect(unlimited.rows.map(r => r.status)).toEqual(['new']);
+
+        settings.descriptionMaxLength = 10;
+        const limited = await dataManager.previewCsvImport(csv, toggl, { fallbackClient: 'Acme' });
+        expect(limited.rows.map(r => [r.status, r.reason])).toEqual([['invalid', 'Description is longer than 10 characters']]);
+    });
+
+    it('should read Clockify dates, 12-hour times and the rate currency from its header', async () => {
+        const csv = [
+            'Project,Client,Description,Task,User,Tags,Billable,Start Date,Start Time,End Date,End Time,Duration (h),Billable Rate (USD)',
+            'Website,Acme,Homepage,Design,Jane,ux,Yes,02/03/2025,09:00:00 AM,02/03/2025,10:30:00 AM,01:30:00,100.00',
+            'Portal,Initech,Login page,,Jane,,Yes,02/03/2025,12:15:00 PM,02/03/2025,01:00:00 PM,00:45:00,90.00',
+        ].join('\n');
+
+        await dataManager.applyCsvImport(await dataManager.previewCsvImport(csv, clockify, { fallbackClient: 'Acme' }));
+
+        const entries = await dataManager.loadAllEntries();
+        expect(entries.map(e => [e.date, e.start, e.end, e.client, e.project, e.activity, e.tags])).toEqual([
+            ['2025-02-03', '09:00', '10:30', 'acme', 'Website', 'Design', ['ux']],
+            ['2025-02-03', '12:15', '13:00', 'initech', 'Portal', undefined, undefined],
+        ]);
+        expect(settings.clients.find(c => c.id === 'initech')).toMatchObject({ rate: 90, currency: 'USD' });
+        expect(settings.projects.find(p => p.name === 'Portal').rateOverride).toBeUndefined();
+    });
+
+    it('should place Harvest durations one after another and keep its rates', async () => {
+        const csv = [
+            'Date,Client,Project,Task,Notes,Hours,Billable?,Billable Rate,Currency',
+            '2025-02-03,Acme,Website,Design,Homepage,1.5,Yes,100,Euro - EUR',
+            '2025-02-03,Acme,Support,Meeting,Call with Jane,"0,75",No,120,Euro - EUR',
+            '2025-02-04,Initech,Portal,Development,Login page,2:00,Yes,90,United States Dollar - USD',
+        ].join('\n');
+
+        const plan = await dataManager.previewCsvImport(csv, harvest, { fallbackClient: 'Acme', dayStart: '08:30' });
+        expect(plan.created).toEqual({ clients: ['Initech'], projects: ['Support', 'Portal'], activities: ['Design', 'Development'] });
+        await dataManager.applyCsvImport(plan);
+
+        const entries = await dataManager.loadAllEntries();
+        expect(entries.map(e => [e.date, e.start, e.end, e.project, e.activity, e.billable])).toEqual([
+            ['2025-02-03', '08:30', '10:00', 'Website', 'Design', undefined],
+            ['2025-02-03', '10:00', '10:45', 'Support', 'Meeting', undefined],
+            ['2025-02-04', '08:30', '10:30', 'Portal', 'Development', undefined],
+        ]);
+        expect(settings.clients.find(c => c.id === 'initech')).toMatchObject({ rate: 90, currency: 'USD' });
+        expect(settings.projects.map(p => [p.name, p.rateOverride])).toEqual([
+            ['Website', undefined], ['Support', 120], ['Portal', undefined],
+        ]);
+
+        // Durations land in the same places again, so a second import finds them
+        const again = await dataManager.previewCsvImport(csv, harvest, { fallbackClient: 'Acme', dayStart: '08:30' });
+        expect(again.rows.map(r => r.status)).toEqual(['duplicate', 'duplicate', 'duplicate']);
+    });
+
+    it('should import through a custom column mapping', async () => {
+        const mapping: CsvColumnMapping = {
+            id: 'timesheet', name: 'Timesheet', dateFormat: 'DD.MM.YYYY',
+            startDate: 'Tag', startTime: 'Von', endTime: 'Bis', description: 'Notiz', client: 'Kunde', activity: 'Tätigkeit',
+        };
+        const csv = [
+            'Tag,Von,Bis,Kunde,Tätigkeit,Notiz',
+            '03.02.2025,22:30,00:15,Acme,Meeting,Release',
+            '04.02.2025,09:00,,Acme,,Forgot to stop',
+            '31.02.2025,09:00,10:00,Acme,,No such day',
+        ].join('\n');
+
+        const plan = await dataManager.previewCsvImport(csv, mapping, { fallbackClient: 'Acme' });
+        expect(plan.label).toBe('Import 1 entry from Timesheet');
+        expect(plan.rows.map(r => [r.status, r.reason])).toEqual([
+            ['new', undefined],
+            ['invalid', 'No end time or duration'],
+            ['invalid', 'Invalid date "31.02.2025" (expected DD.MM.YYYY)'],
+        ]);
+        expect(plan.changes[0].after).toMatchObject({ date: '2025-02-03', start: '22:30', end: '00:15', durationMinutes: 105 });
+
+        expect(() => CsvImport.plan(csv, { ...mapping, startDate: 'Datum' }, [], settings, { fallbackClient: 'Acme' }))
+            .toThrow('Not a Timesheet export: no "Datum" column');
+    });
+
+    it('should read rates with a decimal comma and skip ambiguous ones', async () => {
+        const mapping: CsvColumnMapping = {
+            id: 'rates', name: 'Rates', dateFormat: 'YYYY-MM-DD', startDate: 'Date', duration: 'Hours', client: 'Client', rate: 'Rate',
+        };
+        const csv = [
+            'Date,Hours,Client,Rate',
+            '2025-02-03,1,Alpha,"150,00"',
+            '2025-02-04,1,Beta,"1.200,50 €"',
+            '2025-02-05,1,Gamma,"$1,200.50"',
+            '2025-02-06,1,Delta,"1,200,000"',
+            '2025-02-07,1,Epsilon,1.200',
+            '2025-02-08,1,Zeta,"1,200"',
+        ].join('\n');
+
+        await dataManager.applyCsvImport(await dataManager.previewCsvImport(csv, mapping, { fallbackClient: 'Acme' }));
+
+        expect(settings.clients.slice(1).map(c => [c.name, c.rate])).toEqual([
+            ['Alpha', 150], ['Beta', 1200.5], ['Gamma', 1200.5], ['Delta', 1200000], ['Epsilon', 0], ['Zeta', 0],
+        ]);
+    });
+
+    it.each([
+        ['Toggl Track', toggl, [header, row('Acme', '', 'Quarterly planning', 'Yes', '2025-02-03 09:00', '2025-02-03 10:00')]],
+        ['Clockify', clockify, [
+            'Client,Description,Start Date,Start Time,End Date,End Time,Duration (h)',
+            'Acme,Quarterly planning,02/03/2025,09:00:00 AM,02/03/2025,10:00:00 AM,01:00:00',
+        ]],
+        ['Harvest', harvest, ['Date,Client,Notes,Hours', '2025-02-03,Acme,Quarterly planning,1']],
+        ['a custom mapping', { id: 'sheet', name: 'Sheet', dateFormat: 'DD.MM.YYYY', startDate: 'Day', duration: 'Time', description: 'What' }, [
+            'Day,Time,What',
+            '03.02.2025,1:00,Quarterly planning',
+        ]],
+    ] as [string, CsvColumnMapping, string[]][])('should not limit descriptions from %s when the limit is 0', async (_name, mapping, lines) => {
+        settings.descriptionMaxLength = 0;
+        const plan = await dataManager.previewCsvImport(lines.join('\n'), mapping, { fallbackClient: 'Acme' });
+        expect(plan.rows.map(r => r.status)).toEqual(['new']);
+        expect(plan.changes[0].after.description).toBe('Quarterly planning');
+    });
+
+    it('should undo the entries and the added settings together', async () => {
+        await dataManager.applyCsvImport(await dataManager.previewCsvImport(
+            [header, row('Globex', 'App', 'Kickoff', 'Yes', '2025-02-03 09:00', '2025-02-03 10:00')].join('\n'),
+            toggl,
+            { fallbackClient: 'Acme' }
+        ));
+        expect(settings.projects.map(p => p.name)).toEqual(['Website', 'App']);
+
+        await dataManager.undo();
+        expect(await dataManager.loadAllEntries()).toEqual([]);
+        expect(settings.clients.map(c => c.id)).toEqual(['acme']);
+        expect(settings.projects.map(p => p.name)).toEqual(['Website']);
+    });
+
+    it('should add new clients before filing their entries in per-client folders', async () => {
+        settings.partitioning = 'client-monthly';
+        const csv = [header, row('Globex', 'App', 'Kickoff', 'Yes', '2025-02-03 09:00', '2025-02-03 10:00')].join('\n');
+
+        await dataManager.applyCsvImport(await dataManager.previewCsvImport(csv, toggl, { fallbackClient: 'Acme' }));
+        expect([...vault.files.keys()]).toContain('TimeTracking/globex/2025-02.md');
+        expect((await dataManager.loadAllEntries()).map(e => e.client)).toEqual(['globex']);
+
+        await dataManager.undo();
+        expect(settings.clients.map(c => c.id)).toEqual(['acme']);
+        await dataManager.redo();
+        expect(settings.clients.map(c => c.id)).toEqual(['acme', 'globex']);
+        expect((await dataManager.loadAllEntries()).map(e => e.description)).toEqual(['Kickoff']);
+    });
+
+    it('should refuse files that do not match the mapping', () => {
+        expect(() => CsvImport.plan('Date,Hours\n2025-02-03,1', toggl, [], settings, { fallbackClient: 'Acme' }))
+            .toThrow('Not a Toggl Track export: no "Start date" column');
+        expect(() => CsvImport.plan('Date,Notes\n2025-02-03,Call', harvest, [], settings, { fallbackClient: 'Acme' }))
+            .toThrow('Not a Harvest export: no "Hours" column');
+        expect(() => CsvImport.plan(header, toggl, [], settings, { fallbackClient: 'Acme', timeZone: 'Mars/Olympus' }))
+            .toThrow('Unknown time zone "Mars/Olympus"');
+    });
+});
@@ -0,0 +1,68 @@
+import { CustomFields } from '../src/data/CustomFields';
+import { ReportDimensions, NO_VALUE } from '../src/data/ReportDimensions';
+import { DataManager } from '../src/data/DataManager';
+import { CustomField, DEFAULT_SETTINGS, NewTimeEntry, TimeTrackerSettings } from '../src/types';
+import { MemoryVault } from './helpers/MemoryVault';
+
+describe('CustomFields', () => {
+    const poNumber: CustomField = { id: 'po-number', name: 'PO number', type: 'text', clientId: 'acme' };
+    const reviewed: CustomField = { id: 'reviewed', name: 'Reviewed', type: 'boolean' };
+    const hours: CustomField = { id: 'hours', name: 'Hours', type: 'number' };
+    const stage: CustomField = { id: 'stage', name: 'Stage', type: 'select', options: ['Draft', 'Final'] };
+
+    const settings: TimeTrackerSettings = { ...DEFAULT_SETTINGS, customFields: [poNumber, reviewed] };
+
+    it('should pick global fields and the client\'s own fields', () => {
+        expect(CustomFields.forClient(settings, 'acme').map(f => f.id)).toEqual(['po-number', 'reviewed']);
+        expect(CustomFields.forClient(settings, 'personal').map(f => f.id)).toEqual(['reviewed']);
+    });
+
+    it('should escape pipes when storing and unescape when reading', () => {
+        const extraFields = CustomFields.setValue({ Legacy: 'x' }, poNumber, 'A|B');
+
+        expect(extraFields).toEqual({ Legacy: 'x', 'PO number': 'A\\|B' });
+        expect(CustomFields.getValue({ extraFields }, poNumber)).toBe('A|B');
+        expect(CustomFields.setValue(extraFields, poNumber, '')).toEqual({ Legacy: 'x' });
+    });
+
+    it('should validate values by type', () => {
+        expect(CustomFields.validate(hours, '1.5')).toBeNull();
+        expect(CustomFields.validate(hours, 'lots')).toContain('must be a number');
+        expect(CustomFields.validate(stage, 'Final')).toBeNull();
+        expect(CustomFields.validate(stage, 'Other')).toContain('Draft, Final');
+        expect(CustomFields.validate(stage, '')).toBeNull();
+    });
+
+    it('should reject names that clash with built-in or existing columns', () => {
+        expect(CustomFields.validateName('Cost center', settings.customFields)).toBeNull();
+        expect(CustomFields.validateName('client', settings.customFields)).toContain('built-in');
+        expect(CustomFields.validateName('po NUMBER', settings.customFields)).toContain('already exists');
+    });
+
+    it('should store values as table columns and group reports by them', async () => {
+        const vault = new MemoryVault();
+        const dataManager = new DataManager(vault, settings);
+        const entry = (start: string, end: string, po: string): NewTimeEntry => ({
+            date: '2025-01-15',
+            start: `2025-01-15 ${start}`,
+            end: `2025-01-15 ${end}`,
+            description: 'Work',
+            client: 'acme',
+            extraFields: CustomFields.setValue(undefined, poNumber, po),
+        });
+        await dataManager.createEntry(entry('09:00', '10:00', 'PO-1'));
+        await dataManager.createEntry(entry('10:00', '12:00', 'PO-2'));
+        await dataManager.createEntry(entry('13:00', '13:30', ''));
+
+        expect(vault.files.get('TimeTracking/2025-01.md')).toContain('| PO number');
+
+        dataManager.clearCache();
+        const entries = (await dataManager.loadPartition('2025-01')).entries;
+        const dimension = ReportDimensions.forSettings(settings).find(d => d.id === 'field:po-number');
+        const groups = ReportDimensions.group(entries, dimension, e => e.durationMinutes);
+
+        expect(groups.map(g => [g.value, g.totalMinutes])).toEqual([['PO-2', 120], ['PO-1', 60], [NO_VALUE, 30]]);
+        const reviewedDimension = ReportDimensions.forSettings(settings).find(d => d.id === 'field:reviewed');
+        expect(ReportDimensions.distinctValues(entries, reviewedDimension)).toEqual(['No']);
+    });
+});
@@ -0,0 +1,105 @@
+import { TFile } from 'obsidian';
+import { TimeTrackerApi } from '../src/api/TimeTrackerApi';
+import { DataManager } from '../src/data/DataManager';
+import { TableParser } from '../src/core/TableParser';
+import { DEFAULT_SETTINGS, TimeEntry, TimeTrackerSettings } from '../src/types';
+import { MemoryVault } from './helpers/MemoryVault';
+
+describe('DataManager events', () => {
+    const settings: TimeTrackerSettings = {
+        ...DEFAULT_SETTINGS,
+        clients: [
+            { id: 'acme', name: 'Acme', color: '#000000', archived: false, rate: 100, currency: 'USD' },
+        ],
+    };
+
+    let vault: MemoryVault;
+    let dataManager: DataManager;
+    let events: string[];
+
+    beforeEach(() => {
+        vault = new MemoryVault();
+        dataManager = new DataManager(vault, settings);
+        events = [];
+        dataManager.on('entry-created', entry => events.push(`created ${entry.description}`));
+        dataManager.on('entry-updated', (entry, oldEntry) => events.push(
+            `updated ${TableParser.formatDateTime(oldEntry.startDateTime)} -> ${TableParser.formatDateTime(entry.startDateTime)}`
+        ));
+        dataManager.on('entry-deleted', oldEntry => events.push(`deleted ${oldEntry.description}`));
+        dataManager.on('month-reloaded', key => events.push(`reloaded ${key}`));
+    });
+
+    const create = (start: string, description: string) => dataManager.createEntry({
+        date: start.slice(0, 10),
+        start,
+        end: `${start.slice(0, 11)}${String(Number(start.slice(11, 13)) + 1).padStart(2, '0')}:00`,
+        description,
+        client: 'acme',
+    });
+
+    it('should report each saved change with the old and new entry', async () => {
+        const entry = await create('2025-01-31 09:00', 'Planning');
+        await dataManager.updateEntry(entry, { start: '2025-02-03 09:00', end: '2025-02-03 10:00' });
+        const [moved] = await dataManager.loadEntriesForDate(new Date(2025, 1, 3));
+        await dataManager.deleteEntry(moved);
+
+        expect(events).toEqual([
+            'created Planning',
+            'updated 2025-01-31 09:00 -> 2025-02-03 09:00',
+            'deleted Planning',
+        ]);
+    });
+
+    it('should report bulk edits and their undo per entry', async () => {
+        await create('2025-01-10 09:00', 'Review one');
+        await create('2025-02-10 09:00', 'Review two');
+        events = [];
+
+        await dataManager.bulkDelete({ text: 'review' });
+        await dataManager.undo();
+
+        expect(events).toEqual(['deleted Review two', 'deleted Review one', 'created Review one', 'created Review two']);
+    });
+
+    it('should report files changed outside the plugin, but not its own writes', async () => {
+        await create('2025-01-10 09:00', 'Planning');
+        const path = 'TimeTracking/2025-01.md';
+        await dataManager.invalidatePath(path);
+        expect(events).toEqual(['created Planning']);
+
+        const file = new TFile();
+        file.path = path;
+        await vault.modify(file, `${vault.files.get(path)}\nEdited by hand\n`);
+        await dataManager.invalidatePath(path);
+        expect(events).toEqual(['created Planning', 'reloaded 2025-01']);
+    });
+
+    it('should not report its own writes when the vault reports them before the write returns', async () => {
+        const pending: Promise<boolean>[] = [];
+        vault.onModify = path => pending.push(dataManager.invalidatePath(path));
+
+        await create('2025-01-10 09:00', 'Planning');
+        await create('2025-01-10 11:00', 'Review');
+        await Promise.all(pending);
+
+        expect(pending).toHaveLength(2);
+        expect(events).toEqual(['created Planning', 'created Review']);
+    });
+
+    it('should pass copies to API listeners', async () => {
+        const api = new TimeTrackerApi(dataManager, () => settings, () => undefined);
+        const seen: TimeEntry[] = [];
+        const ref = api.on('entry-created', entry => {
+            entry.description = 'Changed by a listener';
+            seen.push(entry);
+        });
+
+        await create('2025-01-10 09:00', 'Planning');
+        api.offref(ref);
+        await create('2025-01-10 11:00', 'Ignored');
+
+        expect(seen).toHaveLength(1);
+        expect(seen[0]).not.toHaveProperty('lineNumber');
+        expect((await api.query()).map(e => e.description)).toEqual(['Ignored', 'Planning']);
+    });
+});
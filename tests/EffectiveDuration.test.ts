@@ -1,25 +1,7 @@
-import { TimeEntry } from '../src/types';
-
-// We need to test getEffectiveDuration, but it's a method on DataManager
-// which requires Vault. Let's extract the logic to a pure function for testing.
-
-/**
- * Calculate effective duration of an entry within a date range
- * This is the same logic as DataManager.getEffectiveDuration
- */
-function getEffectiveDuration(
-    entry: { startDateTime: Date; endDateTime: Date },
-    rangeStart: Date,
-    rangeEnd: Date
-): number {
-    // Clamp entry times to the range
-    const effectiveStart = entry.startDateTime < rangeStart ? rangeStart : entry.startDateTime;
-    const effectiveEnd = entry.endDateTime > rangeEnd ? rangeEnd : entry.endDateTime;
-
-    // Calculate duration in minutes
-    const durationMs = effectiveEnd.getTime() - effectiveStart.getTime();
-    return Math.max(0, Math.round(durationMs / 60000));
-}
+import { Reports } from '../src/core/Reports';
+
+// Same calculation as DataManager.getEffectiveDuration, which delegates to the core
+const getEffectiveDuration = Reports.effectiveMinutes;
 
 describe('getEffectiveDuration', () => {
     describe('same-day entries', () => {
@@ -0,0 +1,126 @@
+import type { DataAdapter } from 'obsidian';
+import { DataManager } from '../src/data/DataManager';
+import { EntryIndex } from '../src/data/EntryIndex';
+import { LruCache } from '../src/utils/LruCache';
+import { DEFAULT_SETTINGS, NewTimeEntry } from '../src/types';
+import { MemoryVault } from './helpers/MemoryVault';
+
+/**
+ * Adapter holding the index file in memory
+ */
+class MemoryAdapter {
+    files = new Map<string, string>();
+
+    async exists(path: string): Promise<boolean> {
+        return this.files.has(path);
+    }
+
+    async read(path: string): Promise<string> {
+        return this.files.get(path) ?? '';
+    }
+
+    async write(path: string, data: string): Promise<void> {
+        this.files.set(path, data);
+    }
+}
+
+describe('EntryIndex', () => {
+    const INDEX_PATH = '.obsidian/plugins/where-did-the-time-go/entry-index.json';
+    const FILE_PATH = 'TimeTracking/2025-01.md';
+
+    const newEntry = (start: string, end: string, overrides: Partial<NewTimeEntry> = {}): NewTimeEntry => ({
+        date: '2025-01-15',
+        start: `2025-01-15 ${start}`,
+        end: `2025-01-15 ${end}`,
+        description: 'Work',
+        client: 'personal',
+        ...overrides,
+    });
+
+    let vault: MemoryVault;
+    let adapter: MemoryAdapter;
+
+    const createDataManager = () =>
+        new DataManager(vault, DEFAULT_SETTINGS, new EntryIndex(adapter as unknown as DataAdapter, INDEX_PATH));
+
+    beforeEach(async () => {
+        vault = new MemoryVault();
+        adapter = new MemoryAdapter();
+        const writer = new DataManager(vault, DEFAULT_SETTINGS);
+        await writer.createEntry(newEntry('09:00', '10:00', { tags: ['oncall'], extraFields: { Ticket: 'T-1' } }));
+        await writer.createEntry(newEntry('11:00', '12:30'));
+        vault.reads.clear();
+    });
+
+    it('should load unchanged files from a saved index without reading them', async () => {
+        const first = createDataManager();
+        const parsed = await first.loadPartition('2025-01');
+        await first.saveIndex();
+        expect(adapter.files.has(INDEX_PATH)).toBe(true);
+
+        const second = createDataManager();
+        const fromIndex = await second.loadPartition('2025-01');
+
+        expect(vault.reads.get(FILE_PATH)).toBe(1);
+        expect(fromIndex.entries).toEqual(parsed.entries);
+        expect(fromIndex.entriesByDate.get('2025-01-15')).toHaveLength(2);
+        expect(fromIndex.entries[0].startDateTime).toBeInstanceOf(Date);
+        expect(fromIndex.contentHash).toBe(parsed.contentHash);
+    });
+
+    it('should parse a file again once its content changes', async () => {
+        const first = createDataManager();
+        await first.loadPartition('2025-01');
+        await first.saveIndex();
+
+        await new DataManager(vault, DEFAULT_SETTINGS).createEntry(newEntry('14:00', '15:00'));
+
+        const second = createDataManager();
+        expect((await second.loadPartition('2025-01')).entries).toHaveLength(3);
+    });
+
+    it('should reuse the record when only the mtime changed', async () => {
+        const first = createDataManager();
+        await first.loadPartition('2025-01');
+        await first.saveIndex();
+        // Mark the indexed copy so it can be told apart from a fresh parse
+        adapter.files.set(INDEX_PATH, adapter.files.get(INDEX_PATH).replace(/"description":"Work"/g, '"description":"Indexed"'));
+
+        vault.mtimes.set(FILE_PATH, 1000);
+        const entries = (await createDataManager().loadPartition('2025-01')).entries;
+
+        expect(vault.reads.get(FILE_PATH)).toBe(2);
+        expect(entries.map(e => e.description)).toEqual(['Indexed', 'Indexed']);
+    });
+
+    it('should ignore an index written by another version', async () => {
+        adapter.files.set(INDEX_PATH, JSON.stringify({ version: EntryIndex.VERSION + 1, files: { [FILE_PATH]: {} } }));
+
+        expect((await createDataManager().loadPartition('2025-01')).entries).toHaveLength(2);
+    });
+
+    it('should forget a file when a vault event reports it changed', async () => {
+        const dataManager = createDataManager();
+        await dataManager.loadPartition('2025-01');
+        vault.files.set(FILE_PATH, '');
+
+        expect(await dataManager.invalidatePath(FILE_PATH)).toBe(true);
+        expect(await dataManager.invalidatePath('Notes/other.md')).toBe(false);
+        expect((await dataManager.loadPartition('2025-01')).entries).toHaveLength(0);
+    });
+});
+
+describe('LruCache', () => {
+    it('should evict the least recently used key', () => {
+        const cache = new LruCache<string, number>(2);
+        cache.set('a', 1);
+        cache.set('b', 2);
+        cache.get('a');
+        cache.set('c', 3);
+
+        expect(cache.has('a')).toBe(true);
+        expect(cache.has('b')).toBe(false);
+        expect(cache.has('c')).toBe(true);
+        expect(cache.size).toBe(2);
+    });
+});
@@ -0,0 +1,69 @@
+import { EntrySearch } from '../src/data/EntrySearch';
+import { DataManager } from '../src/data/DataManager';
+import { ReportDimensions } from '../src/data/ReportDimensions';
+import { DEFAULT_SETTINGS, NewTimeEntry, TimeEntry, TimeTrackerSettings } from '../src/types';
+import { MemoryVault } from './helpers/MemoryVault';
+
+describe('EntrySearch', () => {
+    const settings: TimeTrackerSettings = {
+        ...DEFAULT_SETTINGS,
+        clients: [
+            ...DEFAULT_SETTINGS.clients,
+            { id: 'acme', name: 'Acme Corp', color: '#000000', archived: false, rate: 100, currency: 'USD' },
+        ],
+    };
+
+    const newEntry = (start: string, end: string, description: string, overrides: Partial<NewTimeEntry> = {}): NewTimeEntry => ({
+        date: start.slice(0, 10),
+        start,
+        end,
+        description,
+        client: 'acme',
+        ...overrides,
+    });
+
+    let entries: TimeEntry[];
+
+    beforeEach(async () => {
+        const dataManager = new DataManager(new MemoryVault(), settings);
+        await dataManager.createEntry(newEntry('2025-01-10 09:00', '2025-01-10 10:00', 'Fix login bug', { project: 'Webapp' }));
+        await dataManager.createEntry(newEntry('2025-01-10 14:00', '2025-01-10 14:30', 'Review login PR', { activity: 'review' }));
+        await dataManager.createEntry(newEntry('2025-02-03 09:00', '2025-02-03 11:00', 'Planning', { linkedNote: 'Meetings/Login redesign' }));
+        await dataManager.createEntry(newEntry('2025-02-04 09:00', '2025-02-04 10:00', 'Groceries', { client: 'personal' }));
+        entries = await dataManager.loadAllEntries();
+    });
+
+    it('should load entries from every data file', () => {
+        expect(entries.map(e => e.description)).toEqual(['Fix login bug', 'Review login PR', 'Planning', 'Groceries']);
+    });
+
+    it('should match every word across fields, ignoring case, newest first', () => {
+        const results = EntrySearch.search(entries, { text: 'LOGIN' }, settings);
+        expect(results.map(e => e.description)).toEqual(['Planning', 'Review login PR', 'Fix login bug']);
+
+        expect(EntrySearch.search(entries, { text: 'login webapp' }, settings).map(e => e.description)).toEqual(['Fix login bug']);
+        expect(EntrySearch.search(entries, { text: 'acme corp' }, settings)).toHaveLength(3);
+    });
+
+    it('should apply date bounds and dimension filters', () => {
+        const january = EntrySearch.search(entries, {
+            text: 'login',
+            from: new Date(2025, 0, 1),
+            to: new Date(2025, 1, 1),
+        }, settings);
+        expect(january).toHaveLength(2);
+
+        const activity = ReportDimensions.forSettings(settings).find(d => d.id === 'activity');
+        const reviews = EntrySearch.search(entries, { text: 'login', dimension: activity, value: 'review' }, settings);
+        expect(reviews.map(e => e.description)).toEqual(['Review login PR']);
+    });
+
+    it('should group results by day with totals', () => {
+        const days = EntrySearch.groupByDay(EntrySearch.search(entries, { text: 'login' }, settings));
+
+        expect(days.map(d => [d.date, d.entries.length, d.totalMinutes])).toEqual([
+            ['2025-02-03', 1, 120],
+            ['2025-01-10', 2, 90],
+        ]);
+    });
+});
@@ -0,0 +1,141 @@
+import { FileNormalizer } from '../src/data/FileNormalizer';
+import { DataManager } from '../src/data/DataManager';
+import { TableParser } from '../src/core/TableParser';
+import { WriteConflictError } from '../src/core/WriteConflictError';
+import { LineDiff } from '../src/utils/LineDiff';
+import { DEFAULT_SETTINGS, TimeTrackerSettings } from '../src/types';
+import { MemoryVault } from './helpers/MemoryVault';
+
+describe('FileNormalizer', () => {
+    const settings: TimeTrackerSettings = {
+        ...DEFAULT_SETTINGS,
+        hideTablesInPreview: false,
+        clients: [
+            ...DEFAULT_SETTINGS.clients,
+            { id: 'acme', name: 'Acme Corp', color: '#000000', archived: false, rate: 100, currency: 'USD' },
+        ],
+        projects: [
+            ...DEFAULT_SETTINGS.projects,
+            { id: 'website', name: 'Website', color: '#111111', archived: false, clientId: 'acme' },
+        ],
+    };
+
+    const handEdited = `# 2025-01
+
+| Start | End | Description | Client | Project |
+|---|---|---|---|---|
+| 2025-01-16   14:00 | 2025-01-16 15:00 |   Review   | Acme Corp | website |
+| 2025-01-15 09:00 | 2025-01-15 10:30 | Standup | acme | Website |
+| yesterday | 2025-01-15 11:00 | Typed by hand | acme | |
+`;
+
+    it('should sort rows, tidy cells, restore columns and the header, and map names', () => {
+        const normalized = FileNormalizer.normalize(handEdited, '2025-01', settings);
+
+        expect(normalized.startsWith(TableParser.getFileHeader())).toBe(true);
+        expect(normalized).toMatch(/\| Start\s+\| End\s+\| Description\s+\| Client\s+\| Project\s+\| Activity\s+\| Tags\s+\| Billable\s+\| Notes\s+\| ID\s+\|/);
+
+        const entries = TableParser.parseMonthFile(normalized, '2025-01').entries;
+        expect(entries.map(e => [e.start, e.description, e.client, e.project])).toEqual([
+            ['09:00', 'Standup', 'acme', 'Website'],
+            ['14:00', 'Review', 'acme', 'Website'],
+        ]);
+        expect(normalized).toContain('| 2025-01-16 14:00 |');
+        // Rows that can't be read are left for the user to fix
+        expect(normalized).toContain('| yesterday | 2025-01-15 11:00 | Typed by hand | acme | |');
+
+        expect(FileNormalizer.normalize(normalized, '2025-01', settings)).toBe(normalized);
+    });
+
+    it('should read start and end times typed loosely', () => {
+        expect(FileNormalizer.readDateTime('2025-1-5 9:00')).toBe('2025-01-05 09:00');
+        expect(FileNormalizer.readDateTime(' 2025-01-05T09:00:30+01:00 ')).toBe('2025-01-05 09:00 +01:00');
+        expect(FileNormalizer.readDateTime('2025-01-05 09:00:00 Europe/Berlin')).toBe('2025-01-05 09:00 Europe/Berlin');
+        expect(FileNormalizer.readDateTime('2025-02-30 09:00')).toBeNull();
+        expect(FileNormalizer.readDateTime('2025-01-05 24:00')).toBeNull();
+        expect(FileNormalizer.readDateTime('yesterday')).toBeNull();
+
+        const content = `# 2025-01
+
+| Start | End | Description | Client | Project |
+|---|---|---|---|---|
+| 2025-1-5 9:00 | 2025-1-5 9:45 | Standup | acme | |
+| 2025-01-05T10:00 | 2025-01-05T11:30 | Review | acme | |
+| 2025-01-06 09:00:00 | 2025-01-06 10:00:00 | Planning | acme | |
+| 2025-1-6 25:00 | 2025-01-06 12:00 | Typo | acme | |
+`;
+        const normalized = FileNormalizer.normalize(content, '2025-01', settings);
+
+        const entries = TableParser.parseMonthFile(normalized, '2025-01').entries;
+        expect(entries.map(e => [e.date, e.start, e.end, e.description])).toEqual([
+            ['2025-01-05', '09:00', '09:45', 'Standup'],
+            ['2025-01-05', '10:00', '11:30', 'Review'],
+            ['2025-01-06', '09:00', '10:00', 'Planning'],
+        ]);
+        expect(normalized).toContain('| 2025-1-6 25:00 | 2025-01-06 12:00 | Typo | acme | |');
+        expect(FileNormalizer.normalize(normalized, '2025-01', settings)).toBe(normalized);
+    });
+
+    it('should write projects typed by ID or display name as the name the rest of the plugin stores', () => {
+        const shared: TimeTrackerSettings = {
+            ...settings,
+            clients: [...settings.clients, { id: 'globex', name: 'Globex', color: '#222222', archived: false, rate: 90, currency: 'USD' }],
+            projects: [...settings.projects, { id: 'globex-website', name: 'Website', color: '#333333', archived: false, clientId: 'globex' }],
+        };
+        const content = `# 2025-01
+
+| Start | End | Description | Client | Project |
+|---|---|---|---|---|
+| 2025-01-15 09:00 | 2025-01-15 10:00 | Copy | Globex | WEBSITE |
+| 2025-01-15 10:00 | 2025-01-15 11:00 | Layout | Acme Corp | website |
+| 2025-01-15 11:00 | 2025-01-15 12:00 | Launch | globex | globex-website |
+`;
+
+        const entries = TableParser.parseMonthFile(FileNormalizer.normalize(content, '2025-01', shared), '2025-01').entries;
+        // The same project name is written for typed names and IDs, so reports keep one row per project
+        expect(entries.map(e => [e.description, e.client, e.project])).toEqual([
+            ['Copy', 'globex', 'Website'],
+            ['Layout', 'acme', 'Website'],
+            ['Launch', 'globex', 'Website'],
+        ]);
+    });
+
+    it('should replace an outdated header after the frontmatter', () => {
+        const oldHeader = '%%\n⚠️ WARNING: This file is managed by the "Where Did The Time Go" plugin.\nOld column list\n%%\n';
+        const content = `---\ntags: [time]\n---\n${oldHeader}\n${handEdited}`;
+
+        const normalized = FileNormalizer.normalize(content, '2025-01', settings);
+
+        expect(normalized.startsWith(`---\ntags: [time]\n---\n${TableParser.getFileHeader()}`)).toBe(true);
+        expect(normalized).not.toContain('Old column list');
+    });
+
+    it('should diff lines with removals before additions', () => {
+        const lines = LineDiff.diff('a\nb\nc\nd\ne\nf\ng', 'a\nB\nc\nd\ne\nf\ng\nh');
+
+        expect(lines.filter(l => l.type !== 'same')).toEqual([
+            { type: 'removed', text: 'b' },
+            { type: 'added', text: 'B' },
+            { type: 'added', text: 'h' },
+        ]);
+        expect(LineDiff.withContext(lines, 1).map(l => l?.text ?? null)).toEqual(['a', 'b', 'B', 'c', null, 'g', 'h']);
+    });
+
+    it('should only write files that still match the preview', async () => {
+        const vault = new MemoryVault();
+        vault.files.set('TimeTracking/2025-01.md', handEdited);
+        const dataManager = new DataManager(vault, settings);
+
+        const plan = await dataManager.planNormalization();
+        expect(plan.map(f => f.path)).toEqual(['TimeTracking/2025-01.md']);
+
+        vault.files.set('TimeTracking/2025-01.md', `${handEdited}\nEdited meanwhile\n`);
+        await expect(dataManager.applyNormalization(plan)).rejects.toThrow(WriteConflictError);
+        expect(vault.files.get('TimeTracking/2025-01.md')).toContain('Edited meanwhile');
+
+        const fresh = await dataManager.planNormalization();
+        await dataManager.applyNormalization(fresh);
+        expect(vault.files.get('TimeTracking/2025-01.md')).toBe(fresh[0].after);
+        expect(await dataManager.planNormalization()).toEqual([]);
+    });
+});
@@ -0,0 +1,86 @@
+import type { App, TAbstractFile, TFile } from 'obsidian';
+import { FolderRelocation } from '../src/data/FolderRelocation';
+import { MemoryVault } from './helpers/MemoryVault';
+
+describe('FolderRelocation', () => {
+    let vault: MemoryVault;
+    let relocation: FolderRelocation;
+
+    beforeEach(() => {
+        vault = new MemoryVault();
+        vault.folders.add('TimeTracking/Notes');
+        vault.folders.add('TimeTracking/Invoices');
+        vault.files.set('TimeTracking/2025-01.md', '| 2025-01-15 09:00 | 2025-01-15 10:00 | Work | acme | | | [[TimeTracking/Notes/kickoff]] | a1 |');
+        vault.files.set('TimeTracking/Notes/kickoff.md', '# Kickoff');
+        vault.files.set('TimeTracking/Invoices/INV-001.md', '# Invoice');
+
+        const app = {
+            vault,
+            fileManager: {
+                renameFile: (file: TAbstractFile, newPath: string) => vault.rename(file as TFile, newPath),
+                trashFile: async (file: TAbstractFile) => {
+                    for (const folder of [...vault.folders]) {
+                        if (folder === file.path || folder.startsWith(`${file.path}/`)) vault.folders.delete(folder);
+                    }
+                },
+            },
+        } as unknown as App;
+        relocation = new FolderRelocation(app);
+    });
+
+    it('should move data, notes and invoices and rewrite linked note links', async () => {
+        const plan = relocation.plan('TimeTracking', 'Work/Time/', 'TimeTracking/Invoices');
+        expect(plan.to).toBe('Work/Time');
+        expect(plan.invoiceFolder).toBe('Work/Time/Invoices');
+        expect(plan.collisions).toEqual([]);
+
+        await relocation.execute(plan);
+
+        expect([...vault.files.keys()].sort()).toEqual([
+            'Work/Time/2025-01.md',
+            'Work/Time/Invoices/INV-001.md',
+            'Work/Time/Notes/kickoff.md',
+        ]);
+        expect(vault.files.get('Work/Time/2025-01.md')).toContain('[[Work/Time/Notes/kickoff]]');
+        expect(vault.folders.has('TimeTracking')).toBe(false);
+    });
+
+    it('should report collisions and refuse to move', async () => {
+        vault.folders.add('Archive');
+        vault.files.set('Archive/2025-01.md', 'someone else');
+
+        const plan = relocation.plan('TimeTracking', 'Archive', 'Invoices');
+        expect(plan.collisions).toEqual(['Archive/2025-01.md']);
+        expect(plan.invoiceFolder).toBe('Invoices');
+
+        await expect(relocation.execute(plan)).rejects.toThrow('already exist');
+        expect(vault.files.get('Archive/2025-01.md')).toBe('someone else');
+    });
+
+    it('should move files back when a move fails', async () => {
+        const plan = relocation.plan('TimeTracking', 'Moved', 'TimeTracking/Invoices');
+        vault.failOn = 'Moved/Notes/kickoff.md';
+
+        await expect(relocation.execute(plan)).rejects.toThrow('Disk full');
+        expect([...vault.files.keys()].every(path => path.startsWith('TimeTracking/'))).toBe(true);
+    });
+
+    it('should restore rewritten links and move files back when a link rewrite fails', async () => {
+        vault.files.set('TimeTracking/2025-02.md', '| 2025-02-03 09:00 | 2025-02-03 10:00 | Work | acme | | | [[TimeTracking/Notes/kickoff]] | b1 |');
+        const modify = vault.modify.bind(vault);
+        vault.modify = async (file: TFile, content: string) => {
+            if (file.path === 'Moved/2025-02.md') throw new Error('Disk full');
+            return modify(file, content);
+        };
+
+        await expect(relocation.execute(relocation.plan('TimeTracking', 'Moved', 'TimeTracking/Invoices'))).rejects.toThrow('Disk full');
+
+        expect([...vault.files.keys()].every(path => path.startsWith('TimeTracking/'))).toBe(true);
+        expect(vault.files.get('TimeTracking/2025-01.md')).toContain('[[TimeTracking/Notes/kickoff]]');
+        expect(vault.files.get('TimeTracking/2025-02.md')).toContain('[[TimeTracking/Notes/kickoff]]');
+    });
+
+    it('should refuse to move a folder into itself', () => {
+        expect(() => relocation.plan('TimeTracking', 'TimeTracking/Sub', 'Invoices')).toThrow('inside');
+    });
+});
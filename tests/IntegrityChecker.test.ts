@@ -0,0 +1,97 @@
+import { IntegrityChecker } from '../src/data/IntegrityChecker';
+import { DataManager } from '../src/data/DataManager';
+import { TableParser } from '../src/core/TableParser';
+import { Client, DEFAULT_SETTINGS, TimeEntry, TimeTrackerSettings } from '../src/types';
+import { MemoryVault } from './helpers/MemoryVault';
+
+describe('IntegrityChecker', () => {
+    const acme: Client = { id: 'acme', name: 'Acme', color: '#000000', archived: false, rate: 100, currency: 'USD' };
+    const globex: Client = { id: 'globex', name: 'Globex', color: '#111111', archived: false, rate: 100, currency: 'USD' };
+    const settings: TimeTrackerSettings = {
+        ...DEFAULT_SETTINGS,
+        clients: [acme, globex],
+        projects: [{ id: 'website', name: 'Website', color: '#222222', archived: false, clientId: 'acme' }],
+        activities: [{ id: 'dev', name: 'dev', color: '#333333', clientId: 'acme' }],
+    };
+    const notes = new Set(['Notes/Kickoff']);
+    const noteExists = (link: string) => notes.has(link);
+
+    const createEntry = (start: number, end: number, overrides: Partial<TimeEntry> = {}): TimeEntry => ({
+        id: `e${start}`,
+        date: '2025-01-15',
+        start: `${String(start).padStart(2, '0')}:00`,
+        end: `${String(end).padStart(2, '0')}:00`,
+        description: 'Work',
+        client: 'acme',
+        startDateTime: new Date(2025, 0, 15, start, 0),
+        endDateTime: new Date(2025, 0, 15, end, 0),
+        durationMinutes: (end - start) * 60,
+        lineNumber: 0,
+        ...overrides,
+    });
+
+    it('should find nothing in clean data', () => {
+        const entries = [
+            createEntry(9, 10, { project: 'Website', activity: 'dev', linkedNote: 'Notes/Kickoff|Kickoff' }),
+            createEntry(10, 11),
+        ];
+
+        expect(IntegrityChecker.check(entries, settings, noteExists)).toEqual([]);
+    });
+
+    it('should report overlaps on the earlier entry and offer to trim it', () => {
+        const [finding] = IntegrityChecker.check([createEntry(9, 11), createEntry(10, 12)], settings, noteExists);
+
+        expect(finding.problem).toBe('overlap');
+        expect(finding.entry.id).toBe('e9');
+        expect(finding.fix?.label).toBe('End at 10:00');
+        expect(finding.fix?.change.after?.durationMinutes).toBe(60);
+    });
+
+    it('should report unknown references and projects on the wrong client', () => {
+        const findings = IntegrityChecker.check([
+            createEntry(8, 9, { client: 'initech' }),
+            createEntry(9, 10, { project: 'Mobile' }),
+            createEntry(10, 11, { client: 'globex', project: 'Website' }),
+            createEntry(11, 12, { activity: 'design' }),
+            createEntry(12, 13, { linkedNote: 'Notes/Missing' }),
+        ], settings, noteExists);
+
+        expect(findings.map(f => [f.problem, f.fix?.label])).toEqual([
+            ['unknown-client', undefined],
+            ['unknown-project', 'Clear project'],
+            ['project-wrong-client', 'Move to Acme'],
+            ['unknown-activity', 'Clear activity'],
+            ['broken-link', 'Remove link'],
+        ]);
+        expect(findings[2].fix?.change.after?.client).toBe('acme');
+    });
+
+    it('should flag non-positive and suspiciously long entries', () => {
+        const findings = IntegrityChecker.check([
+            createEntry(6, 6),
+            createEntry(7, 5, { id: 'backwards' }),
+            createEntry(8, 22),
+        ], settings, noteExists);
+
+        expect(findings.map(f => f.problem)).toEqual(['non-positive-duration', 'non-positive-duration', 'long-entry']);
+        expect(findings[0].fix?.change).toEqual({ before: findings[0].entry });
+        expect(findings[2].fix).toBeUndefined();
+    });
+
+    it('should fix hand-edited overlaps through the normal save path', async () => {
+        const vault = new MemoryVault();
+        vault.files.set('TimeTracking/2025-01.md', TableParser.generateMonthFile([
+            createEntry(9, 11),
+            createEntry(10, 12),
+        ], '2025-01', false));
+        const dataManager = new DataManager(vault, settings);
+
+        const [finding] = IntegrityChecker.check(await dataManager.loadAllEntries(), settings, noteExists);
+        await dataManager.applyChanges([finding.fix!.change], finding.fix!.label);
+
+        const entries = await dataManager.loadAllEntries();
+        expect(entries.map(e => `${e.start}-${e.end}`)).toEqual(['09:00-10:00', '10:00-12:00']);
+        expect(IntegrityChecker.check(entries, settings, noteExists)).toEqual([]);
+    });
+});
@@ -0,0 +1,101 @@
+import { MonthChanges } from '../src/core/MonthChanges';
+import { DataManager } from '../src/data/DataManager';
+import { TableParser } from '../src/core/TableParser';
+import { WriteConflictError } from '../src/core/WriteConflictError';
+import { DEFAULT_SETTINGS, NewTimeEntry, TimeEntry } from '../src/types';
+import { MemoryVault } from './helpers/MemoryVault';
+
+describe('MonthChanges', () => {
+    const entry = (id: string, startHour: number, overrides: Partial<TimeEntry> = {}): TimeEntry => ({
+        id,
+        date: '2025-01-15',
+        start: `${startHour}:00`,
+        end: `${startHour + 1}:00`,
+        description: `Task ${id}`,
+        client: 'acme',
+        startDateTime: new Date(2025, 0, 15, startHour, 0),
+        endDateTime: new Date(2025, 0, 15, startHour + 1, 0),
+        durationMinutes: 60,
+        lineNumber: 1,
+        ...overrides,
+    });
+
+    it('should apply creates, updates and deletes by ID', () => {
+        const a = entry('a', 9);
+        const b = entry('b', 11);
+        const result = MonthChanges.apply([a, b], [
+            { before: a, after: { ...a, description: 'Renamed' } },
+            { before: b },
+            { after: entry('c', 14) },
+        ]);
+
+        expect(result.conflicts).toEqual([]);
+        expect(result.entries.map(e => [e.id, e.description])).toEqual([['a', 'Renamed'], ['c', 'Task c']]);
+    });
+
+    it('should report entries edited or deleted since they were loaded', () => {
+        const a = entry('a', 9);
+        const b = entry('b', 11);
+        const current = [{ ...a, description: 'Edited on laptop' }];
+        const result = MonthChanges.apply(current, [{ before: a, after: { ...a, client: 'other' } }, { before: b }]);
+
+        expect(result.conflicts).toEqual([
+            '"Task a" (2025-01-15 09:00) was edited',
+            '"Task b" (2025-01-15 11:00) was deleted',
+        ]);
+    });
+
+    it('should report overlaps with entries added elsewhere when asked', () => {
+        const current = [entry('x', 9)];
+        const result = MonthChanges.apply(current, [{ after: entry('a', 9) }], true);
+
+        expect(result.conflicts).toEqual(['"Task a" (2025-01-15 09:00) now overlaps "Task x" (2025-01-15 09:00)']);
+    });
+});
+
+describe('DataManager external edits', () => {
+    const newEntry = (start: string, end: string, description: string): NewTimeEntry => ({
+        date: '2025-01-15',
+        start: `2025-01-15 ${start}`,
+        end: `2025-01-15 ${end}`,
+        description,
+        client: 'personal',
+    });
+    const path = 'TimeTracking/2025-01.md';
+
+    let vault: MemoryVault;
+    let dataManager: DataManager;
+
+    beforeEach(() => {
+        vault = new MemoryVault();
+        dataManager = new DataManager(vault, { ...DEFAULT_SETTINGS });
+    });
+
+    it('should keep entries added to the file after it was loaded', async () => {
+        const mine = await dataManager.createEntry(newEntry('09:00', '10:00', 'Mine'));
+        await dataManager.loadPartition('2025-01');
+
+        // Another device adds an entry; the cached copy doesn't know about it
+        const other = new DataManager(vault, { ...DEFAULT_SETTINGS });
+        await other.createEntry(newEntry('13:00', '14:00', 'Synced'));
+
+        await dataManager.updateEntry(mine, { description: 'Mine, edited' });
+
+        const result = TableParser.parseMonthFile(vault.files.get(path) ?? '', '2025-01');
+        expect(result.entries.map(e => e.description).sort()).toEqual(['Mine, edited', 'Synced']);
+    });
+
+    it('should refuse to overwrite an entry edited elsewhere', async () => {
+        const mine = await dataManager.createEntry(newEntry('09:00', '10:00', 'Original'));
+        await dataManager.loadPartition('2025-01');
+
+        const other = new DataManager(vault, { ...DEFAULT_SETTINGS });
+        const [theirs] = (await other.loadPartition('2025-01')).entries;
+        await other.updateEntry(theirs, { description: 'Edited on laptop' });
+        const before = vault.files.get(path);
+
+        await expect(dataManager.updateEntry(mine, { description: 'Edited here' }))
+            .rejects.toThrow(WriteConflictError);
+        expect(vault.files.get(path)).toBe(before);
+    });
+});
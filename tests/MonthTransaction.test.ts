@@ -0,0 +1,92 @@
+import { MonthTransaction } from '../src/data/MonthTransaction';
+import { DataManager } from '../src/data/DataManager';
+import { TableParser } from '../src/core/TableParser';
+import { DEFAULT_SETTINGS } from '../src/types';
+import { MemoryVault } from './helpers/MemoryVault';
+
+describe('MonthTransaction', () => {
+    let vault: MemoryVault;
+
+    beforeEach(() => {
+        vault = new MemoryVault();
+    });
+
+    it('should apply all staged writes', async () => {
+        vault.files.set('a.md', 'old a');
+        const transaction = new MonthTransaction(vault);
+        transaction.stage('a.md', content => `${content} + new`);
+        transaction.stage('b.md', () => 'new b');
+
+        await transaction.commit();
+
+        expect(vault.files.get('a.md')).toBe('old a + new');
+        expect(vault.files.get('b.md')).toBe('new b');
+    });
+
+    it('should restore modified files when a later write fails', async () => {
+        vault.files.set('a.md', 'old a');
+        vault.files.set('b.md', 'old b');
+        vault.failOn = 'b.md';
+        const transaction = new MonthTransaction(vault);
+        transaction.stage('a.md', () => 'new a');
+        transaction.stage('b.md', () => 'new b');
+
+        await expect(transaction.commit()).rejects.toThrow('Disk full');
+
+        expect(vault.files.get('a.md')).toBe('old a');
+        expect(vault.files.get('b.md')).toBe('old b');
+    });
+
+    it('should remove files it created when a later write fails', async () => {
+        vault.files.set('b.md', 'old b');
+        vault.failOn = 'b.md';
+        const transaction = new MonthTransaction(vault);
+        transaction.stage('a.md', () => 'new a');
+        transaction.stage('b.md', () => 'new b');
+
+        await expect(transaction.commit()).rejects.toThrow('Disk full');
+
+        expect(vault.files.has('a.md')).toBe(false);
+    });
+
+    it('should not write anything when a renderer throws', async () => {
+        vault.files.set('a.md', 'old a');
+        const transaction = new MonthTransaction(vault);
+        transaction.stage('a.md', () => 'new a');
+        transaction.stage('b.md', () => {
+            throw new Error('Bad render');
+        });
+
+        await expect(transaction.commit()).rejects.toThrow('Bad render');
+
+        expect(vault.files.get('a.md')).toBe('old a');
+        expect(vault.files.has('b.md')).toBe(false);
+    });
+});
+
+describe('DataManager cross-month moves', () => {
+    it('should keep the entry in its old month when writing the new month fails', async () => {
+        const vault = new MemoryVault();
+        const dataManager = new DataManager(vault, { ...DEFAULT_SETTINGS });
+
+        const entry = await dataManager.createEntry({
+            date: '2025-01-31',
+            start: '2025-01-31 09:00',
+            end: '2025-01-31 10:00',
+            description: 'Month end',
+            client: 'personal',
+        });
+        const januaryBefore = vault.files.get('TimeTracking/2025-01.md');
+
+        vault.failOn = 'TimeTracking/2025-02.md';
+        await expect(dataManager.updateEntry(entry, {
+            start: '2025-02-01 09:00',
+            end: '2025-02-01 10:00',
+        })).rejects.toThrow('Disk full');
+
+        expect(vault.files.get('TimeTracking/2025-01.md')).toBe(januaryBefore);
+        expect(vault.files.has('TimeTracking/2025-02.md')).toBe(false);
+        const january = TableParser.parseMonthFile(januaryBefore ?? '', '2025-01');
+        expect(january.entries.map(e => e.id)).toEqual([entry.id]);
+    });
+});
@@ -0,0 +1,97 @@
+import { OperationJournal } from '../src/data/OperationJournal';
+import { DataManager } from '../src/data/DataManager';
+import { DEFAULT_SETTINGS, NewTimeEntry } from '../src/types';
+import { MemoryVault } from './helpers/MemoryVault';
+
+describe('OperationJournal', () => {
+    it('should move records between undo and redo stacks', () => {
+        const journal = new OperationJournal();
+        journal.record({ label: 'Delete entry', changes: [{ before: undefined, after: undefined }] });
+
+        expect(journal.canUndo()).toBe(true);
+        journal.markUndone();
+        expect(journal.canUndo()).toBe(false);
+        expect(journal.canRedo()).toBe(true);
+        journal.markRedone();
+        expect(journal.peekUndo()?.label).toBe('Delete entry');
+    });
+
+    it('should clear redo history when a new action is recorded', () => {
+        const journal = new OperationJournal();
+        journal.record({ label: 'A', changes: [{}] });
+        journal.markUndone();
+        journal.record({ label: 'B', changes: [{}] });
+
+        expect(journal.canRedo()).toBe(false);
+    });
+
+    it('should ignore records without changes', () => {
+        const journal = new OperationJournal();
+        journal.record({ label: 'Nothing', changes: [] });
+
+        expect(journal.canUndo()).toBe(false);
+    });
+});
+
+describe('DataManager undo/redo', () => {
+    const newEntry = (day: string, start: string, end: string): NewTimeEntry => ({
+        date: day,
+        start: `${day} ${start}`,
+        end: `${day} ${end}`,
+        description: 'Work',
+        client: 'personal',
+    });
+
+    let dataManager: DataManager;
+
+    beforeEach(() => {
+        dataManager = new DataManager(new MemoryVault(), { ...DEFAULT_SETTINGS });
+    });
+
+    it('should undo and redo a create', async () => {
+        await dataManager.createEntry(newEntry('2025-01-15', '09:00', '10:00'));
+
+        expect(await dataManager.undo()).toBe(true);
+        expect((await dataManager.loadPartition('2025-01')).entries).toEqual([]);
+
+        expect(await dataManager.redo()).toBe(true);
+        expect((await dataManager.loadPartition('2025-01')).entries.length).toBe(1);
+    });
+
+    it('should undo a move across months', async () => {
+        const entry = await dataManager.createEntry(newEntry('2025-01-31', '09:00', '10:00'));
+        await dataManager.updateEntry(entry, { start: '2025-02-03 09:00', end: '2025-02-03 10:00' });
+
+        await dataManager.undo();
+
+        const january = await dataManager.loadPartition('2025-01');
+        expect(january.entries.map(e => e.id)).toEqual([entry.id]);
+        expect(january.entries[0].startDateTime).toEqual(new Date(2025, 0, 31, 9, 0));
+        expect((await dataManager.loadPartition('2025-02')).entries).toEqual([]);
+    });
+
+    it('should restore a deleted entry with its ID', async () => {
+        const entry = await dataManager.createEntry(newEntry('2025-01-15', '09:00', '10:00'));
+        await dataManager.deleteEntry(entry);
+
+        await dataManager.undo();
+
+        expect((await dataManager.loadPartition('2025-01')).entries.map(e => e.id)).toEqual([entry.id]);
+    });
+
+    it('should refuse to restore an entry over one added since', async () => {
+        const vault = new MemoryVault();
+        dataManager = new DataManager(vault, { ...DEFAULT_SETTINGS });
+        const entry = await dataManager.createEntry(newEntry('2025-01-15', '09:00', '10:00'));
+        await dataManager.deleteEntry(entry);
+
+        // Someone else fills the gap (e.g. another device via sync)
+        const other = new DataManager(vault, { ...DEFAULT_SETTINGS });
+        const replacement = await other.createEntry(newEntry('2025-01-15', '09:30', '10:30'));
+        dataManager.clearCache();
+
+        expect(await dataManager.undo()).toBe(false);
+        expect((await dataManager.loadPartition('2025-01')).entries.map(e => e.id)).toEqual([replacement.id]);
+        expect(dataManager.canUndo()).toBe(true);
+    });
+});
@@ -1,8 +1,13 @@
 /**
  * Tests for overlap detection logic
- * Pure function version of DataManager.findOverlaps for testing
+ * Overlaps.classify is what DataManager.findOverlaps uses on the stored entries
  */
 
+import { Overlaps } from '../src/core/Overlaps';
+import { DataManager } from '../src/data/DataManager';
+import { DEFAULT_SETTINGS, NewTimeEntry } from '../src/types';
+import { MemoryVault } from './helpers/MemoryVault';
+
 interface MockEntry {
     start: string;
     end: string;
@@ -10,47 +15,7 @@ interface MockEntry {
     endDateTime: Date;
 }
 
-/**
- * Find overlaps and classify them:
- * - startOverlap: Entry where our START falls inside
- * - endOverlap: Entry where our END falls inside
- * - encompassedEntry: Entry we fully encompass
- */
-function findOverlaps(
-    start: Date,
-    end: Date,
-    entries: MockEntry[]
-): {
-    startOverlap: MockEntry | null;
-    endOverlap: MockEntry | null;
-    encompassedEntry: MockEntry | null;
-} {
-    let startOverlap: MockEntry | null = null;
-    let endOverlap: MockEntry | null = null;
-    let encompassedEntry: MockEntry | null = null;
-
-    for (const entry of entries) {
-        // Check for any overlap first
-        const overlaps = start < entry.endDateTime && end > entry.startDateTime;
-        if (!overlaps) continue;
-
-        // Classify the overlap type
-        const startInside = start >= entry.startDateTime && start < entry.endDateTime;
-        const endInside = end > entry.startDateTime && end <= entry.endDateTime;
-
-        if (startInside && !startOverlap) {
-            startOverlap = entry;
-        }
-        if (endInside && !endOverlap) {
-            endOverlap = entry;
-        }
-        if (!startInside && !endInside && !encompassedEntry) {
-            encompassedEntry = entry;
-        }
-    }
-
-    return { startOverlap, endOverlap, encompassedEntry };
-}
+const findOverlaps = (start: Date, end: Date, entries: MockEntry[]) => Overlaps.classify(start, end, entries);
 
 // Helper to create mock entries
 function createEntry(startStr: string, endStr: string): MockEntry {
@@ -223,3 +188,60 @@ describe('findOverlaps', () => {
         });
     });
 });
+
+describe('overlap checks on save', () => {
+    const newEntry = (start: string, end: string): NewTimeEntry => ({
+        date: start.slice(0, 10),
+        start,
+        end,
+        description: 'Work',
+        client: 'personal',
+    });
+
+    let vault: MemoryVault;
+    let dataManager: DataManager;
+
+    beforeEach(() => {
+        vault = new MemoryVault();
+        dataManager = new DataManager(vault, DEFAULT_SETTINGS);
+    });
+
+    it('should reject an entry running past midnight into the next day\'s entries', async () => {
+        await dataManager.createEntry(newEntry('2026-01-03 00:30', '2026-01-03 01:30'));
+
+        await expect(dataManager.createEntry(newEntry('2026-01-02 23:00', '2026-01-03 01:00')))
+            .rejects.toThrow('overlaps with an existing time entry');
+    });
+
+    it('should reject an entry on the 31st that runs into the next month\'s file', async () => {
+        await dataManager.createEntry(newEntry('2026-02-01 00:15', '2026-02-01 02:00'));
+
+        await expect(dataManager.createEntry(newEntry('2026-01-31 23:00', '2026-02-01 01:00')))
+            .rejects.toThrow('overlaps with an existing time entry');
+        expect(vault.files.get('TimeTracking/2026-01.md') ?? '').not.toContain('2026-01-31 23:00');
+    });
+
+    it('should reject an entry overlapping one that started in the previous month', async () => {
+        await dataManager.createEntry(newEntry('2025-12-31 22:00', '2026-01-01 02:00'));
+
+        await expect(dataManager.createEntry(newEntry('2026-01-01 01:00', '2026-01-01 03:00')))
+            .rejects.toThrow('overlaps with an existing time entry');
+    });
+
+    it('should reject a multi-day entry that encompasses another', async () => {
+        await dataManager.createEntry(newEntry('2026-01-03 09:00', '2026-01-03 10:00'));
+
+        await expect(dataManager.createEntry(newEntry('2026-01-02 08:00', '2026-01-04 08:00')))
+            .rejects.toThrow('overlaps with an existing time entry');
+    });
+
+    it('should check the new span when an edit extends an entry past midnight', async () => {
+        const entry = await dataManager.createEntry(newEntry('2026-01-02 21:00', '2026-01-02 23:00'));
+        await dataManager.createEntry(newEntry('2026-01-03 00:30', '2026-01-03 01:30'));
+
+        await expect(dataManager.updateEntry(entry, { end: '2026-01-03 01:00' }))
+            .rejects.toThrow('overlaps with an existing time entry');
+        // Not counted as overlapping itself
+        await expect(dataManager.updateEntry(entry, { end: '2026-01-03 00:30' })).resolves.toBeDefined();
+    });
+});
@@ -0,0 +1,142 @@
+import { Partitioning } from '../src/core/Partitioning';
+import { DataManager } from '../src/data/DataManager';
+import { DEFAULT_SETTINGS, NewTimeEntry, TimeEntry } from '../src/types';
+import { MemoryVault } from './helpers/MemoryVault';
+
+describe('Partitioning', () => {
+    it('should use the ISO week-numbering year around New Year', () => {
+        expect(Partitioning.isoWeek(new Date(2024, 11, 30))).toBe('2025-W01');
+        expect(Partitioning.isoWeek(new Date(2021, 0, 3))).toBe('2020-W53');
+        expect(Partitioning.isoWeek(new Date(2025, 0, 6))).toBe('2025-W02');
+    });
+
+    it('should list keys for a range per strategy', () => {
+        const start = new Date(2025, 0, 27);
+        const end = new Date(2025, 1, 4, 23, 59);
+
+        expect(new Partitioning('monthly').keysForRange(start, end)).toEqual(['2025-01', '2025-02']);
+        expect(new Partitioning('weekly').keysForRange(start, end)).toEqual(['2025-W05', '2025-W06']);
+        expect(new Partitioning('yearly').keysForRange(start, end, [], true)).toEqual(['2024', '2025']);
+        expect(new Partitioning('client-monthly').keysForRange(start, end, ['acme', 'acme', 'beta']))
+            .toEqual(['acme/2025-01', 'acme/2025-02', 'beta/2025-01', 'beta/2025-02']);
+    });
+
+    it('should only accept paths matching the strategy', () => {
+        const weekly = new Partitioning('weekly');
+        expect(weekly.keyFromPath('TimeTracking', 'TimeTracking/2025-W05.md')).toBe('2025-W05');
+        expect(weekly.keyFromPath('TimeTracking', 'TimeTracking/2025-01.md')).toBeNull();
+        expect(weekly.keyFromPath('TimeTracking', 'TimeTracking/Trash.md')).toBeNull();
+
+        const perClient = new Partitioning('client-monthly', ['acme']);
+        expect(perClient.keyFromPath('TimeTracking', 'TimeTracking/acme/2025-01.md')).toBe('acme/2025-01');
+        expect(perClient.keyFromPath('TimeTracking', 'TimeTracking/2025-01.md')).toBeNull();
+        expect(perClient.keyFromPath('TimeTracking', 'TimeTracking/Invoices/2025-01.md')).toBeNull();
+    });
+
+    it('should split changes per file, moving entries between files', () => {
+        const entry = (id: string, start: Date, client = 'acme') =>
+            ({ id, startDateTime: start, client } as TimeEntry);
+        const standup = entry('a', new Date(2025, 0, 31, 9));
+        const review = entry('b', new Date(2025, 0, 15, 9));
+
+        const files = new Partitioning('monthly').splitChanges([
+            { before: standup, after: { ...standup, startDateTime: new Date(2025, 1, 3, 9) } },
+            { before: review, after: { ...review, client: 'beta' } },
+        ]);
+
+        expect([...files].map(([key, changes]) => [key, changes.map(c => [c.before?.id, c.after?.id])])).toEqual([
+            ['2025-01', [['a', undefined], ['b', 'b']]],
+            ['2025-02', [[undefined, 'a']]],
+        ]);
+        expect([...new Partitioning('client-monthly').splitChanges([{ before: review, after: { ...review, client: 'beta' } }]).keys()])
+            .toEqual(['acme/2025-01', 'beta/2025-01']);
+    });
+});
+
+describe('DataManager partitioning', () => {
+    const perClientSettings = {
+        ...DEFAULT_SETTINGS,
+        partitioning: 'client-monthly' as const,
+        clients: ['acme', 'beta'].map(id => ({ id, name: id, color: '#000000', archived: false, rate: 0, currency: 'USD' })),
+    };
+    const newEntry = (day: string, client: string): NewTimeEntry => ({
+        date: day,
+        start: `${day} 09:00`,
+        end: `${day} 10:00`,
+        description: 'Work',
+        client,
+    });
+
+    it('should write entries to per-client files and load them for a range', async () => {
+        const vault = new MemoryVault();
+        const dataManager = new DataManager(vault, perClientSettings);
+        await dataManager.createEntry(newEntry('2025-01-15', 'acme'));
+        await dataManager.createEntry(newEntry('2025-01-16', 'beta'));
+
+        expect([...vault.files.keys()].sort()).toEqual(['TimeTracking/acme/2025-01.md', 'TimeTracking/beta/2025-01.md']);
+
+        const entries = await dataManager.loadDateRange(new Date(2025, 0, 1), new Date(2025, 0, 31, 23, 59));
+        expect(entries.map(e => e.client).sort()).toEqual(['acme', 'beta']);
+    });
+
+    it('should refuse entries of clients without a folder that is read, and read them back once the client is added', async () => {
+        const vault = new MemoryVault();
+        const settings = { ...perClientSettings, clients: [...perClientSettings.clients] };
+        const dataManager = new DataManager(vault, settings);
+
+        await expect(dataManager.createEntry(newEntry('2025-01-15', 'initech')))
+            .rejects.toThrow('Client "initech" is not configured - add it before saving its entries');
+        expect([...vault.files.keys()]).toEqual([]);
+
+        settings.clients.push({ id: 'initech', name: 'Initech', color: '#000000', archived: false, rate: 0, currency: 'USD' });
+        await dataManager.createEntry(newEntry('2025-01-15', 'initech'));
+
+        expect([...vault.files.keys()]).toEqual(['TimeTracking/initech/2025-01.md']);
+        expect((await dataManager.loadAllEntries()).map(e => e.client)).toEqual(['initech']);
+    });
+
+    it('should not read other subfolders as client data', async () => {
+        const vault = new MemoryVault();
+        const dataManager = new DataManager(vault, perClientSettings);
+        await dataManager.createEntry(newEntry('2025-01-15', 'acme'));
+        const stray = (await dataManager.loadPartition('acme/2025-01')).entries[0];
+        // A month of notes that happens to hold an entry table
+        vault.files.set('TimeTracking/Notes/2025-01.md', vault.files.get('TimeTracking/acme/2025-01.md')
+            .replace(stray.id, 'notes-row').replace('2025-01-15 09:00', '2025-01-16 09:00').replace('2025-01-15 10:00', '2025-01-16 10:00'));
+
+        const entries = await dataManager.loadDateRange(new Date(2025, 0, 1), new Date(2025, 0, 31, 23, 59));
+        expect(entries.map(e => e.id)).toEqual([stray.id]);
+        expect((await dataManager.loadAllEntries()).map(e => e.id)).toEqual([stray.id]);
+        expect(dataManager.getPartitionKeyForPath('TimeTracking/Notes/2025-01.md')).toBeNull();
+    });
+
+    it('should move existing entries into the new layout', async () => {
+        const vault = new MemoryVault();
+        const settings = { ...DEFAULT_SETTINGS };
+        const dataManager = new DataManager(vault, settings);
+        const first = await dataManager.createEntry(newEntry('2025-01-15', 'acme'));
+        await dataManager.createEntry(newEntry('2025-02-03', 'acme'));
+
+        settings.partitioning = 'weekly';
+        dataManager.updateSettings(settings);
+        const result = await dataManager.repartition();
+
+        expect(result.entries).toBe(2);
+        expect(result.obsolete.map(f => f.path).sort()).toEqual(['TimeTracking/2025-01.md', 'TimeTracking/2025-02.md']);
+        const week = await dataManager.loadPartition('2025-W03');
+        expect(week.entries.map(e => e.id)).toEqual([first.id]);
+    });
+
+    it('should refuse to move data while rows cannot be parsed', async () => {
+        const vault = new MemoryVault();
+        vault.files.set('TimeTracking/2025-01.md', [
+            '| Start | End | Description | Client |',
+            '| --- | --- | --- | --- |',
+            '| 2025-01-15 09:00 | not a date | Work | acme |',
+        ].join('\n'));
+        const dataManager = new DataManager(vault, { ...DEFAULT_SETTINGS, partitioning: 'yearly' });
+
+        await expect(dataManager.repartition()).rejects.toThrow('could not be parsed');
+        expect(vault.files.has('TimeTracking/2025.md')).toBe(false);
+    });
+});
@@ -1,9 +1,10 @@
-import { TableParser } from '../src/data/TableParser';
+import { TableParser } from '../src/core/TableParser';
 import { TimeEntry } from '../src/types';
 
 describe('TableParser', () => {
     // Helper to create a test entry
     const createEntry = (overrides: Partial<TimeEntry> = {}): TimeEntry => ({
+        id: 'test-id',
         date: '2025-01-15',
         start: '09:00',
         end: '10:00',
@@ -105,6 +106,90 @@ describe('TableParser', () => {
         });
     });
 
+    describe('entry IDs', () => {
+        it('should read IDs from the ID column', () => {
+            const content = `| Start | End | Description | Client | Project | Activity | Notes | ID |
+|-------|-----|-------------|--------|---------|----------|-------|----|
+| 2025-01-15 09:00 | 2025-01-15 10:00 | Task | acme | | | | k1 |
+| 2025-01-15 09:00 | 2025-01-15 10:00 | Task | acme | | | | k2 |
+`;
+
+            const result = TableParser.parseMonthFile(content, '2025-01');
+
+            expect(result.entries.map(e => e.id)).toEqual(['k1', 'k2']);
+        });
+
+        it('should derive distinct, stable IDs for identical legacy rows', () => {
+            const content = `| Start | End | Description | Client | Project | Activity | Notes |
+|-------|-----|-------------|--------|---------|----------|-------|
+| 2025-01-15 09:00 | 2025-01-15 10:00 | Task | acme | | | |
+| 2025-01-15 09:00 | 2025-01-15 10:00 | Task | acme | | | |
+`;
+
+            const first = TableParser.parseMonthFile(content, '2025-01');
+            const second = TableParser.parseMonthFile(content, '2025-01');
+
+            expect(first.entries[0].id).not.toBe(first.entries[1].id);
+            expect(second.entries.map(e => e.id)).toEqual(first.entries.map(e => e.id));
+        });
+
+        it('should keep derived IDs when rows are added or moved around them', () => {
+            const header = `| Start | End | Description | Client | Project | Activity | Notes |
+|-------|-----|-------------|--------|---------|----------|-------|
+`;
+            const standup = '| 2025-01-15 09:00 | 2025-01-15 09:15 | Standup | acme | | | |\n';
+            const review = '| 2025-01-15 10:00 | 2025-01-15 11:00 | Review | acme | | | |\n';
+            const added = '| 2025-01-14 09:00 | 2025-01-14 10:00 | Planning | acme | | | |\n';
+
+            const ids = (content: string) => new Map(TableParser.parseMonthFile(content, '2025-01').entries.map(e => [e.description, e.id]));
+            const before = ids(header + standup + review);
+            const after = ids(header + added + review + standup);
+
+            expect(after.get('Standup')).toBe(before.get('Standup'));
+            expect(after.get('Review')).toBe(before.get('Review'));
+        });
+
+        it('generateId should produce unique IDs', () => {
+            const ids = new Set(Array.from({ length: 100 }, () => TableParser.generateId()));
+            expect(ids.size).toBe(100);
+        });
+    });
+
+    describe('parse warnings', () => {
+        const content = `# 2025-01
+
+| Start | End | Description | Client | Project | Activity | Notes |
+|-------|-----|-------------|--------|---------|----------|-------|
+| 2025-01-15 09:00 | 2025-01-15 10:00 | Good row | acme | | | |
+| 2025-01-15 11:00 | 2025-01-15 12:00 | No client | | | | |
+| 15/01/2025 13:00 | 2025-01-15 14:00 | Bad date | acme | | | |
+| | | | | | | |
+`;
+
+        it('should report skipped rows with file, row, column and line', () => {
+            const result = TableParser.parseMonthFile(content, '2025-01', 'TimeTracking/2025-01.md');
+
+            expect(result.entries.length).toBe(1);
+            expect(result.warnings).toEqual([
+                { file: 'TimeTracking/2025-01.md', row: 2, column: 'Client', reason: 'Missing client', line: 6 },
+                {
+                    file: 'TimeTracking/2025-01.md',
+                    row: 3,
+                    column: 'Start',
+                    reason: 'Invalid date/time "15/01/2025 13:00" (expected YYYY-MM-DD HH:mm)',
+                    line: 7,
+                },
+            ]);
+        });
+
+        it('should not warn about the closing %% of a hidden table', () => {
+            const hidden = TableParser.generateMonthFile([createEntry()], '2025-01', true);
+            const result = TableParser.parseMonthFile(hidden, '2025-01');
+
+            expect(result.warnings).toEqual([]);
+        });
+    });
+
     describe('generateTable', () => {
         it('should generate a valid markdown table', () => {
             const entries = [
@@ -175,6 +260,107 @@ describe('TableParser', () => {
         });
     });
 
+    describe('preserving foreign content', () => {
+        const existing = `---
+tags: [timesheet]
+---
+# 2025-01
+
+Invoiced up to the 10th. Ask Sam about the retainer.
+
+%%
+| Start | End | Description | Client | Project | Activity | Notes | ID | Ticket |
+|-------|-----|-------------|--------|---------|----------|-------|----|--------|
+| 2025-01-15 09:00 | 2025-01-15 10:00 | Task | acme | | | | a1 | [JIRA-12](https://jira/12) \\| urgent |
+| tbd | | Remember to log Friday | | | | | | |
+%%
+
+## Expenses
+
+| Item | Cost |
+|------|------|
+| Train | 42 |
+`;
+
+        it('should read unknown columns as raw markdown', () => {
+            const result = TableParser.parseMonthFile(existing, '2025-01');
+
+            expect(result.entries.length).toBe(1);
+            expect(result.entries[0].extraFields).toEqual({ Ticket: '[JIRA-12](https://jira/12) \\| urgent' });
+        });
+
+        it('should ignore tables without Start and End columns', () => {
+            const result = TableParser.parseMonthFile(existing, '2025-01');
+
+            expect(result.entries.every(e => e.client === 'acme')).toBe(true);
+        });
+
+        it('should keep everything outside the entry table', () => {
+            const parsed = TableParser.parseMonthFile(existing, '2025-01');
+            const entries = [...parsed.entries, createEntry({ id: 'b2' })];
+            const result = TableParser.generateMonthFile(entries, '2025-01', true, existing);
+
+            expect(result.startsWith('---\ntags: [timesheet]\n---\n# 2025-01\n\nInvoiced up to the 10th.')).toBe(true);
+            expect(result).toContain('## Expenses\n\n| Item | Cost |\n|------|------|\n| Train | 42 |\n');
+            expect(result).not.toContain('WARNING');
+            expect(result).toContain('| tbd | | Remember to log Friday | | | | | | |');
+        });
+
+        it('should round-trip unknown columns', () => {
+            const parsed = TableParser.parseMonthFile(existing, '2025-01');
+            const result = TableParser.generateMonthFile(parsed.entries, '2025-01', true, existing);
+            const reparsed = TableParser.parseMonthFile(result, '2025-01');
+
+            expect(reparsed.entries.length).toBe(1);
+            expect(reparsed.entries[0].extraFields).toEqual(parsed.entries[0].extraFields);
+            expect(result).toContain('| Ticket');
+        });
+
+        it('should be stable across repeated saves', () => {
+            const parsed = TableParser.parseMonthFile(existing, '2025-01');
+            const once = TableParser.generateMonthFile(parsed.entries, '2025-01', true, existing);
+            const twice = TableParser.generateMonthFile(
+                TableParser.parseMonthFile(once, '2025-01').entries, '2025-01', true, once
+            );
+
+            expect(twice).toBe(once);
+        });
+
+        it('should toggle the %% wrapper without touching surrounding text', () => {
+            const parsed = TableParser.parseMonthFile(existing, '2025-01');
+            const shown = TableParser.generateMonthFile(parsed.entries, '2025-01', false, existing);
+
+            expect(shown).not.toMatch(/^%%$/m);
+            expect(shown).toContain('Ask Sam about the retainer.\n\n| Start');
+
+            const hidden = TableParser.generateMonthFile(parsed.entries, '2025-01', true, shown);
+            expect(hidden).toContain('Ask Sam about the retainer.\n\n%%\n| Start');
+        });
+
+        it('should append a table to a file that has none', () => {
+            const content = '# 2025-01\n\nJust notes so far.\n';
+            const result = TableParser.generateMonthFile([createEntry()], '2025-01', false, content);
+
+            expect(result.startsWith(content)).toBe(true);
+            expect(TableParser.parseMonthFile(result, '2025-01').entries.length).toBe(1);
+        });
+    });
+
+    describe('tags', () => {
+        it('should parse tags with or without # and drop duplicates', () => {
+            expect(TableParser.parseTags('#oncall #overtime')).toEqual(['oncall', 'overtime']);
+            expect(TableParser.parseTags('oncall, #OnCall,travel')).toEqual(['oncall', 'travel']);
+            expect(TableParser.parseTags('')).toBeUndefined();
+        });
+
+        it('should round-trip tags through the Tags column', () => {
+            const table = TableParser.generateTable([createEntry({ tags: ['oncall', 'client/acme'] })]);
+
+            expect(table).toContain('#oncall #client/acme');
+            expect(TableParser.parseMonthFile(table, '2025-01').entries[0].tags).toEqual(['oncall', 'client/acme']);
+        });
+    });
+
     describe('round-trip parsing', () => {
         it('should generate and parse back to same data', () => {
             const original = createEntry({
@@ -198,6 +384,15 @@ describe('TableParser', () => {
             expect(entry.linkedNote).toBe(original.linkedNote);
         });
 
+        it('should round-trip the entry ID', () => {
+            const original = createEntry({ id: 'abc123' });
+
+            const table = TableParser.generateTable([original]);
+            const parsed = TableParser.parseMonthFile(table, '2025-01');
+
+            expect(parsed.entries[0].id).toBe('abc123');
+        });
+
         it('should round-trip midnight-spanning entry correctly', () => {
             const original = createEntry({
                 date: '2025-01-15',
@@ -0,0 +1,107 @@
+import { DataManager } from '../src/data/DataManager';
+import { Taxonomy } from '../src/data/Taxonomy';
+import { DEFAULT_SETTINGS, NewTimeEntry, TimeTrackerSettings } from '../src/types';
+import { MemoryVault } from './helpers/MemoryVault';
+
+describe('Taxonomy', () => {
+    const newEntry = (start: string, description: string, overrides: Partial<NewTimeEntry> = {}): NewTimeEntry => ({
+        date: start.slice(0, 10),
+        start,
+        end: `${start.slice(0, 11)}${String(Number(start.slice(11, 13)) + 1).padStart(2, '0')}:00`,
+        description,
+        client: 'acme',
+        ...overrides,
+    });
+
+    let settings: TimeTrackerSettings;
+    let dataManager: DataManager;
+    let saves: number;
+
+    beforeEach(async () => {
+        settings = {
+            ...DEFAULT_SETTINGS,
+            defaultProject: 'web',
+            clients: [
+                { id: 'acme', name: 'Acme', color: '#000000', archived: false, rate: 100, currency: 'USD' },
+                { id: 'globex', name: 'Globex', color: '#111111', archived: false, rate: 100, currency: 'USD' },
+            ],
+            projects: [
+                { id: 'web', name: 'Web', color: '#222222', archived: false, clientId: 'acme' },
+                { id: 'website', name: 'Website', color: '#333333', archived: false, clientId: 'acme' },
+                { id: 'web-globex', name: 'Web', color: '#444444', archived: false, clientId: 'globex' },
+            ],
+            activities: [
+                { id: 'meetings', name: 'Meetings', color: '#555555', clientId: 'acme', billable: false },
+                { id: 'calls', name: 'Calls', color: '#666666', clientId: 'acme' },
+            ],
+            customFields: [{ id: 'po', name: 'PO', type: 'text', clientId: 'acme' }],
+        };
+        dataManager = new DataManager(new MemoryVault(), settings);
+        saves = 0;
+        dataManager.setSettingsSaver(() => {
+            saves++;
+            return Promise.resolve();
+        });
+
+        await dataManager.createEntry(newEntry('2025-01-10 09:00', 'By name', { project: 'Web', activity: 'Meetings' }));
+        await dataManager.createEntry(newEntry('2025-02-10 09:00', 'By old ID', { project: 'web', activity: 'Calls' }));
+        await dataManager.createEntry(newEntry('2025-02-10 11:00', 'Other client', { client: 'globex', project: 'Web' }));
+    });
+
+    it('should rename a project in every file and undo both entries and settings', async () => {
+        const plan = await dataManager.previewTaxonomyChange({ type: 'rename', kind: 'project', id: 'web', name: 'Web app' });
+        expect(plan.label).toBe('Rename project "Web" to "Web app"');
+        expect(plan.changes.map(c => c.after?.description)).toEqual(['By name', 'By old ID']);
+
+        await dataManager.applyTaxonomyChange(plan);
+        expect((await dataManager.loadAllEntries()).map(e => e.project)).toEqual(['Web app', 'Web app', 'Web']);
+        expect(settings.projects.find(p => p.id === 'web')?.name).toBe('Web app');
+        expect(settings.defaultProject).toBe('Web app');
+        expect(saves).toBe(1);
+
+        await dataManager.undo();
+        expect((await dataManager.loadAllEntries()).map(e => e.project)).toEqual(['Web', 'web', 'Web']);
+        expect(settings.projects.find(p => p.id === 'web')?.name).toBe('Web');
+        expect(settings.defaultProject).toBe('web');
+        expect(saves).toBe(2);
+    });
+
+    it('should merge activities and keep non-billable time non-billable', async () => {
+        await dataManager.applyTaxonomyChange(
+            await dataManager.previewTaxonomyChange({ type: 'merge', kind: 'activity', id: 'meetings', intoId: 'calls' })
+        );
+
+        const entries = await dataManager.loadAllEntries();
+        expect(entries.map(e => [e.description, e.activity, e.billable])).toEqual([
+            ['By name', 'Calls', false],
+            ['By old ID', 'Calls', undefined],
+            ['Other client', undefined, undefined],
+        ]);
+        expect(settings.activities.map(a => a.id)).toEqual(['calls']);
+    });
+
+    it('should merge a client with its projects, activities and fields', async () => {
+        await dataManager.applyTaxonomyChange(
+            await dataManager.previewTaxonomyChange({ type: 'merge', kind: 'client', id: 'acme', intoId: 'globex' })
+        );
+
+        const entries = await dataManager.loadAllEntries();
+        expect(entries.map(e => [e.client, e.project])).toEqual([
+            ['globex', 'Web'],
+            ['globex', 'Web'],
+            ['globex', 'Web'],
+        ]);
+        // Globex already had a "Web" project, so Acme's is folded into it
+        expect(settings.projects.map(p => [p.id, p.clientId])).toEqual([['website', 'globex'], ['web-globex', 'globex']]);
+        expect(settings.activities.every(a => a.clientId === 'globex')).toBe(true);
+        expect(settings.customFields[0].clientId).toBe('globex');
+        expect(settings.clients.map(c => c.id)).toEqual(['globex']);
+    });
+
+    it('should refuse renames onto an existing name and merges across clients', () => {
+        expect(() => Taxonomy.plan([], { type: 'rename', kind: 'project', id: 'web', name: 'Website' }, settings))
+            .toThrow('merge them instead');
+        expect(() => Taxonomy.plan([], { type: 'merge', kind: 'project', id: 'web', intoId: 'web-globex' }, settings))
+            .toThrow('same client');
+    });
+});
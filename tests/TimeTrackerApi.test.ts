@@ -0,0 +1,90 @@
+import { TimeTrackerApi } from '../src/api/TimeTrackerApi';
+import { DataManager } from '../src/data/DataManager';
+import { DEFAULT_SETTINGS, TimeTrackerSettings } from '../src/types';
+import { MemoryVault } from './helpers/MemoryVault';
+
+describe('TimeTrackerApi', () => {
+    const settings: TimeTrackerSettings = {
+        ...DEFAULT_SETTINGS,
+        clients: [
+            { id: 'acme', name: 'Acme Corp', color: '#000000', archived: false, rate: 100, currency: 'USD' },
+        ],
+        projects: [
+            { id: 'website', name: 'Website', color: '#111111', archived: false, clientId: 'acme' },
+        ],
+        activities: [
+            { id: 'meeting', name: 'Meeting', color: '#222222', clientId: 'acme', billable: false },
+        ],
+    };
+
+    let dataManager: DataManager;
+    let api: TimeTrackerApi;
+    let changes: number;
+
+    beforeEach(async () => {
+        dataManager = new DataManager(new MemoryVault(), settings);
+        changes = 0;
+        api = new TimeTrackerApi(dataManager, () => settings, () => changes++);
+
+        await api.create({ start: '2025-03-03 09:00', end: '2025-03-03 10:00', description: 'Homepage', client: 'Acme Corp', project: 'website', tags: ['#design'] });
+        await api.create({ start: new Date(2025, 2, 3, 23, 0), end: new Date(2025, 2, 4, 1, 0), description: 'Late call', client: 'acme', activity: 'Meeting' });
+    });
+
+    it('should store clients by ID and projects and activities by name', async () => {
+        const entries = await api.query();
+
+        expect(entries.map(e => [e.description, e.client, e.project, e.activity, e.tags])).toEqual([
+            ['Late call', 'acme', undefined, 'Meeting', undefined],
+            ['Homepage', 'acme', 'Website', undefined, ['design']],
+        ]);
+        expect(entries[0]).not.toHaveProperty('lineNumber');
+        expect(changes).toBe(2);
+    });
+
+    it('should refuse input the entry form would refuse', async () => {
+        const valid = { start: '2025-03-05 09:00', end: '2025-03-05 10:00', description: 'Review', client: 'acme' };
+
+        await expect(api.create({ ...valid, client: 'globex' })).rejects.toThrow('Unknown client "globex"');
+        await expect(api.create({ ...valid, project: 'App' })).rejects.toThrow('Unknown project "App"');
+        await expect(api.create({ ...valid, end: '2025-03-05 08:00' })).rejects.toThrow('End time must be after start time');
+        await expect(api.create({ ...valid, start: 'tomorrow' })).rejects.toThrow('Invalid start or end');
+        await expect(api.create({ ...valid, start: '2025-03-03 09:30', end: '2025-03-03 09:45' })).rejects.toThrow('overlaps');
+        expect(await api.query({ from: '2025-03-05', to: '2025-03-05' })).toEqual([]);
+    });
+
+    it('should filter queries by fields, whole days and billable status', async () => {
+        const descriptions = async (filter: Parameters<TimeTrackerApi['query']>[0]) =>
+            (await api.query(filter)).map(e => e.description);
+
+        expect(await descriptions({ from: '2025-03-04', to: '2025-03-04' })).toEqual(['Late call']);
+        expect(await descriptions({ client: 'Acme Corp', project: 'website' })).toEqual(['Homepage']);
+        expect(await descriptions({ tag: '#design' })).toEqual(['Homepage']);
+        expect(await descriptions({ billable: false })).toEqual(['Late call']);
+        expect(await descriptions({ text: 'home' })).toEqual(['Homepage']);
+    });
+
+    it('should update and delete by ID', async () => {
+        const [late] = await api.query({ text: 'late' });
+
+        const updated = await api.update(late.id, { description: 'Late standup', billable: true });
+        expect(updated.activity).toBe('Meeting');
+        expect(updated.start).toBe('23:00');
+        expect((await api.query({ billable: true })).map(e => e.description)).toEqual(['Late standup', 'Homepage']);
+
+        await api.delete(late.id);
+        expect((await api.query()).map(e => e.description)).toEqual(['Homepage']);
+        await expect(api.delete(late.id)).rejects.toThrow('No time entry');
+    });
+
+    it('should report time per group, clipped to the range', async () => {
+        const report = await api.getReport({ from: '2025-03-03', to: '2025-03-03' }, 'activity');
+
+        expect(report.totalMinutes).toBe(120);
+        expect(report.billableMinutes).toBe(60);
+        expect(report.groups).toEqual([
+            { value: '(None)', totalMinutes: 60, entryCount: 1 },
+            { value: 'Meeting', totalMinutes: 60, entryCount: 1 },
+        ]);
+        await expect(api.getReport({ from: '2025-03-01', to: '2025-03-31' }, 'colour')).rejects.toThrow('Can\'t group by "colour"');
+    });
+});
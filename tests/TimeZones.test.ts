@@ -0,0 +1,120 @@
+import { TimeZones } from '../src/utils/TimeZones';
+import { TableParser } from '../src/core/TableParser';
+import { DataManager } from '../src/data/DataManager';
+import { DEFAULT_SETTINGS } from '../src/types';
+import { MemoryVault } from './helpers/MemoryVault';
+
+describe('TimeZones', () => {
+    it('should convert wall-clock times to instants and back', () => {
+        const summer = TimeZones.toInstant({ year: 2025, month: 7, day: 1, hours: 9, minutes: 0 }, 'Europe/Berlin');
+        expect(summer.toISOString()).toBe('2025-07-01T07:00:00.000Z');
+        expect(TimeZones.toWallClock(summer, 'America/New_York')).toEqual({ year: 2025, month: 7, day: 1, hours: 3, minutes: 0 });
+
+        expect(TimeZones.offsetMinutes('Europe/Berlin', new Date(Date.UTC(2025, 0, 1)))).toBe(60);
+        expect(TimeZones.offsetMinutes('-05:30', new Date())).toBe(-330);
+        expect(TimeZones.isValid('Mars/Olympus_Mons')).toBe(false);
+    });
+
+    describe('in data files', () => {
+        const table = (start: string, end: string, frontmatter = '') => `${frontmatter}# 2025-03
+
+| Start | End | Description | Client | ID |
+|-------|-----|-------------|--------|----|
+| ${start} | ${end} | Late shift | personal | tz1 |
+`;
+
+        it('should read times in their zone and count real minutes across DST changes', () => {
+            // Clocks in New York skip 02:00-03:00 that night
+            const [entry] = TableParser.parseMonthFile(
+                table('2025-03-09 00:00 America/New_York', '2025-03-09 03:00 America/New_York'), '2025-03'
+            ).entries;
+
+            expect(entry.timeZone).toBe('America/New_York');
+            expect(entry.startDateTime.toISOString()).toBe('2025-03-09T05:00:00.000Z');
+            expect(entry.endDateTime.toISOString()).toBe('2025-03-09T07:00:00.000Z');
+            expect(entry.durationMinutes).toBe(120);
+        });
+
+        it('should take the zone from the frontmatter and keep it when writing', () => {
+            const parsed = TableParser.parseMonthFile(
+                table('2025-03-10 09:00', '2025-03-10 10:00', '---\ntimezone: Asia/Tokyo\n---\n'), '2025-03'
+            );
+            const [entry] = parsed.entries;
+
+            expect(entry.timeZone).toBe('Asia/Tokyo');
+            expect(entry.startDateTime.toISOString()).toBe('2025-03-10T00:00:00.000Z');
+
+            const written = TableParser.generateMonthFile(parsed.entries, '2025-03', false);
+            expect(written).toContain('2025-03-10 09:00 Asia/Tokyo');
+            expect(written).toContain('2025-03-10 10:00 Asia/Tokyo');
+
+            // A zone written on a cell wins over the file's
+            const [offset] = TableParser.parseMonthFile(
+                table('2025-03-10 09:00 +02:00', '2025-03-10 10:00', '---\ntimezone: Asia/Tokyo\n---\n'), '2025-03'
+            ).entries;
+            expect(offset.endDateTime.toISOString()).toBe('2025-03-10T08:00:00.000Z');
+        });
+
+        it('should warn about unknown zones', () => {
+            const parsed = TableParser.parseMonthFile(table('2025-03-10 09:00 Mars/Base', '2025-03-10 10:00'), '2025-03');
+
+            expect(parsed.entries).toHaveLength(0);
+            expect(parsed.warnings[0].column).toBe('Start');
+        });
+    });
+
+    it('should file entries by the date in their own zone and find them from other zones', async () => {
+        const vault = new MemoryVault();
+        const dataManager = new DataManager(vault, DEFAULT_SETTINGS);
+
+        // Already February in Kiribati, still January in most other places
+        const created = await dataManager.createEntry({
+            date: '2025-02-01',
+            start: '2025-02-01 01:00 Pacific/Kiritimati',
+            end: '2025-02-01 02:00 Pacific/Kiritimati',
+            description: 'Call with the Kiribati office',
+            client: 'personal',
+        });
+
+        expect(created.timeZone).toBe('Pacific/Kiritimati');
+        expect(vault.files.get('TimeTracking/2025-02.md')).toContain('2025-02-01 01:00 Pacific/Kiritimati');
+
+        const found = await dataManager.loadDateRange(
+            new Date(Date.UTC(2025, 0, 31, 0, 0)),
+            new Date(Date.UTC(2025, 0, 31, 12, 0))
+        );
+        expect(found.map(e => e.id)).toEqual([created.id]);
+    });
+
+    it('should show entries filed in the neighbouring month on the day they fall on here', async () => {
+        const vault = new MemoryVault();
+        const dataManager = new DataManager(vault, DEFAULT_SETTINGS);
+
+        // Filed in February, but still January 31 in zones behind Kiribati
+        const ahead = await dataManager.createEntry({
+            date: '2025-02-01',
+            start: '2025-02-01 01:00 Pacific/Kiritimati',
+            end: '2025-02-01 02:00 Pacific/Kiritimati',
+            description: 'Call with the Kiribati office',
+            client: 'personal',
+        });
+        // Filed in January, but already February 1 in zones ahead of Honolulu
+        const behind = await dataManager.createEntry({
+            date: '2025-01-31',
+            start: '2025-01-31 22:00 Pacific/Honolulu',
+            end: '2025-01-31 23:00 Pacific/Honolulu',
+            description: 'Call with the Honolulu office',
+            client: 'personal',
+        });
+        expect(vault.files.get('TimeTracking/2025-02.md')).toContain('Kiribati');
+        expect(vault.files.get('TimeTracking/2025-01.md')).toContain('Honolulu');
+
+        for (const entry of [ahead, behind]) {
+            const day = await dataManager.loadEntriesForDate(entry.startDateTime);
+            expect(day.map(e => e.id)).toContain(entry.id);
+
+            const keys = dataManager.getPartitionKeysForDisplay(entry.startDateTime, entry.endDateTime);
+            expect(keys).toEqual(expect.arrayContaining([dataManager.getPartitioning().keyForEntry(entry)]));
+        }
+    });
+});
@@ -0,0 +1,84 @@
+import { DataManager } from '../src/data/DataManager';
+import { DEFAULT_SETTINGS, NewTimeEntry } from '../src/types';
+import { MemoryVault } from './helpers/MemoryVault';
+
+describe('Trash', () => {
+    const newEntry = (start: string, end: string): NewTimeEntry => ({
+        date: '2025-01-15',
+        start: `2025-01-15 ${start}`,
+        end: `2025-01-15 ${end}`,
+        description: 'Work',
+        client: 'personal',
+    });
+
+    let vault: MemoryVault;
+    let dataManager: DataManager;
+
+    beforeEach(() => {
+        vault = new MemoryVault();
+        dataManager = new DataManager(vault, { ...DEFAULT_SETTINGS });
+    });
+
+    it('should move deleted entries to Trash.md with a deletion time', async () => {
+        const entry = await dataManager.createEntry(newEntry('09:00', '10:00'));
+        await dataManager.deleteEntry(entry);
+
+        const trashed = await dataManager.loadTrash();
+        expect(trashed.map(t => t.entry.id)).toEqual([entry.id]);
+        expect(trashed[0].deletedAt).toBeInstanceOf(Date);
+        expect(trashed[0].entry.extraFields).toBeUndefined();
+        expect(vault.files.get('TimeTracking/Trash.md')).toContain('| Deleted');
+    });
+
+    it('should restore an entry and take it out of the trash', async () => {
+        const entry = await dataManager.createEntry(newEntry('09:00', '10:00'));
+        await dataManager.deleteEntry(entry);
+        const [trashed] = await dataManager.loadTrash();
+
+        await dataManager.restoreFromTrash([trashed.entry]);
+
+        expect((await dataManager.loadPartition('2025-01')).entries.map(e => e.id)).toEqual([entry.id]);
+        expect(await dataManager.loadTrash()).toEqual([]);
+    });
+
+    it('should refuse to restore over an overlapping entry', async () => {
+        const entry = await dataManager.createEntry(newEntry('09:00', '10:00'));
+        await dataManager.deleteEntry(entry);
+        await dataManager.createEntry(newEntry('09:30', '10:30'));
+        const [trashed] = await dataManager.loadTrash();
+
+        await expect(dataManager.restoreFromTrash([trashed.entry])).rejects.toThrow('overlaps');
+        expect((await dataManager.loadTrash()).length).toBe(1);
+    });
+
+    it('should refuse to restore entries that overlap each other', async () => {
+        await dataManager.deleteEntry(await dataManager.createEntry(newEntry('09:00', '10:00')));
+        await dataManager.deleteEntry(await dataManager.createEntry(newEntry('09:30', '10:30')));
+        const trashed = await dataManager.loadTrash();
+
+        await expect(dataManager.restoreFromTrash(trashed.map(t => t.entry)))
+            .rejects.toThrow('Entries would overlap (2025-01-15 09:00 - 2025-01-15 10:00 and 2025-01-15 09:30 - 2025-01-15 10:30)');
+        expect((await dataManager.loadTrash()).length).toBe(2);
+        expect((await dataManager.loadPartition('2025-01')).entries).toEqual([]);
+    });
+
+    it('should take an entry out of the trash when its delete is undone', async () => {
+        const entry = await dataManager.createEntry(newEntry('09:00', '10:00'));
+        await dataManager.deleteEntry(entry);
+
+        await dataManager.undo();
+
+        expect(await dataManager.loadTrash()).toEqual([]);
+    });
+
+    it('should purge entries permanently', async () => {
+        const a = await dataManager.createEntry(newEntry('09:00', '10:00'));
+        const b = await dataManager.createEntry(newEntry('11:00', '12:00'));
+        await dataManager.deleteEntry(a);
+        await dataManager.deleteEntry(b);
+
+        await dataManager.purgeFromTrash([a.id]);
+
+        expect((await dataManager.loadTrash()).map(t => t.entry.id)).toEqual([b.id]);
+    });
+});
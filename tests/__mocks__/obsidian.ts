@@ -6,16 +6,48 @@ export class Notice {
     }
 }
 
+export interface EventRef {
+    name: string;
+    callback: (...data: unknown[]) => unknown;
+    ctx?: unknown;
+}
+
+export class Events {
+    private refs: EventRef[] = [];
+
+    on(name: string, callback: (...data: unknown[]) => unknown, ctx?: unknown): EventRef {
+        const ref = { name, callback, ctx };
+        this.refs.push(ref);
+        return ref;
+    }
+
+    off(name: string, callback: (...data: unknown[]) => unknown): void {
+        this.refs = this.refs.filter(ref => ref.name !== name || ref.callback !== callback);
+    }
+
+    offref(ref: EventRef): void {
+        this.refs = this.refs.filter(r => r !== ref);
+    }
+
+    trigger(name: string, ...data: unknown[]): void {
+        for (const ref of this.refs.filter(r => r.name === name)) {
+            ref.callback.apply(ref.ctx, data);
+        }
+    }
+}
+
 export class TFile {
     path: string = '';
     name: string = '';
     basename: string = '';
     extension: string = 'md';
+    stat = { ctime: 0, mtime: 0, size: 0 };
 }
 
 export class TFolder {
     path: string = '';
     name: string = '';
+    children: (TFile | TFolder)[] = [];
 }
 
 export class Vault {
@@ -25,10 +57,22 @@ export class Vault {
 
     async modify(file: TFile, content: string): Promise<void> {}
 
+    async process(file: TFile, fn: (data: string) => string): Promise<string> {
+        const content = fn(await this.read(file));
+        await this.modify(file, content);
+        return content;
+    }
+
     async create(path: string, content: string): Promise<TFile> {
         return new TFile();
     }
 
+    async delete(file: TFile): Promise<void> {}
+
+    async rename(file: TFile, newPath: string): Promise<void> {}
+
+    async createFolder(path: string): Promise<void> {}
+
     getAbstractFileByPath(path: string): TFile | TFolder | null {
         return null;
     }
@@ -0,0 +1,83 @@
+import { TFile, TFolder, Vault } from 'obsidian';
+
+/**
+ * Vault backed by a Map, with an optional path that fails on write
+ * Every write bumps a file's mtime, and reads are counted per path.
+ * onModify stands in for Obsidian's modify event, which fires before the write returns.
+ */
+export class MemoryVault extends Vault {
+    files = new Map<string, string>();
+    folders = new Set<string>(['TimeTracking']);
+    failOn: string | null = null;
+    mtimes = new Map<string, number>();
+    reads = new Map<string, number>();
+    onModify: ((path: string) => void) | null = null;
+    private clock = 0;
+
+    private toFile(path: string): TFile {
+        const file = new TFile();
+        file.path = path;
+        file.name = path.substring(path.lastIndexOf('/') + 1);
+        file.stat = { ctime: 0, mtime: this.mtimes.get(path) ?? 0, size: this.files.get(path)?.length ?? 0 };
+        return file;
+    }
+
+    private touch(path: string): void {
+        this.mtimes.set(path, ++this.clock);
+    }
+
+    private toFolder(path: string): TFolder {
+        const folder = new TFolder();
+        folder.path = path;
+        folder.name = path.substring(path.lastIndexOf('/') + 1);
+        const prefix = `${path}/`;
+        const isChild = (p: string) => p.startsWith(prefix) && !p.slice(prefix.length).includes('/');
+        folder.children = [
+            ...[...this.folders].filter(isChild).map(p => this.toFolder(p)),
+            ...[...this.files.keys()].filter(isChild).map(p => this.toFile(p)),
+        ];
+        return folder;
+    }
+
+    async read(file: TFile): Promise<string> {
+        this.reads.set(file.path, (this.reads.get(file.path) ?? 0) + 1);
+        return this.files.get(file.path) ?? '';
+    }
+
+    async modify(file: TFile, content: string): Promise<void> {
+        if (file.path === this.failOn) throw new Error(`Disk full writing ${file.path}`);
+        this.files.set(file.path, content);
+        this.touch(file.path);
+        this.onModify?.(file.path);
+    }
+
+    async create(path: string, content: string): Promise<TFile> {
+        if (path === this.failOn) throw new Error(`Disk full writing ${path}`);
+        this.files.set(path, content);
+        this.touch(path);
+        this.onModify?.(path);
+        return this.toFile(path);
+    }
+
+    async createFolder(path: string): Promise<TFolder> {
+        this.folders.add(path);
+        return this.toFolder(path);
+    }
+
+    async delete(file: TFile): Promise<void> {
+        this.files.delete(file.path);
+    }
+
+    async rename(file: TFile | TFolder, newPath: string): Promise<void> {
+        if (newPath === this.failOn) throw new Error(`Disk full writing ${newPath}`);
+        this.files.set(newPath, this.files.get(file.path) ?? '');
+        this.files.delete(file.path);
+        this.touch(newPath);
+    }
+
+    getAbstractFileByPath(path: string): TFile | TFolder | null {
+        if (this.files.has(path)) return this.toFile(path);
+        if (this.folders.has(path)) return this.toFolder(path);
+        return null;
+    }
+}